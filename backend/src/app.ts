@@ -4,6 +4,42 @@ import { Server, Socket } from "socket.io";
 import cors from "cors";
 import mongoose from "mongoose";
 import dotenv from "dotenv";
+import Driver from "./models/Driver";
+import routesRouter from "./routers/routes";
+import stopsRouter from "./routers/stops";
+import driverAuthRouter from "./routers/driverAuth";
+import driverAccountsRouter from "./routers/driverAccounts";
+import passengerAuthRouter from "./routers/passengerAuth";
+import vehiclesRouter from "./routers/vehicles";
+import gtfsRouter from "./routers/gtfs";
+import gtfsRealtimeRouter from "./routers/gtfsRealtime";
+import arrivalAlertsRouter from "./routers/arrivalAlerts";
+import journeysRouter from "./routers/journeys";
+import faresRouter from "./routers/fares";
+import walletRouter from "./routers/wallet";
+import { createTripsRouter } from "./routers/trips";
+import { createIncidentsRouter } from "./routers/incidents";
+import { createMessagesRouter } from "./routers/messages";
+import { createFleetRouter } from "./routers/fleet";
+import { createServiceAlertsRouter } from "./routers/serviceAlerts";
+import { authenticateSocket, getDriverId, isDispatcher, requireSocketDriver } from "./sockets/auth";
+import { parseSocketPayload } from "./validation/validate";
+import { DriverDataSchema, SosSchema } from "./validation/schemas";
+import { forgetActiveTrip, getActiveTrip } from "./services/trips";
+import { updateDriver } from "./services/fleet";
+import { DISPATCH_ROOM, emitToRoute } from "./services/rooms";
+import { registerSubscriptionHandlers } from "./sockets/subscriptions";
+import { deliverQueuedMessages, registerMessageHandlers } from "./sockets/messages";
+import { recordPing } from "./services/history";
+import { updateEta } from "./services/eta";
+import { checkArrivalAlerts } from "./services/arrivalAlerts";
+import { updateGeofence } from "./services/geofence";
+import { getOpenAlerts, updateTripAlerts } from "./services/tripAlerts";
+import { getIncidents, getOpenIncidentForDriver, raiseSos } from "./services/incidents";
+import { driverConnected, driverDisconnected, recordHeartbeat, startPresenceMonitor } from "./services/presence";
+import { restoreFleet, snapshotFleet, startFleetSnapshots } from "./services/recovery";
+import { setupLiveStore } from "./services/liveStore";
+import { reconcileTopUps } from "./services/wallet";
 
 dotenv.config();
 
@@ -24,29 +60,53 @@ const mongoUri = process.env.MONGODB_URI;
 if (!mongoUri) {
   throw new Error("MONGODB_URI is not defined in the environment variables");
 }
-mongoose.connect(mongoUri);
-
-// Driver model
-const DriverSchema = new mongoose.Schema({
-  socketId: String,
-  isActive: Boolean,
-});
-
-const Driver = mongoose.model("Driver", DriverSchema);
 
 app.get("/", (req, res) => {
   res.send("WebSocket server is running");
 });
 
-// New route for driver login
-app.post("/driver/login", async (req, res) => {
-  const { password } = req.body;
-  if (password === process.env.DRIVER_PASSWORD) {
-    res.json({ success: true });
-  } else {
-    res.status(401).json({ success: false, message: "Invalid password" });
-  }
-});
+// Route and stop data
+app.use("/routes", routesRouter);
+app.use("/stops", stopsRouter);
+app.use("/gtfs", gtfsRouter);
+
+// GTFS-Realtime feeds for third-party journey planners
+app.use("/gtfs-rt", gtfsRealtimeRouter);
+
+// Disruptions and announcements shown to passengers
+app.use("/service-alerts", createServiceAlertsRouter(io));
+
+// Web Push notifications when a bus nears a passenger's stop
+app.use("/arrival-alerts", arrivalAlertsRouter);
+
+// Fleet and trips
+app.use("/vehicles", vehiclesRouter);
+app.use("/trips", createTripsRouter(io));
+
+// Driver SOS incidents (dispatch only)
+app.use("/incidents", createIncidentsRouter(io));
+
+// Driver <-> dispatch messaging
+app.use("/messages", createMessagesRouter(io));
+
+// Live fleet overview for the dispatch console
+app.use("/fleet", createFleetRouter(io));
+
+// Driver login, token refresh and logout
+app.use("/driver", driverAuthRouter);
+
+// Optional passenger accounts, profile and saved favourites
+app.use("/passenger", passengerAuthRouter);
+
+// Passenger check-ins and travel history
+app.use("/journeys", journeysRouter);
+
+// Fares, and the passenger wallet that pays for signed QR tickets
+app.use("/fares", faresRouter);
+app.use("/wallet", walletRouter);
+
+// Driver account management (admin only)
+app.use("/drivers/accounts", driverAccountsRouter);
 
 // New route to get the number of active drivers
 app.get("/drivers/active-count", async (req, res) => {
@@ -58,63 +118,178 @@ app.get("/drivers/active-count", async (req, res) => {
   }
 });
 
-interface DriverLocation {
-  latitude: number;
-  longitude: number;
-}
-
-interface DriverData {
-  id: string;
-  position: DriverLocation;
-}
+io.use(authenticateSocket);
 
-const drivers: { [key: string]: DriverLocation } = {};
+// Sent by whichever instance handled a trip start or end
+io.on("activeTripChanged", forgetActiveTrip);
 
-io.on("connection", (socket: Socket) => {
+io.on("connection", async (socket: Socket) => {
   console.log("A user connected:", socket.id);
 
-  socket.on("driver-login", async () => {
-    await Driver.findOneAndUpdate(
-      { socketId: socket.id },
-      { socketId: socket.id, isActive: true },
-      { upsert: true, new: true }
-    );
-    io.emit("active-drivers-updated");
-  });
+  const driverId = getDriverId(socket);
+
+  // The sender is identified by its authenticated socket, never by the payload
+  socket.on("updateLocation", async (data: unknown) => {
+    try {
+      const id = await requireSocketDriver(socket, "updateLocation");
+      if (!id) return;
+
+      const parsed = parseSocketPayload(socket, "updateLocation", DriverDataSchema, data);
+      if (!parsed) return;
+      await recordHeartbeat(io, id);
+
+      // Nothing is broadcast until the driver has said which bus and route they're running
+      const trip = await getActiveTrip(id);
+      if (!trip) {
+        socket.emit("eventError", {
+          event: "updateLocation",
+          code: "NO_ACTIVE_TRIP",
+          message: "Start a trip before sharing your location",
+        });
+        return;
+      }
 
-  socket.on("updateLocation", (data: DriverData) => {
-    console.log("Updated data received from the driver: ", data);
+      const { position } = parsed;
+      await updateDriver(id, { position, trip });
 
-    const { id, position } = data;
+      await emitToRoute(io, trip.routeId, "driverLocationUpdate", { id, position, trip });
 
-    if (!id || !position) {
-      console.error("Invalid data received:", data);
-      return;
+      recordPing(id, trip, position).catch((error) => {
+        console.error("Error recording location ping:", error);
+      });
+
+      try {
+        const eta = await updateEta(id, trip, position);
+        if (eta) {
+          await emitToRoute(io, trip.routeId, "etaUpdate", eta);
+          checkArrivalAlerts(eta).catch((error) => {
+            console.error("Error sending arrival alerts:", error);
+          });
+        }
+      } catch (error) {
+        console.error("Error updating ETA:", error);
+      }
+
+      try {
+        const { departed, arrived } = await updateGeofence(id, trip, position);
+        if (departed) await emitToRoute(io, trip.routeId, "busDeparted", departed);
+        if (arrived) await emitToRoute(io, trip.routeId, "busArrived", arrived);
+      } catch (error) {
+        console.error("Error updating stop geofence:", error);
+      }
+
+      try {
+        const { raised, resolved } = await updateTripAlerts(id, trip, position);
+        for (const alert of raised) io.to(DISPATCH_ROOM).emit("tripAlert", alert);
+        for (const alert of resolved) io.to(DISPATCH_ROOM).emit("tripAlertResolved", alert);
+      } catch (error) {
+        console.error("Error checking trip alerts:", error);
+      }
+    } catch (error) {
+      console.error("Error handling location update:", error);
+      socket.emit("eventError", { event: "updateLocation", code: "SERVER_ERROR", message: "Could not share your location" });
     }
+  });
 
-    drivers[id] = position;
+  // Emergency button: persisted first, then dispatch is paged
+  socket.on("sos", async (data: unknown) => {
+    try {
+      const id = await requireSocketDriver(socket, "sos");
+      if (!id) return;
 
-    console.log("Driver location stored:", { id, position });
+      const parsed = parseSocketPayload(socket, "sos", SosSchema, data);
+      if (!parsed) return;
 
-    io.emit("driverLocationUpdate", { id, position });
+      await raiseSos(io, id, parsed);
+    } catch (error) {
+      console.error("Error raising SOS:", error);
+      socket.emit("eventError", { event: "sos", code: "SERVER_ERROR", message: "Could not send SOS, call dispatch" });
+    }
   });
 
-  socket.on("user-connected", () => {
-    socket.emit("driverLocations", drivers);
+  // Sent by the driver app on a timer so a frozen app can be told apart from a parked bus
+  socket.on("heartbeat", async () => {
+    try {
+      const id = await requireSocketDriver(socket, "heartbeat");
+      if (id) await recordHeartbeat(io, id);
+    } catch (error) {
+      console.error("Error recording heartbeat:", error);
+      socket.emit("eventError", { event: "heartbeat", code: "SERVER_ERROR", message: "Could not record heartbeat" });
+    }
   });
 
+  registerSubscriptionHandlers(socket);
+  registerMessageHandlers(io, socket);
+
   socket.on("disconnect", async () => {
-    await Driver.findOneAndDelete(
-      { socketId: socket.id, isActive: true },
-    );
-    io.emit("driverCheck", socket.id);
-    io.emit("active-drivers-updated");
-    delete drivers[socket.id];
+    if (!driverId) return;
+
+    // Nobody left to tell on this socket, so failures are only logged
+    try {
+      await driverDisconnected(io, driverId);
+      io.emit("active-drivers-updated");
+    } catch (error) {
+      console.error("Error handling driver disconnect:", error);
+    }
   });
+
+  // Dispatchers get what is already open, then every alert as it's raised
+  if (isDispatcher(socket)) {
+    socket.join(DISPATCH_ROOM);
+    try {
+      socket.emit("tripAlerts", await getOpenAlerts());
+      socket.emit("sosIncidents", [...(await getIncidents("open")), ...(await getIncidents("acknowledged"))]);
+    } catch (error) {
+      console.error("Error loading dispatch state:", error);
+    }
+  }
+
+  // Authenticated drivers count as active from the moment they connect
+  if (driverId) {
+    try {
+      await driverConnected(io, driverId, socket);
+      // A driver whose app restarted mid-emergency still sees where their SOS stands
+      const incident = await getOpenIncidentForDriver(driverId);
+      if (incident) socket.emit("sosStatus", incident);
+      await deliverQueuedMessages(socket, driverId);
+      io.emit("active-drivers-updated");
+    } catch (error) {
+      console.error("Error setting up driver connection:", error);
+      socket.emit("eventError", { event: "connection", code: "SERVER_ERROR", message: "Could not restore your session state" });
+    }
+  }
+});
+
+// Save the latest positions on a deploy so the map comes back exactly as it was
+process.once("SIGTERM", () => {
+  snapshotFleet()
+    .catch((error) => console.error("Error snapshotting fleet:", error))
+    .finally(() => process.exit(0));
 });
 
 const PORT = process.env.PORT || 3001;
-server.listen(PORT, () => {
-  console.log(`Socket.IO server running on http://localhost:${PORT}`);
+
+// Shared state has to be in place before the first socket connects
+const start = async () => {
+  await mongoose.connect(mongoUri);
+  if (await setupLiveStore(io)) {
+    console.log("Sharing live fleet state through Redis");
+  }
+
+  const restored = await restoreFleet();
+  if (restored > 0) console.log(`Restored ${restored} live bus(es) from the last snapshot`);
+  startFleetSnapshots();
+  startPresenceMonitor(io);
+  const unresolvedTopUps = await reconcileTopUps();
+  if (unresolvedTopUps > 0) console.warn(`${unresolvedTopUps} top-up(s) need checking with the payment provider`);
+
+  server.listen(PORT, () => {
+    console.log(`Socket.IO server running on http://localhost:${PORT}`);
+  });
+};
+
+start().catch((error) => {
+  console.error("Failed to start server:", error);
+  process.exit(1);
 });
 
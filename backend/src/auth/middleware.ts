@@ -0,0 +1,126 @@
+import { NextFunction, Request, Response } from "express";
+import { AccountRole, isSessionActive, verifyAccessToken } from "./tokens";
+
+export interface DriverRequest extends Request {
+  driverId?: string;
+  sessionId?: string;
+}
+
+export interface PassengerRequest extends Request {
+  // Unset on routes where signing in is optional and the passenger hasn't
+  passengerId?: string;
+  sessionId?: string;
+}
+
+export interface DispatcherRequest extends Request {
+  // Unset when the request came in with the admin key
+  dispatcherId?: string;
+}
+
+export const getBearerToken = (header?: string) => {
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+};
+
+// Resolves the request's access token to a live session, or answers 401 and returns null
+const authenticate = async (req: Request, res: Response) => {
+  const token = getBearerToken(req.headers.authorization);
+  const payload = token ? verifyAccessToken(token) : null;
+  if (!payload) {
+    res.status(401).json({ success: false, message: "Not authenticated" });
+    return null;
+  }
+
+  if (!(await isSessionActive(payload.sid))) {
+    res.status(401).json({ success: false, message: "Session has ended" });
+    return null;
+  }
+  return payload;
+};
+
+const requireRole =
+  (...roles: AccountRole[]) => async (req: DriverRequest, res: Response, next: NextFunction) => {
+    try {
+      const payload = await authenticate(req, res);
+      if (!payload) return;
+      if (!roles.includes(payload.role)) {
+        res.status(403).json({ success: false, message: `This needs a ${roles.join(" or ")} account` });
+        return;
+      }
+
+      req.driverId = payload.sub;
+      req.sessionId = payload.sid;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Requires a valid access token whose session has not been revoked, for any staff role
+export const requireSession = requireRole("driver", "dispatcher");
+
+// Same, and the account must be a driver's
+export const requireDriver = requireRole("driver");
+
+// Requires a signed-in passenger
+export const requirePassenger = async (req: PassengerRequest, res: Response, next: NextFunction) => {
+  try {
+    const payload = await authenticate(req, res);
+    if (!payload) return;
+    if (payload.role !== "passenger") {
+      res.status(403).json({ success: false, message: "This needs a passenger account" });
+      return;
+    }
+
+    req.passengerId = payload.sub;
+    req.sessionId = payload.sid;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// For routes that work anonymously but remember more for signed-in
+// passengers. A token that is sent still has to be valid, so the app knows to
+// refresh it.
+export const identifyPassenger = async (req: PassengerRequest, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization) {
+    next();
+    return;
+  }
+  await requirePassenger(req, res, next);
+};
+
+// Guards management endpoints with the shared ADMIN_API_KEY
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey || req.headers["x-admin-key"] !== adminKey) {
+    res.status(403).json({ success: false, message: "Admin access required" });
+    return;
+  }
+  next();
+};
+
+// Guards the dispatch console: a dispatcher account's access token, or the
+// admin key for scripts and for setting up the first dispatcher
+export const requireDispatcher = async (req: DispatcherRequest, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (adminKey && req.headers["x-admin-key"] === adminKey) {
+    next();
+    return;
+  }
+
+  try {
+    const payload = await authenticate(req, res);
+    if (!payload) return;
+    if (payload.role !== "dispatcher") {
+      res.status(403).json({ success: false, message: "Dispatcher access required" });
+      return;
+    }
+
+    req.dispatcherId = payload.sub;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,7 @@
+import bcrypt from "bcryptjs";
+
+const SALT_ROUNDS = 12;
+
+export const hashPassword = (password: string) => bcrypt.hash(password, SALT_ROUNDS);
+
+export const verifyPassword = (password: string, hash: string) => bcrypt.compare(password, hash);
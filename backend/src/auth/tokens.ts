@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import DriverAccount from "../models/DriverAccount";
+import PassengerAccount from "../models/PassengerAccount";
+import Session from "../models/Session";
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export interface AccessTokenPayload {
+  sub: string; // DriverAccount or PassengerAccount id
+  sid: string; // Session id
+  role: AccountRole;
+}
+
+export type AccountRole = "driver" | "dispatcher" | "passenger";
+
+const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not defined in the environment variables");
+  }
+  return secret;
+};
+
+export const hashRefreshToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const signAccessToken = (payload: AccessTokenPayload) =>
+  jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret());
+    if (typeof decoded === "string" || !decoded.sub || !decoded.sid) return null;
+    // Tokens issued before roles existed all belonged to drivers
+    const role = decoded.role === "dispatcher" || decoded.role === "passenger" ? decoded.role : "driver";
+    return { sub: decoded.sub, sid: decoded.sid, role };
+  } catch {
+    return null;
+  }
+};
+
+const newRefreshToken = () => {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return { refreshToken, expiresAt };
+};
+
+// Starts a new session for the account and returns its first token pair
+export const issueTokens = async (accountId: string, role: AccountRole, userAgent?: string) => {
+  const { refreshToken, expiresAt } = newRefreshToken();
+  const session = await Session.create({
+    account: accountId,
+    accountModel: role === "passenger" ? "PassengerAccount" : "DriverAccount",
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent,
+    expiresAt,
+  });
+
+  return {
+    accessToken: signAccessToken({ sub: accountId, sid: session._id.toString(), role }),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+};
+
+const findRefreshableSession = (refreshToken: string, passenger: boolean) =>
+  Session.findOne({
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    // Sessions from before passengers existed have no accountModel
+    accountModel: passenger ? "PassengerAccount" : { $ne: "PassengerAccount" },
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+
+type SessionDocument = NonNullable<Awaited<ReturnType<typeof findRefreshableSession>>>;
+
+const rotateSession = async (session: SessionDocument, role: AccountRole) => {
+  const next = newRefreshToken();
+  session.refreshTokenHash = hashRefreshToken(next.refreshToken);
+  session.expiresAt = next.expiresAt;
+  await session.save();
+
+  return {
+    accessToken: signAccessToken({ sub: session.account.toString(), sid: session._id.toString(), role }),
+    refreshToken: next.refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+};
+
+// Swaps a driver's or dispatcher's refresh token for a new pair. The old
+// refresh token stops working. Returns null when the token is unknown,
+// expired or its session was revoked, or the account is gone.
+export const rotateTokens = async (refreshToken: string) => {
+  const session = await findRefreshableSession(refreshToken, false);
+  if (!session) return null;
+  const account = await DriverAccount.findById(session.account);
+  if (!account) return null;
+
+  return { account, ...(await rotateSession(session, account.role)) };
+};
+
+// Same for a passenger's session
+export const rotatePassengerTokens = async (refreshToken: string) => {
+  const session = await findRefreshableSession(refreshToken, true);
+  if (!session) return null;
+  const account = await PassengerAccount.findById(session.account);
+  if (!account) return null;
+
+  return { account, ...(await rotateSession(session, "passenger")) };
+};
+
+export const revokeSession = (sessionId: string) =>
+  Session.updateOne({ _id: sessionId, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+
+export const revokeAllSessions = (accountId: string) =>
+  Session.updateMany({ account: accountId, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+
+// Signs the account out everywhere except on the device making the request
+export const revokeOtherSessions = (accountId: string, keepSessionId: string) =>
+  Session.updateMany(
+    { account: accountId, _id: { $ne: keepSessionId }, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+
+export const isSessionActive = async (sessionId: string) => {
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return session !== null;
+};
@@ -0,0 +1,84 @@
+export interface CsvRow {
+  // 1-based line number the record starts on, counting the header as line 1
+  line: number;
+  values: Record<string, string>;
+}
+
+export class GtfsFileError extends Error {
+  constructor(public file: string, public line: number | null, message: string) {
+    super(line === null ? `${file}: ${message}` : `${file}:${line}: ${message}`);
+    this.name = "GtfsFileError";
+  }
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and line breaks
+// inside quotes. Keeps track of line numbers so errors can point at them.
+export const parseCsv = (file: string, text: string): CsvRow[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new GtfsFileError(file, recordLine, "Unterminated quoted field");
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  const nonEmpty = records.filter((record) => record.fields.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) return [];
+
+  const [header, ...rows] = nonEmpty;
+  const columns = header.fields.map((name) => name.trim());
+  return rows.map((row) => {
+    if (row.fields.length !== columns.length) {
+      throw new GtfsFileError(
+        file,
+        row.line,
+        `Expected ${columns.length} fields but found ${row.fields.length}`
+      );
+    }
+    const values: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      values[column] = row.fields[index].trim();
+    });
+    return { line: row.line, values };
+  });
+};
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import AdmZip from "adm-zip";
+import { GtfsImportError, readGtfsZip } from "./feed";
+
+const STOPS = [
+  "stop_id,stop_code,stop_name,stop_lat,stop_lon",
+  "S1,101,Tower,24.85,67.00",
+  "S2,102,Saddar,24.86,67.02",
+];
+const TRIPS = ["route_id,service_id,trip_id", "R1,WD,T1"];
+const STOP_TIMES = ["trip_id,stop_id,stop_sequence", "T1,S1,1", "T1,S2,2"];
+
+const buildZip = (files: Record<string, string[]>) => {
+  const zip = new AdmZip();
+  for (const [name, lines] of Object.entries(files)) {
+    zip.addFile(name, Buffer.from(lines.join("\n") + "\n"));
+  }
+  return zip.toBuffer();
+};
+
+const readErrors = (buffer: Buffer) => {
+  try {
+    readGtfsZip(buffer);
+  } catch (error) {
+    assert.ok(error instanceof GtfsImportError);
+    return error.errors.map(({ file, line, message }) => ({ file, line, message }));
+  }
+  assert.fail("Expected the feed to be rejected");
+};
+
+test("reads a valid feed", () => {
+  const feed = readGtfsZip(
+    buildZip({
+      "stops.txt": STOPS,
+      "routes.txt": ["route_id,route_short_name,route_long_name", "R1,4,Power House - Keamari"],
+      "trips.txt": TRIPS,
+      "stop_times.txt": STOP_TIMES,
+    })
+  );
+  assert.deepEqual(
+    feed.routes.map((route) => ({ id: route.id, line: route.line, shortName: route.shortName })),
+    [{ id: "R1", line: 2, shortName: "4" }]
+  );
+});
+
+test("rejects two routes sharing a short name", () => {
+  const errors = readErrors(
+    buildZip({
+      "stops.txt": STOPS,
+      "routes.txt": [
+        "route_id,route_short_name,route_long_name",
+        "R1,4,Power House - Keamari",
+        "R2,4,Keamari - Power House",
+      ],
+      "trips.txt": TRIPS,
+      "stop_times.txt": STOP_TIMES,
+    })
+  );
+  assert.deepEqual(errors, [
+    { file: "routes.txt", line: 3, message: 'routes.txt:3: Duplicate route_short_name "4", first used on line 2' },
+  ]);
+});
+
+test("rejects two stops sharing a stop_code", () => {
+  const errors = readErrors(
+    buildZip({
+      "stops.txt": [...STOPS, "S3,101,Tower Annex,24.85,67.01"],
+      "routes.txt": ["route_id,route_short_name,route_long_name", "R1,4,Power House - Keamari"],
+      "trips.txt": TRIPS,
+      "stop_times.txt": STOP_TIMES,
+    })
+  );
+  assert.deepEqual(errors, [
+    { file: "stops.txt", line: 4, message: 'stops.txt:4: Duplicate stop_code "101", first used on line 2' },
+  ]);
+});
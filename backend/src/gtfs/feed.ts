@@ -0,0 +1,295 @@
+import AdmZip from "adm-zip";
+import { CsvRow, GtfsFileError, parseCsv } from "./csv";
+
+export const REQUIRED_FILES = ["stops.txt", "routes.txt", "trips.txt", "stop_times.txt"] as const;
+export const OPTIONAL_FILES = ["shapes.txt"] as const;
+
+export interface GtfsStop {
+  id: string;
+  // Where it is in stops.txt, for errors found only once the database is checked
+  line: number;
+  code?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GtfsRoute {
+  id: string;
+  // Where it is in routes.txt
+  line: number;
+  shortName: string;
+  longName: string;
+  color?: string;
+  isEv: boolean;
+}
+
+export interface GtfsStopTime {
+  stopId: string;
+  sequence: number;
+  // Seconds after midnight of the service day; may exceed 24h for late trips
+  arrival?: number;
+  departure?: number;
+}
+
+export interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign?: string;
+  direction: 0 | 1;
+  shapeId?: string;
+  stopTimes: GtfsStopTime[];
+}
+
+export interface GtfsFeed {
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  shapes: Map<string, { latitude: number; longitude: number }[]>;
+}
+
+// Every problem found in the feed, so a bad zip can be fixed in one pass
+export class GtfsImportError extends Error {
+  constructor(public errors: GtfsFileError[]) {
+    super(`GTFS feed has ${errors.length} error(s):\n${errors.map((error) => error.message).join("\n")}`);
+    this.name = "GtfsImportError";
+  }
+}
+
+// Stop collecting after this many, the rest are almost always the same mistake
+const MAX_ERRORS = 50;
+
+class RowReader {
+  constructor(private file: string, private errors: GtfsFileError[]) {}
+
+  error(row: CsvRow, message: string) {
+    if (this.errors.length < MAX_ERRORS) {
+      this.errors.push(new GtfsFileError(this.file, row.line, message));
+    }
+    return undefined;
+  }
+
+  required(row: CsvRow, column: string) {
+    const value = row.values[column];
+    if (value === undefined || value === "") return this.error(row, `Missing ${column}`);
+    return value;
+  }
+
+  optional(row: CsvRow, column: string) {
+    const value = row.values[column];
+    return value === undefined || value === "" ? undefined : value;
+  }
+
+  number(row: CsvRow, column: string, min: number, max: number) {
+    const raw = this.required(row, column);
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return this.error(row, `${column} must be a number between ${min} and ${max}, got "${raw}"`);
+    }
+    return value;
+  }
+
+  time(row: CsvRow, column: string) {
+    const raw = this.optional(row, column);
+    if (raw === undefined) return undefined;
+    const match = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/.exec(raw);
+    if (!match) return this.error(row, `${column} must look like HH:MM:SS, got "${raw}"`);
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+  }
+
+  reference(row: CsvRow, column: string, known: Set<string>, target: string) {
+    const value = this.required(row, column);
+    if (value !== undefined && !known.has(value)) {
+      return this.error(row, `${column} "${value}" does not exist in ${target}`);
+    }
+    return value;
+  }
+
+  duplicate(row: CsvRow, column: string, value: string, firstLine?: number) {
+    const first = firstLine === undefined ? "" : `, first used on line ${firstLine}`;
+    this.error(row, `Duplicate ${column} "${value}"${first}`);
+  }
+}
+
+const readRows = (zip: AdmZip, file: string, errors: GtfsFileError[]) => {
+  const entry = zip.getEntries().find((item) => item.entryName.split("/").pop() === file);
+  if (!entry) return null;
+  try {
+    return parseCsv(file, entry.getData().toString("utf8"));
+  } catch (error) {
+    if (error instanceof GtfsFileError) {
+      errors.push(error);
+      return [];
+    }
+    throw error;
+  }
+};
+
+export const readGtfsZip = (buffer: Buffer): GtfsFeed => {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(buffer);
+  } catch {
+    throw new GtfsImportError([new GtfsFileError("feed", null, "Not a valid zip archive")]);
+  }
+
+  const errors: GtfsFileError[] = [];
+  const files: Record<string, CsvRow[]> = {};
+  for (const file of [...REQUIRED_FILES, ...OPTIONAL_FILES]) {
+    const rows = readRows(zip, file, errors);
+    if (rows === null && (REQUIRED_FILES as readonly string[]).includes(file)) {
+      errors.push(new GtfsFileError(file, null, "File is missing from the archive"));
+    }
+    files[file] = rows ?? [];
+  }
+  if (errors.length > 0) throw new GtfsImportError(errors);
+
+  // stops.txt: only boarding locations, stations and entrances aren't stops a bus serves
+  const stopReader = new RowReader("stops.txt", errors);
+  const stops: GtfsStop[] = [];
+  const stopIds = new Set<string>();
+  // Stop codes are unique in the database too, so a repeat would fail the import halfway
+  const stopCodeLines = new Map<string, number>();
+  for (const row of files["stops.txt"]) {
+    const locationType = stopReader.optional(row, "location_type");
+    if (locationType !== undefined && locationType !== "0") continue;
+
+    const id = stopReader.required(row, "stop_id");
+    const name = stopReader.required(row, "stop_name");
+    const latitude = stopReader.number(row, "stop_lat", -90, 90);
+    const longitude = stopReader.number(row, "stop_lon", -180, 180);
+    if (id === undefined || name === undefined || latitude === undefined || longitude === undefined) continue;
+    if (stopIds.has(id)) {
+      stopReader.duplicate(row, "stop_id", id);
+      continue;
+    }
+    const code = stopReader.optional(row, "stop_code");
+    if (code !== undefined) {
+      const firstLine = stopCodeLines.get(code);
+      if (firstLine !== undefined) {
+        stopReader.duplicate(row, "stop_code", code, firstLine);
+        continue;
+      }
+      stopCodeLines.set(code, row.line);
+    }
+    stopIds.add(id);
+    stops.push({ id, line: row.line, code, name, latitude, longitude });
+  }
+
+  const routeReader = new RowReader("routes.txt", errors);
+  const routes: GtfsRoute[] = [];
+  const routeIds = new Set<string>();
+  // Route names are unique in the database, like stop codes
+  const routeNameLines = new Map<string, number>();
+  for (const row of files["routes.txt"]) {
+    const id = routeReader.required(row, "route_id");
+    const shortName = routeReader.optional(row, "route_short_name");
+    const longName = routeReader.optional(row, "route_long_name");
+    if (id === undefined) continue;
+    if (!shortName && !longName) {
+      routeReader.error(row, "Missing route_short_name or route_long_name");
+      continue;
+    }
+    if (routeIds.has(id)) {
+      routeReader.duplicate(row, "route_id", id);
+      continue;
+    }
+    const color = routeReader.optional(row, "route_color");
+    if (color !== undefined && !/^[0-9a-f]{6}$/i.test(color)) {
+      routeReader.error(row, `route_color must be a six digit hex colour, got "${color}"`);
+      continue;
+    }
+    const name = shortName || longName!;
+    const firstLine = routeNameLines.get(name);
+    if (firstLine !== undefined) {
+      routeReader.duplicate(row, shortName ? "route_short_name" : "route_long_name", name, firstLine);
+      continue;
+    }
+    routeNameLines.set(name, row.line);
+    routeIds.add(id);
+    routes.push({
+      id,
+      line: row.line,
+      shortName: name,
+      longName: longName ?? "",
+      color: color ? `#${color.toLowerCase()}` : undefined,
+      // GTFS has no notion of EV service; the Peoples Bus feed names those lines EV-1, EV-2, ...
+      isEv: /^EV\b/i.test(shortName ?? ""),
+    });
+  }
+
+  const shapeReader = new RowReader("shapes.txt", errors);
+  const shapePoints = new Map<string, { sequence: number; latitude: number; longitude: number }[]>();
+  for (const row of files["shapes.txt"]) {
+    const id = shapeReader.required(row, "shape_id");
+    const latitude = shapeReader.number(row, "shape_pt_lat", -90, 90);
+    const longitude = shapeReader.number(row, "shape_pt_lon", -180, 180);
+    const sequence = shapeReader.number(row, "shape_pt_sequence", 0, Number.MAX_SAFE_INTEGER);
+    if (id === undefined || latitude === undefined || longitude === undefined || sequence === undefined) continue;
+    const points = shapePoints.get(id) ?? [];
+    points.push({ sequence, latitude, longitude });
+    shapePoints.set(id, points);
+  }
+  const shapes = new Map(
+    [...shapePoints].map(([id, points]) => [
+      id,
+      points
+        .sort((a, b) => a.sequence - b.sequence)
+        .map(({ latitude, longitude }) => ({ latitude, longitude })),
+    ])
+  );
+
+  const tripReader = new RowReader("trips.txt", errors);
+  const trips = new Map<string, GtfsTrip>();
+  for (const row of files["trips.txt"]) {
+    const id = tripReader.required(row, "trip_id");
+    const routeId = tripReader.reference(row, "route_id", routeIds, "routes.txt");
+    const serviceId = tripReader.required(row, "service_id");
+    const direction = tripReader.optional(row, "direction_id") ?? "0";
+    const shapeId = tripReader.optional(row, "shape_id");
+    if (id === undefined || routeId === undefined || serviceId === undefined) continue;
+    if (direction !== "0" && direction !== "1") {
+      tripReader.error(row, `direction_id must be 0 or 1, got "${direction}"`);
+      continue;
+    }
+    if (shapeId !== undefined && files["shapes.txt"].length > 0 && !shapes.has(shapeId)) {
+      tripReader.reference(row, "shape_id", new Set(shapes.keys()), "shapes.txt");
+      continue;
+    }
+    if (trips.has(id)) {
+      tripReader.duplicate(row, "trip_id", id);
+      continue;
+    }
+    trips.set(id, {
+      id,
+      routeId,
+      serviceId,
+      headsign: tripReader.optional(row, "trip_headsign"),
+      direction: direction === "1" ? 1 : 0,
+      shapeId,
+      stopTimes: [],
+    });
+  }
+
+  const stopTimeReader = new RowReader("stop_times.txt", errors);
+  const tripIds = new Set(trips.keys());
+  for (const row of files["stop_times.txt"]) {
+    const tripId = stopTimeReader.reference(row, "trip_id", tripIds, "trips.txt");
+    const stopId = stopTimeReader.reference(row, "stop_id", stopIds, "stops.txt");
+    const sequence = stopTimeReader.number(row, "stop_sequence", 0, Number.MAX_SAFE_INTEGER);
+    const arrival = stopTimeReader.time(row, "arrival_time");
+    const departure = stopTimeReader.time(row, "departure_time");
+    if (tripId === undefined || stopId === undefined || sequence === undefined) continue;
+    trips.get(tripId)!.stopTimes.push({ stopId, sequence, arrival, departure });
+  }
+
+  if (errors.length > 0) throw new GtfsImportError(errors);
+
+  for (const trip of trips.values()) {
+    trip.stopTimes.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  return { stops, routes, trips: [...trips.values()], shapes };
+};
@@ -0,0 +1,299 @@
+import { Types } from "mongoose";
+import Route from "../models/Route";
+import ScheduledTrip from "../models/ScheduledTrip";
+import Stop from "../models/Stop";
+import { GtfsFileError } from "./csv";
+import { GtfsFeed, GtfsImportError, GtfsTrip } from "./feed";
+
+export interface CollectionDiff {
+  created: string[];
+  updated: { id: string; fields: string[] }[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  stops: CollectionDiff;
+  routes: CollectionDiff;
+  trips: CollectionDiff;
+}
+
+const emptyDiff = (): CollectionDiff => ({ created: [], updated: [], removed: [], unchanged: 0 });
+
+// Field-by-field comparison on plain values; returns the names that differ
+const changedFields = (current: Record<string, unknown>, next: Record<string, unknown>) =>
+  Object.keys(next).filter((key) => JSON.stringify(current[key] ?? null) !== JSON.stringify(next[key] ?? null));
+
+const recordDiff = (
+  diff: CollectionDiff,
+  id: string,
+  current: Record<string, unknown> | undefined,
+  next: Record<string, unknown>
+) => {
+  if (!current) {
+    diff.created.push(id);
+    return true;
+  }
+  const fields = changedFields(current, next);
+  if (fields.length === 0) {
+    diff.unchanged++;
+    return false;
+  }
+  diff.updated.push({ id, fields });
+  return true;
+};
+
+// The trip whose stop pattern and shape represent the route on the map:
+// the longest direction 0 trip, or the longest trip at all if there is none.
+const representativeTrip = (trips: GtfsTrip[]) => {
+  const candidates = trips.some((trip) => trip.direction === 0)
+    ? trips.filter((trip) => trip.direction === 0)
+    : trips;
+  return candidates.reduce<GtfsTrip | undefined>(
+    (best, trip) => (!best || trip.stopTimes.length > best.stopTimes.length ? trip : best),
+    undefined
+  );
+};
+
+// Stop codes and route names the feed can't take because another record
+// holds them: stops are never adopted, and a hand-made route only when the
+// feed route has no record of its own yet. Checked before anything is
+// written, so a clash can't stop the import halfway.
+const findConflicts = async (feed: GtfsFeed) => {
+  const errors: GtfsFileError[] = [];
+
+  const codes = feed.stops.flatMap((stop) => (stop.code ? [stop.code] : []));
+  const stopsByCode = new Map(
+    (await Stop.find({ code: { $in: codes } }).select("code name gtfsId").lean()).map((stop) => [stop.code!, stop])
+  );
+  for (const stop of feed.stops) {
+    const holder = stop.code ? stopsByCode.get(stop.code) : undefined;
+    if (holder && holder.gtfsId !== stop.id) {
+      errors.push(
+        new GtfsFileError("stops.txt", stop.line, `stop_code "${stop.code}" is already used by stop "${holder.name}"`)
+      );
+    }
+  }
+
+  const existingRoutes = await Route.find({
+    $or: [
+      { gtfsId: { $in: feed.routes.map((route) => route.id) } },
+      { name: { $in: feed.routes.map((route) => route.shortName) } },
+    ],
+  })
+    .select("name gtfsId")
+    .lean();
+  for (const route of feed.routes) {
+    const holder = existingRoutes.find((existing) => existing.name === route.shortName);
+    if (!holder || holder.gtfsId === route.id) continue;
+    const canAdopt = !holder.gtfsId && !existingRoutes.some((existing) => existing.gtfsId === route.id);
+    if (!canAdopt) {
+      errors.push(
+        new GtfsFileError("routes.txt", route.line, `Route name "${route.shortName}" is already used by another route`)
+      );
+    }
+  }
+
+  return errors;
+};
+
+// Brings the database in line with the feed. Records are matched on their
+// GTFS ids so re-running the same feed changes nothing; records that were
+// imported earlier but are gone from the feed are removed. Hand-made routes
+// and stops (without a GTFS id) are left alone, except that a hand-made
+// route with the same name as a feed route is adopted by it.
+export const importGtfsFeed = async (feed: GtfsFeed, { dryRun = false } = {}): Promise<ImportReport> => {
+  const report: ImportReport = { dryRun, stops: emptyDiff(), routes: emptyDiff(), trips: emptyDiff() };
+
+  const conflicts = await findConflicts(feed);
+  if (conflicts.length > 0) throw new GtfsImportError(conflicts);
+
+  // Stops
+  const existingStops = await Stop.find({ gtfsId: { $exists: true } }).lean();
+  const stopsByGtfsId = new Map(existingStops.map((stop) => [stop.gtfsId!, stop]));
+  const gtfsIdByStopId = new Map(existingStops.map((stop) => [String(stop._id), stop.gtfsId!]));
+
+  const stopWrites = [];
+  for (const stop of feed.stops) {
+    const next = { name: stop.name, code: stop.code, latitude: stop.latitude, longitude: stop.longitude };
+    if (recordDiff(report.stops, stop.id, stopsByGtfsId.get(stop.id), next)) {
+      // $set skips undefined fields, so a code dropped from the feed has to be
+      // unset explicitly or the old one stays behind
+      const { code, ...fields } = next;
+      stopWrites.push({
+        updateOne: {
+          filter: { gtfsId: stop.id },
+          update:
+            code === undefined
+              ? { $set: { ...fields, gtfsId: stop.id }, $unset: { code: "" } }
+              : { $set: { ...next, gtfsId: stop.id } },
+          upsert: true,
+        },
+      });
+    }
+  }
+  const feedStopIds = new Set(feed.stops.map((stop) => stop.id));
+  report.stops.removed = existingStops.map((stop) => stop.gtfsId!).filter((id) => !feedStopIds.has(id));
+
+  if (!dryRun) {
+    if (stopWrites.length > 0) await Stop.bulkWrite(stopWrites, { ordered: false });
+    if (report.stops.removed.length > 0) {
+      const removed = await Stop.find({ gtfsId: { $in: report.stops.removed } }).select("_id");
+      const removedIds = removed.map((stop) => stop._id);
+      await Route.updateMany({ stops: { $in: removedIds } }, { $pull: { stops: { $in: removedIds } } });
+      await Stop.deleteMany({ _id: { $in: removedIds } });
+    }
+  }
+
+  // In a dry run new stops have no ObjectId yet, so diffs below are done on GTFS ids
+  const stopObjectIds = dryRun
+    ? new Map<string, Types.ObjectId>()
+    : new Map(
+        (await Stop.find({ gtfsId: { $in: [...feedStopIds] } }).select("_id gtfsId").lean()).map((stop) => [
+          stop.gtfsId!,
+          stop._id,
+        ])
+      );
+  const toGtfsStopIds = (ids: unknown[]) => ids.map((id) => gtfsIdByStopId.get(String(id)) ?? String(id));
+
+  // Routes
+  const tripsByRoute = new Map<string, GtfsTrip[]>();
+  for (const trip of feed.trips) {
+    tripsByRoute.set(trip.routeId, [...(tripsByRoute.get(trip.routeId) ?? []), trip]);
+  }
+
+  const feedRouteNames = feed.routes.map((route) => route.shortName);
+  const existingRoutes = await Route.find({
+    $or: [{ gtfsId: { $exists: true } }, { name: { $in: feedRouteNames } }],
+  }).lean();
+
+  const routeWrites = [];
+  for (const route of feed.routes) {
+    const pattern = representativeTrip(tripsByRoute.get(route.id) ?? []);
+    const stopIds = pattern?.stopTimes.map((stopTime) => stopTime.stopId) ?? [];
+    const next = {
+      name: route.shortName,
+      description: route.longName,
+      mode: route.isEv ? "ev" : "bus",
+      ...(route.color ? { color: route.color } : {}),
+      stops: stopIds,
+      shape: (pattern?.shapeId && feed.shapes.get(pattern.shapeId)) || [],
+      isActive: true,
+    };
+
+    const current =
+      existingRoutes.find((existing) => existing.gtfsId === route.id) ??
+      existingRoutes.find((existing) => !existing.gtfsId && existing.name === route.shortName);
+    const comparable = current && {
+      ...current,
+      stops: toGtfsStopIds(current.stops),
+      shape: current.shape.map(({ latitude, longitude }) => ({ latitude, longitude })),
+    };
+
+    if (recordDiff(report.routes, route.id, comparable, next) || (current && !current.gtfsId)) {
+      routeWrites.push({
+        updateOne: {
+          filter: current ? { _id: current._id } : { gtfsId: route.id },
+          update: {
+            $set: { ...next, gtfsId: route.id, stops: stopIds.map((id) => stopObjectIds.get(id)!) },
+          },
+          upsert: true,
+        },
+      });
+    }
+  }
+  const feedRouteIds = new Set(feed.routes.map((route) => route.id));
+  report.routes.removed = existingRoutes
+    .filter((route) => route.gtfsId && route.isActive && !feedRouteIds.has(route.gtfsId))
+    .map((route) => route.gtfsId!);
+
+  if (!dryRun) {
+    if (routeWrites.length > 0) await Route.bulkWrite(routeWrites, { ordered: false });
+    if (report.routes.removed.length > 0) {
+      // Keep the document so past Trip records still resolve, just stop offering it
+      await Route.updateMany({ gtfsId: { $in: report.routes.removed } }, { isActive: false });
+    }
+  }
+
+  // Scheduled trips
+  const routeObjectIds = new Map(
+    (await Route.find({ gtfsId: { $in: [...feedRouteIds] } }).select("_id gtfsId").lean()).map((route) => [
+      route.gtfsId!,
+      route._id,
+    ])
+  );
+  const existingTrips = await ScheduledTrip.find().lean();
+  const tripsByGtfsId = new Map(existingTrips.map((trip) => [trip.gtfsId, trip]));
+  const gtfsIdByRouteId = new Map([...routeObjectIds].map(([gtfsId, id]) => [String(id), gtfsId]));
+  const stopNames = new Map(feed.stops.map((stop) => [stop.id, stop.name]));
+
+  const tripWrites = [];
+  for (const trip of feed.trips) {
+    const lastStop = trip.stopTimes[trip.stopTimes.length - 1];
+    const next = {
+      route: trip.routeId,
+      serviceId: trip.serviceId,
+      direction: trip.direction,
+      headsign: trip.headsign ?? (lastStop ? stopNames.get(lastStop.stopId) : undefined),
+      shapeId: trip.shapeId,
+      stopTimes: trip.stopTimes.map(({ stopId, sequence, arrival, departure }) => ({
+        stop: stopId,
+        sequence,
+        arrival,
+        departure,
+      })),
+    };
+
+    const current = tripsByGtfsId.get(trip.id);
+    const comparable = current && {
+      ...current,
+      route: gtfsIdByRouteId.get(String(current.route)) ?? String(current.route),
+      stopTimes: current.stopTimes.map(({ stop, sequence, arrival, departure }) => ({
+        stop: gtfsIdByStopId.get(String(stop)) ?? String(stop),
+        sequence,
+        arrival,
+        departure,
+      })),
+    };
+
+    if (recordDiff(report.trips, trip.id, comparable, next)) {
+      tripWrites.push({
+        updateOne: {
+          filter: { gtfsId: trip.id },
+          update: {
+            $set: {
+              ...next,
+              gtfsId: trip.id,
+              route: routeObjectIds.get(trip.routeId)!,
+              stopTimes: next.stopTimes.map((stopTime) => ({
+                ...stopTime,
+                stop: stopObjectIds.get(stopTime.stop)!,
+              })),
+            },
+          },
+          upsert: true,
+        },
+      });
+    }
+  }
+  const feedTripIds = new Set(feed.trips.map((trip) => trip.id));
+  report.trips.removed = existingTrips.map((trip) => trip.gtfsId).filter((id) => !feedTripIds.has(id));
+
+  if (!dryRun) {
+    if (tripWrites.length > 0) await ScheduledTrip.bulkWrite(tripWrites, { ordered: false });
+    if (report.trips.removed.length > 0) {
+      await ScheduledTrip.deleteMany({ gtfsId: { $in: report.trips.removed } });
+    }
+  }
+
+  return report;
+};
+
+export const summarizeReport = (report: ImportReport) =>
+  (["stops", "routes", "trips"] as const)
+    .map((collection) => {
+      const diff = report[collection];
+      return `${collection}: ${diff.created.length} created, ${diff.updated.length} updated, ${diff.removed.length} removed, ${diff.unchanged} unchanged`;
+    })
+    .join("\n");
@@ -0,0 +1,90 @@
+import { transit_realtime } from "gtfs-realtime-bindings";
+import Route from "../models/Route";
+import Stop from "../models/Stop";
+import { getDrivers } from "../services/fleet";
+import { getLatestEta } from "../services/eta";
+
+const { FeedMessage, FeedHeader, TripDescriptor } = transit_realtime;
+
+// Consumers match route_id/stop_id against the static feed, so use the GTFS
+// ids where the record was imported and fall back to our own ids otherwise.
+const loadGtfsIds = async (routeIds: string[], stopIds: string[]) => {
+  const [routes, stops] = await Promise.all([
+    Route.find({ _id: { $in: routeIds }, gtfsId: { $exists: true } }).select("gtfsId").lean(),
+    Stop.find({ _id: { $in: stopIds }, gtfsId: { $exists: true } }).select("gtfsId").lean(),
+  ]);
+  const ids = new Map<string, string>();
+  for (const record of [...routes, ...stops]) ids.set(String(record._id), record.gtfsId!);
+  return (id: string) => ids.get(id) ?? id;
+};
+
+const feedHeader = () => ({
+  gtfsRealtimeVersion: "2.0",
+  incrementality: FeedHeader.Incrementality.FULL_DATASET,
+  timestamp: Math.floor(Date.now() / 1000),
+});
+
+// Driver-run trips aren't tied to a timetabled trip, hence UNSCHEDULED
+const tripDescriptor = (trip: { id: string; routeId: string; direction: number }, gtfsId: (id: string) => string) => ({
+  tripId: trip.id,
+  routeId: gtfsId(trip.routeId),
+  directionId: trip.direction,
+  scheduleRelationship: TripDescriptor.ScheduleRelationship.UNSCHEDULED,
+});
+
+export const buildVehiclePositions = async () => {
+  const live = Object.values(await getDrivers());
+  const gtfsId = await loadGtfsIds(live.map(({ trip }) => trip.routeId), []);
+
+  return FeedMessage.create({
+    header: feedHeader(),
+    entity: live.map(({ position, trip }) => ({
+      id: `vehicle-${trip.vehicleId}`,
+      vehicle: {
+        trip: tripDescriptor(trip, gtfsId),
+        vehicle: { id: trip.vehicleId, label: trip.vehicleLabel },
+        position: {
+          latitude: position.latitude,
+          longitude: position.longitude,
+          bearing: position.heading ?? undefined,
+          speed: position.speed ?? undefined,
+        },
+        timestamp: Math.floor(position.timestamp / 1000),
+      },
+    })),
+  });
+};
+
+export const buildTripUpdates = async () => {
+  const drivers = Object.entries(await getDrivers());
+  const updates = (
+    await Promise.all(drivers.map(async ([driverId, live]) => ({ live, eta: await getLatestEta(driverId) })))
+  ).filter((item) => item.eta && item.eta.etas.length > 0);
+
+  const gtfsId = await loadGtfsIds(
+    updates.map(({ live }) => live.trip.routeId),
+    updates.flatMap(({ eta }) => eta!.etas.map((stop) => stop.stopId))
+  );
+
+  return FeedMessage.create({
+    header: feedHeader(),
+    entity: updates.map(({ live, eta }) => ({
+      id: `trip-${live.trip.id}`,
+      tripUpdate: {
+        trip: tripDescriptor(live.trip, gtfsId),
+        vehicle: { id: live.trip.vehicleId, label: live.trip.vehicleLabel },
+        stopTimeUpdate: eta!.etas.map((stop) => ({
+          stopId: gtfsId(stop.stopId),
+          arrival: { time: Math.floor(Date.parse(stop.arrivalAt) / 1000) },
+        })),
+        timestamp: Math.floor(Date.parse(eta!.updatedAt) / 1000),
+      },
+    })),
+  });
+};
+
+export const encodeFeed = (message: transit_realtime.FeedMessage) =>
+  Buffer.from(FeedMessage.encode(message).finish());
+
+export const feedToJson = (message: transit_realtime.FeedMessage) =>
+  FeedMessage.toObject(message, { longs: Number, enums: String, defaults: false });
@@ -0,0 +1,46 @@
+import mongoose from "mongoose";
+
+const PushKeysSchema = new mongoose.Schema(
+  {
+    p256dh: { type: String, required: true },
+    auth: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+// The browser's Web Push subscription; the endpoint also identifies the
+// passenger, since alerts can be armed without an account
+const PushSubscriptionSchema = new mongoose.Schema(
+  {
+    endpoint: { type: String, required: true, index: true },
+    keys: { type: PushKeysSchema, required: true },
+  },
+  { _id: false }
+);
+
+// "Tell me when the next bus is close to my stop". Fires when a bus is
+// within `minutes` or `meters` of the stop, at most once per trip. One-off
+// alerts switch themselves off after firing.
+const ArrivalAlertSchema = new mongoose.Schema(
+  {
+    subscription: { type: PushSubscriptionSchema, required: true },
+    // Set when armed while signed in, so the alert shows up on every device
+    passenger: { type: mongoose.Schema.Types.ObjectId, ref: "PassengerAccount", index: true },
+    stop: { type: mongoose.Schema.Types.ObjectId, ref: "Stop", required: true, index: true },
+    stopName: String,
+    // Any route serving the stop when unset
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route" },
+    routeName: String,
+    minutes: { type: Number, min: 1 },
+    meters: { type: Number, min: 50 },
+    repeat: { type: Boolean, default: false },
+    isActive: { type: Boolean, default: true, index: true },
+    lastNotifiedTrip: { type: mongoose.Schema.Types.ObjectId, ref: "Trip" },
+    lastNotifiedAt: Date,
+  },
+  { timestamps: true }
+);
+
+const ArrivalAlert = mongoose.model("ArrivalAlert", ArrivalAlertSchema);
+
+export default ArrivalAlert;
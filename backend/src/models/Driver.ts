@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+
+// Driver model: presence of one driver account, however many sockets it has open.
+// Kept through short disconnects until the grace period runs out. `trip` and
+// `position` are a periodic snapshot of the live bus so a restart can put it
+// back on the map.
+const DriverSchema = new mongoose.Schema({
+  socketId: String,
+  account: { type: mongoose.Schema.Types.ObjectId, ref: "DriverAccount", index: true },
+  isActive: Boolean,
+  lastSeenAt: Date,
+  trip: { type: mongoose.Schema.Types.ObjectId, ref: "Trip" },
+  position: {
+    type: {
+      latitude: { type: Number, required: true },
+      longitude: { type: Number, required: true },
+      timestamp: { type: Number, required: true },
+      accuracy: Number,
+      speed: Number,
+      heading: Number,
+    },
+    required: false,
+  },
+});
+
+const Driver = mongoose.model("Driver", DriverSchema);
+
+export default Driver;
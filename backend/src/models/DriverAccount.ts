@@ -0,0 +1,22 @@
+import mongoose from "mongoose";
+
+export const ACCOUNT_ROLES = ["driver", "dispatcher"] as const;
+
+// A driver's login, or a dispatcher's: same credentials and sessions, the
+// role decides which app the account can use. Passwords are only ever stored as bcrypt hashes.
+const DriverAccountSchema = new mongoose.Schema(
+  {
+    username: { type: String, required: true, unique: true, trim: true, lowercase: true },
+    name: { type: String, required: true, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    phone: { type: String, trim: true },
+    passwordHash: { type: String, required: true, select: false },
+    role: { type: String, enum: ACCOUNT_ROLES, default: "driver" },
+    isDisabled: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+const DriverAccount = mongoose.model("DriverAccount", DriverAccountSchema);
+
+export default DriverAccount;
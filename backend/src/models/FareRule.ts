@@ -0,0 +1,19 @@
+import mongoose from "mongoose";
+
+// What a ticket costs and how long it lasts. A rule without a route is the
+// network-wide default, used for routes that have no rule of their own.
+// Amounts are whole rupees.
+const FareRuleSchema = new mongoose.Schema(
+  {
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", unique: true, sparse: true },
+    name: { type: String, required: true, trim: true },
+    amount: { type: Number, required: true, min: 1 },
+    validityMinutes: { type: Number, required: true, min: 1 },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+const FareRule = mongoose.model("FareRule", FareRuleSchema);
+
+export default FareRule;
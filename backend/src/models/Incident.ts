@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+
+export const INCIDENT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+
+// An SOS raised by a driver. Route and vehicle names are copied in so the
+// record still reads correctly after the fleet or timetable changes.
+const IncidentSchema = new mongoose.Schema(
+  {
+    driver: { type: mongoose.Schema.Types.ObjectId, ref: "DriverAccount", required: true, index: true },
+    driverName: String,
+    trip: { type: mongoose.Schema.Types.ObjectId, ref: "Trip" },
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route" },
+    routeName: String,
+    vehicle: { type: mongoose.Schema.Types.ObjectId, ref: "Vehicle" },
+    vehicleLabel: String,
+    latitude: Number,
+    longitude: Number,
+    accuracy: Number,
+    message: { type: String, trim: true },
+    status: { type: String, enum: INCIDENT_STATUSES, default: "open", index: true },
+    acknowledgedAt: Date,
+    acknowledgedBy: String,
+    resolvedAt: Date,
+    resolvedBy: String,
+  },
+  { timestamps: true }
+);
+
+const Incident = mongoose.model("Incident", IncidentSchema);
+
+export default Incident;
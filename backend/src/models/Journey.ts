@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+
+export const JOURNEY_METHODS = ["manual", "auto"] as const;
+// How a journey was closed; "tripEnded" when the bus finished its run first
+export const JOURNEY_END_METHODS = [...JOURNEY_METHODS, "tripEnded"] as const;
+
+const JourneyPointSchema = new mongoose.Schema(
+  {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    recordedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+// One passenger riding one trip, from check-in to check-out. Route and bus
+// details are copied in so history still reads correctly after the route
+// or vehicle changes. The path is the bus's recorded track over the ride,
+// thinned out, filled in at check-out.
+const JourneySchema = new mongoose.Schema(
+  {
+    passenger: { type: mongoose.Schema.Types.ObjectId, ref: "PassengerAccount", required: true },
+    trip: { type: mongoose.Schema.Types.ObjectId, ref: "Trip", required: true, index: true },
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", required: true },
+    routeName: { type: String, required: true },
+    routeColor: String,
+    headsign: String,
+    vehicleLabel: String,
+    status: { type: String, enum: ["active", "completed"], default: "active" },
+    boardedAt: { type: Date, required: true },
+    alightedAt: Date,
+    // Nearest stops to where the bus was at check-in and check-out
+    fromStopName: String,
+    toStopName: String,
+    distanceMeters: Number,
+    path: { type: [JourneyPointSchema], default: [] },
+    checkInMethod: { type: String, enum: JOURNEY_METHODS, required: true },
+    checkOutMethod: { type: String, enum: JOURNEY_END_METHODS },
+  },
+  { timestamps: true }
+);
+
+JourneySchema.index({ passenger: 1, boardedAt: -1 });
+// A passenger is on at most one bus at a time
+JourneySchema.index({ passenger: 1 }, { unique: true, partialFilterExpression: { status: "active" } });
+
+const Journey = mongoose.model("Journey", JourneySchema);
+
+export default Journey;
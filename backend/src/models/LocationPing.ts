@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+const RETENTION_DAYS = Number(process.env.LOCATION_HISTORY_RETENTION_DAYS) || 180;
+
+// Every accepted location ping, stored in a MongoDB time-series collection
+// bucketed by trip/vehicle/driver so a whole trip's track reads back cheaply.
+const LocationPingSchema = new mongoose.Schema(
+  {
+    recordedAt: { type: Date, required: true },
+    meta: {
+      trip: { type: mongoose.Schema.Types.ObjectId, ref: "Trip", required: true },
+      vehicle: { type: mongoose.Schema.Types.ObjectId, ref: "Vehicle", required: true },
+      driver: { type: mongoose.Schema.Types.ObjectId, ref: "DriverAccount", required: true },
+    },
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    accuracy: Number,
+    speed: Number,
+    heading: Number,
+  },
+  {
+    timeseries: { timeField: "recordedAt", metaField: "meta", granularity: "seconds" },
+    expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60,
+    versionKey: false,
+  }
+);
+
+LocationPingSchema.index({ "meta.trip": 1, recordedAt: 1 });
+LocationPingSchema.index({ "meta.vehicle": 1, recordedAt: 1 });
+
+const LocationPing = mongoose.model("LocationPing", LocationPingSchema);
+
+export default LocationPing;
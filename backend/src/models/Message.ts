@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+export const MESSAGE_SENDERS = ["driver", "dispatch"] as const;
+
+// One message in the conversation between a driver and dispatch. Each driver
+// has a single thread, keyed by their account.
+const MessageSchema = new mongoose.Schema(
+  {
+    driver: { type: mongoose.Schema.Types.ObjectId, ref: "DriverAccount", required: true },
+    from: { type: String, enum: MESSAGE_SENDERS, required: true },
+    senderName: { type: String, trim: true },
+    body: { type: String, required: true, trim: true },
+    // Set by the driver app so a message queued offline isn't stored twice when retried
+    clientId: String,
+    deliveredAt: Date,
+    readAt: Date,
+  },
+  { timestamps: true }
+);
+
+MessageSchema.index({ driver: 1, createdAt: -1 });
+MessageSchema.index({ driver: 1, clientId: 1 }, { unique: true, partialFilterExpression: { clientId: { $type: "string" } } });
+
+const Message = mongoose.model("Message", MessageSchema);
+
+export default Message;
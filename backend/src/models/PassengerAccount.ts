@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+export const FAVORITE_TYPES = ["stop", "route"] as const;
+
+// A saved stop or route. The name is copied in so the list reads correctly
+// before routes have loaded.
+const FavoriteSchema = new mongoose.Schema(
+  {
+    type: { type: String, enum: FAVORITE_TYPES, required: true },
+    id: { type: mongoose.Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    color: String,
+    savedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+// Optional passenger login, so favourites, alerts and history follow the
+// passenger between devices. The map works without one.
+const PassengerAccountSchema = new mongoose.Schema(
+  {
+    email: { type: String, required: true, unique: true, trim: true, lowercase: true },
+    name: { type: String, required: true, trim: true },
+    passwordHash: { type: String, required: true, select: false },
+    favorites: { type: [FavoriteSchema], default: [] },
+    // SHA-256 of the emailed reset token, cleared once used
+    passwordResetHash: { type: String, select: false, index: { sparse: true } },
+    passwordResetExpiresAt: { type: Date, select: false },
+    // Fare wallet balance in whole rupees; every change is in WalletEntry
+    walletBalance: { type: Number, default: 0, min: 0 },
+    // Pending top-ups (WalletEntry ids) whose charge may have gone through
+    // but which haven't been credited yet. The credit removes the id in the
+    // same update, so an entry still pending but missing here was credited.
+    pendingTopUps: { type: [mongoose.Schema.Types.ObjectId], default: [], select: false },
+    isDisabled: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+const PassengerAccount = mongoose.model("PassengerAccount", PassengerAccountSchema);
+
+export default PassengerAccount;
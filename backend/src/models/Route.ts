@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+export const ROUTE_MODES = ["bus", "ev"] as const;
+
+const ShapePointSchema = new mongoose.Schema(
+  {
+    latitude: { type: Number, required: true, min: -90, max: 90 },
+    longitude: { type: Number, required: true, min: -180, max: 180 },
+  },
+  { _id: false }
+);
+
+// A bus line, e.g. "Route 4" (Power House to Keamari) or "EV-1".
+// `stops` is the ordered stop sequence in the outbound direction and
+// `shape` is the polyline the bus actually drives along.
+const RouteSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    description: { type: String, trim: true, default: "" },
+    mode: { type: String, enum: ROUTE_MODES, default: "bus" },
+    color: { type: String, default: "#dc2626" },
+    stops: [{ type: mongoose.Schema.Types.ObjectId, ref: "Stop" }],
+    shape: { type: [ShapePointSchema], default: [] },
+    isActive: { type: Boolean, default: true },
+    // route_id from the GTFS feed this route was imported from
+    gtfsId: { type: String, unique: true, sparse: true },
+  },
+  { timestamps: true }
+);
+
+const Route = mongoose.model("Route", RouteSchema);
+
+export default Route;
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+
+const StopTimeSchema = new mongoose.Schema(
+  {
+    stop: { type: mongoose.Schema.Types.ObjectId, ref: "Stop", required: true },
+    sequence: { type: Number, required: true },
+    // Seconds after midnight of the service day, can exceed 24h past midnight
+    arrival: Number,
+    departure: Number,
+  },
+  { _id: false }
+);
+
+// A timetabled run of a route, imported from GTFS trips.txt + stop_times.txt.
+// Not to be confused with Trip, which is a run a driver is actually doing.
+const ScheduledTripSchema = new mongoose.Schema(
+  {
+    gtfsId: { type: String, required: true, unique: true },
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", required: true, index: true },
+    serviceId: { type: String, required: true },
+    direction: { type: Number, enum: [0, 1], required: true },
+    headsign: String,
+    shapeId: String,
+    stopTimes: { type: [StopTimeSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+const ScheduledTrip = mongoose.model("ScheduledTrip", ScheduledTripSchema);
+
+export default ScheduledTrip;
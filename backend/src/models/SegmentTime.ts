@@ -0,0 +1,21 @@
+import mongoose from "mongoose";
+
+// Learned travel time between two consecutive stops of a route, kept as an
+// exponential moving average so it follows changing traffic patterns.
+const SegmentTimeSchema = new mongoose.Schema(
+  {
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", required: true },
+    direction: { type: Number, enum: [0, 1], required: true },
+    fromStop: { type: mongoose.Schema.Types.ObjectId, ref: "Stop", required: true },
+    toStop: { type: mongoose.Schema.Types.ObjectId, ref: "Stop", required: true },
+    averageSeconds: { type: Number, required: true },
+    samples: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+SegmentTimeSchema.index({ route: 1, direction: 1, fromStop: 1, toStop: 1 }, { unique: true });
+
+const SegmentTime = mongoose.model("SegmentTime", SegmentTimeSchema);
+
+export default SegmentTime;
@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+export const SERVICE_ALERT_SCOPES = ["agency", "route", "stop"] as const;
+export const SERVICE_ALERT_SEVERITIES = ["info", "warning", "severe"] as const;
+
+// A disruption or announcement for passengers, e.g. a road closure on one
+// route or a strike day across the whole network. Shown from `startsAt`
+// until `endsAt`, or until it is deleted when no end is known.
+const ServiceAlertSchema = new mongoose.Schema(
+  {
+    scope: { type: String, enum: SERVICE_ALERT_SCOPES, required: true },
+    // Affected routes (scope "route") or stops (scope "stop")
+    routes: [{ type: mongoose.Schema.Types.ObjectId, ref: "Route" }],
+    stops: [{ type: mongoose.Schema.Types.ObjectId, ref: "Stop" }],
+    severity: { type: String, enum: SERVICE_ALERT_SEVERITIES, default: "info" },
+    title: { type: String, required: true, trim: true },
+    message: { type: String, trim: true },
+    startsAt: { type: Date, default: Date.now },
+    endsAt: { type: Date, index: true },
+  },
+  { timestamps: true }
+);
+
+const ServiceAlert = mongoose.model("ServiceAlert", ServiceAlertSchema);
+
+export default ServiceAlert;
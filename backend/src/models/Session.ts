@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+// Staff (drivers and dispatchers) and passengers share the collection
+export const SESSION_ACCOUNT_MODELS = ["DriverAccount", "PassengerAccount"] as const;
+
+// One login on one device. The refresh token is stored as a SHA-256 hash and
+// rotated on every refresh; setting `revokedAt` ends the session.
+const SessionSchema = new mongoose.Schema(
+  {
+    account: { type: mongoose.Schema.Types.ObjectId, refPath: "accountModel", required: true, index: true },
+    accountModel: { type: String, enum: SESSION_ACCOUNT_MODELS, default: "DriverAccount" },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    userAgent: String,
+    expiresAt: { type: Date, required: true },
+    revokedAt: Date,
+  },
+  { timestamps: true }
+);
+
+// Let Mongo clean up sessions once they can no longer be refreshed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model("Session", SessionSchema);
+
+export default Session;
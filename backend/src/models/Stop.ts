@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+
+// A physical stop that one or more routes serve
+const StopSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    code: { type: String, trim: true, unique: true, sparse: true },
+    // stop_id from the GTFS feed this stop was imported from
+    gtfsId: { type: String, unique: true, sparse: true },
+    latitude: { type: Number, required: true, min: -90, max: 90 },
+    longitude: { type: Number, required: true, min: -180, max: 180 },
+  },
+  { timestamps: true }
+);
+
+const Stop = mongoose.model("Stop", StopSchema);
+
+export default Stop;
@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+// A fare bought from the wallet, valid on one route until it expires.
+// `code` is the signed payload shown as a QR code, which inspectors verify
+// offline against the published public key.
+const TicketSchema = new mongoose.Schema(
+  {
+    passenger: { type: mongoose.Schema.Types.ObjectId, ref: "PassengerAccount", required: true },
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", required: true },
+    routeName: { type: String, required: true },
+    fareRule: { type: mongoose.Schema.Types.ObjectId, ref: "FareRule" },
+    fareName: String,
+    amount: { type: Number, required: true },
+    currency: { type: String, required: true },
+    validFrom: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    code: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+TicketSchema.index({ passenger: 1, validFrom: -1 });
+
+const Ticket = mongoose.model("Ticket", TicketSchema);
+
+export default Ticket;
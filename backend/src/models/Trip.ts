@@ -0,0 +1,52 @@
+import mongoose from "mongoose";
+
+export const TRIP_DIRECTIONS = [0, 1] as const;
+export const TRIP_ALERT_TYPES = ["offRoute", "longIdle"] as const;
+
+// When the bus entered and left a stop's geofence
+const StopEventSchema = new mongoose.Schema(
+  {
+    stop: { type: mongoose.Schema.Types.ObjectId, ref: "Stop", required: true },
+    arrivedAt: { type: Date, required: true },
+    departedAt: Date,
+    dwellSeconds: Number,
+  },
+  { _id: false }
+);
+
+// Something about the trip that needs a dispatcher's attention. Open until
+// the condition clears (resolvedAt).
+const TripAlertSchema = new mongoose.Schema({
+  type: { type: String, enum: TRIP_ALERT_TYPES, required: true },
+  raisedAt: { type: Date, required: true },
+  resolvedAt: Date,
+  latitude: { type: Number, required: true },
+  longitude: { type: Number, required: true },
+  // offRoute: how far from the route shape; longIdle: how long stationary
+  distanceMeters: Number,
+  idleSeconds: Number,
+});
+
+// One driver running one vehicle along one route in one direction.
+// Direction 0 follows the route's stop sequence, 1 runs it in reverse.
+const TripSchema = new mongoose.Schema(
+  {
+    driver: { type: mongoose.Schema.Types.ObjectId, ref: "DriverAccount", required: true, index: true },
+    vehicle: { type: mongoose.Schema.Types.ObjectId, ref: "Vehicle", required: true },
+    route: { type: mongoose.Schema.Types.ObjectId, ref: "Route", required: true, index: true },
+    direction: { type: Number, enum: TRIP_DIRECTIONS, required: true },
+    headsign: { type: String, required: true },
+    status: { type: String, enum: ["active", "completed"], default: "active", index: true },
+    startedAt: { type: Date, default: Date.now },
+    endedAt: Date,
+    // Set when dispatch ended the trip on the driver's behalf
+    endedBy: String,
+    stopEvents: { type: [StopEventSchema], default: [] },
+    alerts: { type: [TripAlertSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+const Trip = mongoose.model("Trip", TripSchema);
+
+export default Trip;
@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+import { ROUTE_MODES } from "./Route";
+
+// A bus in the fleet. `fleetNumber` is what's painted on the side.
+const VehicleSchema = new mongoose.Schema(
+  {
+    fleetNumber: { type: String, required: true, unique: true, trim: true },
+    registration: { type: String, trim: true, uppercase: true },
+    mode: { type: String, enum: ROUTE_MODES, default: "bus" },
+    capacity: Number,
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+const Vehicle = mongoose.model("Vehicle", VehicleSchema);
+
+export default Vehicle;
@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+
+export const WALLET_ENTRY_TYPES = ["topUp", "ticket"] as const;
+// Top-ups are recorded as pending before the card is charged and completed
+// once the wallet is credited; failed ones were declined. Tickets are
+// always completed.
+export const WALLET_ENTRY_STATUSES = ["pending", "completed", "failed"] as const;
+
+// One movement on a passenger's wallet, in whole rupees: positive for
+// top-ups, negative for tickets. The running balance lives on
+// the account; `balanceAfter` records it as of this entry (set once completed).
+const WalletEntrySchema = new mongoose.Schema(
+  {
+    passenger: { type: mongoose.Schema.Types.ObjectId, ref: "PassengerAccount", required: true },
+    type: { type: String, enum: WALLET_ENTRY_TYPES, required: true },
+    status: { type: String, enum: WALLET_ENTRY_STATUSES, default: "completed" },
+    amount: { type: Number, required: true },
+    balanceAfter: Number,
+    currency: { type: String, required: true },
+    description: String,
+    // Top-ups: which payment provider took the money, and its charge id
+    provider: String,
+    reference: { type: String, unique: true, sparse: true },
+    // Top-ups: set by the app so a retried request can't charge twice
+    idempotencyKey: String,
+    ticket: { type: mongoose.Schema.Types.ObjectId, ref: "Ticket" },
+  },
+  { timestamps: true }
+);
+
+WalletEntrySchema.index({ passenger: 1, createdAt: -1 });
+WalletEntrySchema.index(
+  { passenger: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: "string" } } }
+);
+
+const WalletEntry = mongoose.model("WalletEntry", WalletEntrySchema);
+
+export default WalletEntry;
@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { identifyPassenger, PassengerRequest } from "../auth/middleware";
+import {
+  createArrivalAlert,
+  deleteArrivalAlert,
+  getArrivalAlerts,
+  updateArrivalAlert,
+} from "../services/arrivalAlerts";
+import { getVapidPublicKey, isPushConfigured } from "../services/push";
+import { HttpError, sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { ArrivalAlertSchema, UpdateArrivalAlertSchema } from "../validation/schemas";
+
+// Passengers don't need an account to arm alerts; the browser's push
+// endpoint, known only to it and the push service, stands in for one. A
+// signed-in passenger also sees the alerts armed on their other devices.
+const getOwner = (req: PassengerRequest) => ({
+  endpoint: req.header("x-push-endpoint"),
+  passengerId: req.passengerId,
+});
+
+const router = Router();
+
+// Key the browser needs to subscribe to pushes from this server
+router.get("/vapid-public-key", (req, res) => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    res.status(503).json({ success: false, message: "Notifications are not set up on this server" });
+    return;
+  }
+  res.json({ publicKey });
+});
+
+router.get("/", identifyPassenger, async (req: PassengerRequest, res) => {
+  try {
+    res.json({ alerts: await getArrivalAlerts(getOwner(req)) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", identifyPassenger, validateBody(ArrivalAlertSchema), async (req: PassengerRequest, res) => {
+  try {
+    if (!isPushConfigured()) throw new HttpError(503, "Notifications are not set up on this server");
+    res.status(201).json({ alert: await createArrivalAlert(req.body, req.passengerId) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/:id", identifyPassenger, validateBody(UpdateArrivalAlertSchema), async (req: PassengerRequest, res) => {
+  try {
+    res.json({ alert: await updateArrivalAlert(getOwner(req), req.params.id, req.body) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", identifyPassenger, async (req: PassengerRequest, res) => {
+  try {
+    await deleteArrivalAlert(getOwner(req), req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
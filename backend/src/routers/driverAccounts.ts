@@ -0,0 +1,81 @@
+import { Router } from "express";
+import DriverAccount from "../models/DriverAccount";
+import { hashPassword } from "../auth/passwords";
+import { revokeAllSessions } from "../auth/tokens";
+import { requireAdmin } from "../auth/middleware";
+import { toDriverProfile } from "./driverAuth";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { CreateDriverAccountSchema, UpdateDriverAccountSchema } from "../validation/schemas";
+
+const router = Router();
+
+router.use(requireAdmin);
+
+router.get("/", async (req, res) => {
+  try {
+    const accounts = await DriverAccount.find().sort({ name: 1 });
+    res.json({
+      drivers: accounts.map((account) => ({ ...toDriverProfile(account), isDisabled: account.isDisabled })),
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", validateBody(CreateDriverAccountSchema), async (req, res) => {
+  const { username, name, email, phone, password, role } = req.body;
+
+  try {
+    const account = await DriverAccount.create({
+      username,
+      name,
+      email,
+      phone,
+      role,
+      passwordHash: await hashPassword(password),
+    });
+    res.status(201).json({ driver: toDriverProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.patch("/:id", validateBody(UpdateDriverAccountSchema), async (req, res) => {
+  const { name, email, phone, password, role, isDisabled } = req.body;
+
+  try {
+    const update: Record<string, unknown> = { name, email, phone, role, isDisabled };
+    if (password !== undefined) {
+      update.passwordHash = await hashPassword(password);
+    }
+    const account = await DriverAccount.findByIdAndUpdate(req.params.id, update, {
+      new: true,
+      runValidators: true,
+    });
+    if (!account) {
+      res.status(404).json({ success: false, message: "Driver not found" });
+      return;
+    }
+
+    // A new password or a disabled account should log the driver out everywhere,
+    // and a new role only reaches the access token through a fresh login
+    if (password !== undefined || role !== undefined || isDisabled === true) {
+      await revokeAllSessions(account._id.toString());
+    }
+    res.json({ driver: { ...toDriverProfile(account), isDisabled: account.isDisabled } });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/:id/revoke-sessions", async (req, res) => {
+  try {
+    const result = await revokeAllSessions(req.params.id);
+    res.json({ success: true, revoked: result.modifiedCount });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import { Router } from "express";
+import { Types } from "mongoose";
+import DriverAccount from "../models/DriverAccount";
+import { verifyPassword } from "../auth/passwords";
+import { issueTokens, revokeSession, rotateTokens } from "../auth/tokens";
+import { DriverRequest, requireSession } from "../auth/middleware";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { LoginSchema, RefreshSchema } from "../validation/schemas";
+
+const router = Router();
+
+export const toDriverProfile = (account: {
+  _id: Types.ObjectId;
+  username: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  role?: string | null;
+}) => ({
+  id: account._id.toString(),
+  username: account.username,
+  name: account.name,
+  email: account.email ?? undefined,
+  phone: account.phone ?? undefined,
+  role: account.role ?? "driver",
+});
+
+router.post("/login", validateBody(LoginSchema), async (req, res) => {
+  const { username, password } = req.body;
+
+  try {
+    const account = await DriverAccount.findOne({ username: username.toLowerCase() }).select(
+      "+passwordHash"
+    );
+    if (!account || account.isDisabled || !(await verifyPassword(password, account.passwordHash))) {
+      res.status(401).json({ success: false, message: "Invalid username or password" });
+      return;
+    }
+
+    const tokens = await issueTokens(account._id.toString(), account.role, req.headers["user-agent"]);
+    res.json({ success: true, ...tokens, driver: toDriverProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/refresh", validateBody(RefreshSchema), async (req, res) => {
+  const { refreshToken } = req.body;
+
+  try {
+    const rotated = await rotateTokens(refreshToken);
+    if (!rotated || rotated.account.isDisabled) {
+      res.status(401).json({ success: false, message: "Session has ended" });
+      return;
+    }
+
+    const { account, ...tokens } = rotated;
+    res.json({ success: true, ...tokens, driver: toDriverProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/logout", requireSession, async (req: DriverRequest, res) => {
+  try {
+    await revokeSession(req.sessionId!);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/me", requireSession, async (req: DriverRequest, res) => {
+  try {
+    const account = await DriverAccount.findById(req.driverId);
+    if (!account) {
+      res.status(404).json({ success: false, message: "Driver not found" });
+      return;
+    }
+    res.json({ driver: toDriverProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
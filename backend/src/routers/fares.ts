@@ -0,0 +1,59 @@
+import { Router } from "express";
+import FareRule from "../models/FareRule";
+import { requireAdmin } from "../auth/middleware";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { FareRuleSchema } from "../validation/schemas";
+
+// Ticket prices per route: public to read, admin to manage
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const filter = req.query.all === "true" ? {} : { isActive: true };
+    const fares = await FareRule.find(filter).sort({ amount: 1 });
+    res.json({ fares });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", requireAdmin, validateBody(FareRuleSchema), async (req, res) => {
+  try {
+    const fare = await FareRule.create(req.body);
+    res.status(201).json({ fare });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/:id", requireAdmin, validateBody(FareRuleSchema.partial()), async (req, res) => {
+  try {
+    const fare = await FareRule.findByIdAndUpdate(req.params.id, req.body, {
+      new: true,
+      runValidators: true,
+    });
+    if (!fare) {
+      res.status(404).json({ success: false, message: "Fare not found" });
+      return;
+    }
+    res.json({ fare });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    const fare = await FareRule.findByIdAndDelete(req.params.id);
+    if (!fare) {
+      res.status(404).json({ success: false, message: "Fare not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { Server } from "socket.io";
+import { DispatcherRequest, requireDispatcher } from "../auth/middleware";
+import { getActingDispatcherName, getFleet } from "../services/dispatch";
+import { driverRoom } from "../services/rooms";
+import { clearLiveTrip, endTripForDriver } from "../services/trips";
+import { closeTripJourneys } from "../services/journeys";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { DispatchActionSchema } from "../validation/schemas";
+
+// Live fleet overview and actions for the dispatch console
+export const createFleetRouter = (io: Server) => {
+  const router = Router();
+
+  router.use(requireDispatcher);
+
+  router.get("/", async (req, res) => {
+    try {
+      res.json({ buses: await getFleet() });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:driverId/end-trip", validateBody(DispatchActionSchema), async (req: DispatcherRequest, res) => {
+    try {
+      const { driverId } = req.params;
+      const by = await getActingDispatcherName(req.dispatcherId, req.body.by);
+      const trip = await endTripForDriver(driverId, by);
+      await clearLiveTrip(io, driverId, String(trip.route));
+      await closeTripJourneys(String(trip._id), trip.endedAt ?? undefined);
+      // The driver's app stops sharing its location and goes back to trip selection
+      io.to(driverRoom(driverId)).emit("tripEnded", { id: String(trip._id), by: trip.endedBy });
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,40 @@
+import express, { Router } from "express";
+import { requireAdmin } from "../auth/middleware";
+import { GtfsImportError, readGtfsZip } from "../gtfs/feed";
+import { importGtfsFeed } from "../gtfs/import";
+import { sendError } from "../utils/errors";
+
+const router = Router();
+
+// Upload the feed as the raw request body:
+//   curl -X POST -H "x-admin-key: …" -H "Content-Type: application/zip" \
+//     --data-binary @feed.zip "$BACKEND/gtfs/import?dryRun=true"
+router.post(
+  "/import",
+  requireAdmin,
+  express.raw({ type: ["application/zip", "application/octet-stream"], limit: "50mb" }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ success: false, message: "Send the GTFS zip as the request body" });
+      return;
+    }
+
+    try {
+      const feed = readGtfsZip(req.body);
+      const report = await importGtfsFeed(feed, { dryRun: req.query.dryRun === "true" });
+      res.json({ success: true, report });
+    } catch (error) {
+      if (error instanceof GtfsImportError) {
+        res.status(422).json({
+          success: false,
+          message: "The GTFS feed has errors",
+          errors: error.errors.map(({ file, line, message }) => ({ file, line, message })),
+        });
+        return;
+      }
+      sendError(res, error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Request, Response, Router } from "express";
+import { transit_realtime } from "gtfs-realtime-bindings";
+import { buildTripUpdates, buildVehiclePositions, encodeFeed, feedToJson } from "../gtfs/realtime";
+import { sendError } from "../utils/errors";
+
+const router = Router();
+
+// Protobuf by default; `?format=json` returns the same feed readable for debugging
+const serveFeed =
+  (build: () => Promise<transit_realtime.FeedMessage>) => async (req: Request, res: Response) => {
+    try {
+      const feed = await build();
+      if (req.query.format === "json") {
+        res.json(feedToJson(feed));
+        return;
+      }
+      res.type("application/x-protobuf").send(encodeFeed(feed));
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+router.get("/vehicle-positions", serveFeed(buildVehiclePositions));
+router.get("/trip-updates", serveFeed(buildTripUpdates));
+
+export default router;
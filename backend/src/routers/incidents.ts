@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { Server } from "socket.io";
+import { DispatcherRequest, requireDispatcher } from "../auth/middleware";
+import { getActingDispatcherName } from "../services/dispatch";
+import { acknowledgeIncident, getIncidents, resolveIncident } from "../services/incidents";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { DispatchActionSchema } from "../validation/schemas";
+import { INCIDENT_STATUSES } from "../models/Incident";
+
+// SOS incidents raised by drivers, handled by dispatch
+export const createIncidentsRouter = (io: Server) => {
+  const router = Router();
+
+  router.get("/", requireDispatcher, async (req, res) => {
+    try {
+      const status = INCIDENT_STATUSES.find((value) => value === req.query.status);
+      res.json({ incidents: await getIncidents(status) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:id/acknowledge", requireDispatcher, validateBody(DispatchActionSchema), async (req: DispatcherRequest, res) => {
+    try {
+      const by = await getActingDispatcherName(req.dispatcherId, req.body.by);
+      res.json({ incident: await acknowledgeIncident(io, req.params.id, by) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:id/resolve", requireDispatcher, validateBody(DispatchActionSchema), async (req: DispatcherRequest, res) => {
+    try {
+      const by = await getActingDispatcherName(req.dispatcherId, req.body.by);
+      res.json({ incident: await resolveIncident(io, req.params.id, by) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { PassengerRequest, requirePassenger } from "../auth/middleware";
+import {
+  checkIn,
+  checkOut,
+  deleteJourney,
+  exportJourneysCsv,
+  findNearbyBus,
+  getCurrentJourney,
+  getJourneys,
+} from "../services/journeys";
+import { sendError } from "../utils/errors";
+import { validateBody, validateQuery } from "../validation/validate";
+import { CheckInSchema, CheckOutSchema, JourneyMatchSchema, JourneyQuerySchema } from "../validation/schemas";
+
+// A signed-in passenger's rides: checking in and out of buses, and the
+// history that builds up from it
+const router = Router();
+
+router.use(requirePassenger);
+
+router.get("/", validateQuery(JourneyQuerySchema), async (req: PassengerRequest, res) => {
+  try {
+    res.json({ journeys: await getJourneys(req.passengerId!, res.locals.query) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/export", async (req: PassengerRequest, res) => {
+  try {
+    const csv = await exportJourneysCsv(req.passengerId!);
+    res.attachment("laal-bus-journeys.csv").type("text/csv").send(csv);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/current", async (req: PassengerRequest, res) => {
+  try {
+    res.json({ journey: await getCurrentJourney(req.passengerId!) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Which running bus, if any, the phone at this position is riding. Sent in
+// the body so positions stay out of access logs.
+router.post("/match", validateBody(JourneyMatchSchema), async (req, res) => {
+  try {
+    res.json({ match: await findNearbyBus({ ...req.body, accuracy: req.body.accuracy ?? undefined }) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", validateBody(CheckInSchema), async (req: PassengerRequest, res) => {
+  try {
+    const journey = await checkIn(req.passengerId!, req.body.tripId, req.body.method);
+    res.status(201).json({ journey });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/:id/check-out", validateBody(CheckOutSchema), async (req: PassengerRequest, res) => {
+  try {
+    res.json({ journey: await checkOut(req.passengerId!, req.params.id, req.body.method) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", async (req: PassengerRequest, res) => {
+  try {
+    await deleteJourney(req.passengerId!, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
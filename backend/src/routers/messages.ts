@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { Server } from "socket.io";
+import { DispatcherRequest, DriverRequest, requireDispatcher, requireDriver } from "../auth/middleware";
+import { getActingDispatcherName } from "../services/dispatch";
+import { getThread, getThreads, markMessages, sendMessage } from "../services/messages";
+import { sendError } from "../utils/errors";
+import { validateBody, validateQuery } from "../validation/validate";
+import { DispatchMessageSchema, MessageThreadQuerySchema, objectId } from "../validation/schemas";
+
+// Driver <-> dispatch conversations. Drivers read their own thread here and
+// send over the socket; dispatch does everything here.
+export const createMessagesRouter = (io: Server) => {
+  const router = Router();
+
+  router.get("/me", requireDriver, validateQuery(MessageThreadQuerySchema), async (req: DriverRequest, res) => {
+    try {
+      res.json({ messages: await getThread(req.driverId!, res.locals.query) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/", requireDispatcher, async (req, res) => {
+    try {
+      res.json({ threads: await getThreads() });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/:driverId", requireDispatcher, validateQuery(MessageThreadQuerySchema), async (req, res) => {
+    try {
+      if (!objectId.safeParse(req.params.driverId).success) {
+        res.status(400).json({ success: false, message: "Invalid driver id" });
+        return;
+      }
+      res.json({ messages: await getThread(req.params.driverId, res.locals.query) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:driverId", requireDispatcher, validateBody(DispatchMessageSchema), async (req: DispatcherRequest, res) => {
+    try {
+      const message = await sendMessage(io, req.params.driverId, {
+        from: "dispatch",
+        body: req.body.body,
+        senderName: (await getActingDispatcherName(req.dispatcherId, req.body.by)) ?? "Dispatch",
+      });
+      res.status(201).json({ message });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Dispatch opened the thread: everything the driver sent is now read
+  router.post("/:driverId/read", requireDispatcher, async (req, res) => {
+    try {
+      const receipt = await markMessages(io, req.params.driverId, "dispatch", "all", "read");
+      res.json({ receipt });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,130 @@
+import { Router } from "express";
+import { issueTokens, revokeSession, rotatePassengerTokens } from "../auth/tokens";
+import { PassengerRequest, requirePassenger } from "../auth/middleware";
+import {
+  authenticatePassenger,
+  getPassenger,
+  replaceFavorites,
+  requestPasswordReset,
+  resetPassword,
+  signUpPassenger,
+  toFavorites,
+  toPassengerProfile,
+  updatePassengerProfile,
+} from "../services/passengers";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import {
+  FavoritesSchema,
+  PassengerLoginSchema,
+  PassengerSignupSchema,
+  PasswordResetRequestSchema,
+  PasswordResetSchema,
+  RefreshSchema,
+  UpdatePassengerProfileSchema,
+} from "../validation/schemas";
+
+// Optional passenger accounts: sign-up, sessions, profile and saved favourites
+const router = Router();
+
+router.post("/signup", validateBody(PassengerSignupSchema), async (req, res) => {
+  try {
+    const account = await signUpPassenger(req.body);
+    const tokens = await issueTokens(account._id.toString(), "passenger", req.headers["user-agent"]);
+    res.status(201).json({ success: true, ...tokens, passenger: toPassengerProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/login", validateBody(PassengerLoginSchema), async (req, res) => {
+  try {
+    const account = await authenticatePassenger(req.body.email, req.body.password);
+    if (!account) {
+      res.status(401).json({ success: false, message: "Invalid email or password" });
+      return;
+    }
+
+    const tokens = await issueTokens(account._id.toString(), "passenger", req.headers["user-agent"]);
+    res.json({ success: true, ...tokens, passenger: toPassengerProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/refresh", validateBody(RefreshSchema), async (req, res) => {
+  try {
+    const rotated = await rotatePassengerTokens(req.body.refreshToken);
+    if (!rotated || rotated.account.isDisabled) {
+      res.status(401).json({ success: false, message: "Session has ended" });
+      return;
+    }
+
+    const { account, ...tokens } = rotated;
+    res.json({ success: true, ...tokens, passenger: toPassengerProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/logout", requirePassenger, async (req: PassengerRequest, res) => {
+  try {
+    await revokeSession(req.sessionId!);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/password-reset", validateBody(PasswordResetRequestSchema), async (req, res) => {
+  try {
+    await requestPasswordReset(req.body.email);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/password-reset/confirm", validateBody(PasswordResetSchema), async (req, res) => {
+  try {
+    await resetPassword(req.body.token, req.body.password);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/me", requirePassenger, async (req: PassengerRequest, res) => {
+  try {
+    res.json({ passenger: toPassengerProfile(await getPassenger(req.passengerId!)) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/me", requirePassenger, validateBody(UpdatePassengerProfileSchema), async (req: PassengerRequest, res) => {
+  try {
+    const account = await updatePassengerProfile(req.passengerId!, req.sessionId!, req.body);
+    res.json({ passenger: toPassengerProfile(account) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/favorites", requirePassenger, async (req: PassengerRequest, res) => {
+  try {
+    res.json({ favorites: toFavorites(await getPassenger(req.passengerId!)) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/favorites", requirePassenger, validateBody(FavoritesSchema), async (req: PassengerRequest, res) => {
+  try {
+    res.json({ favorites: await replaceFavorites(req.passengerId!, req.body.favorites) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
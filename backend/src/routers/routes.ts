@@ -0,0 +1,103 @@
+import { Router } from "express";
+import Route from "../models/Route";
+import Stop from "../models/Stop";
+import { requireAdmin } from "../auth/middleware";
+import { getRouteArrivals } from "../services/eta";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { RouteSchema } from "../validation/schemas";
+
+const router = Router();
+
+// Every referenced stop has to exist, otherwise the route would silently
+// lose them when populated.
+const findMissingStops = async (stopIds: unknown) => {
+  if (!Array.isArray(stopIds) || stopIds.length === 0) return [];
+  const found = await Stop.find({ _id: { $in: stopIds } }).select("_id");
+  const foundIds = new Set(found.map((stop) => stop._id.toString()));
+  return stopIds.filter((id) => !foundIds.has(String(id)));
+};
+
+router.get("/", async (req, res) => {
+  try {
+    const filter = req.query.all === "true" ? {} : { isActive: true };
+    const routes = await Route.find(filter).sort({ name: 1 }).populate("stops");
+    res.json({ routes });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const route = await Route.findById(req.params.id).populate("stops");
+    if (!route) {
+      res.status(404).json({ success: false, message: "Route not found" });
+      return;
+    }
+    res.json({ route });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Each bus running the route with its next stop and predicted arrival there
+router.get("/:id/arrivals", async (req, res) => {
+  try {
+    res.json({ arrivals: await getRouteArrivals(req.params.id) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", requireAdmin, validateBody(RouteSchema), async (req, res) => {
+  try {
+    const missing = await findMissingStops(req.body.stops);
+    if (missing.length > 0) {
+      res.status(400).json({ success: false, message: `Unknown stops: ${missing.join(", ")}` });
+      return;
+    }
+    const route = await Route.create(req.body);
+    await route.populate("stops");
+    res.status(201).json({ route });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/:id", requireAdmin, validateBody(RouteSchema.partial()), async (req, res) => {
+  try {
+    const missing = await findMissingStops(req.body.stops);
+    if (missing.length > 0) {
+      res.status(400).json({ success: false, message: `Unknown stops: ${missing.join(", ")}` });
+      return;
+    }
+    const route = await Route.findByIdAndUpdate(
+      req.params.id,
+      req.body,
+      { new: true, runValidators: true }
+    ).populate("stops");
+    if (!route) {
+      res.status(404).json({ success: false, message: "Route not found" });
+      return;
+    }
+    res.json({ route });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    const route = await Route.findByIdAndDelete(req.params.id);
+    if (!route) {
+      res.status(404).json({ success: false, message: "Route not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { Server } from "socket.io";
+import { requireAdmin } from "../auth/middleware";
+import {
+  createServiceAlert,
+  deleteServiceAlert,
+  getServiceAlerts,
+  updateServiceAlert,
+} from "../services/serviceAlerts";
+import { sendError } from "../utils/errors";
+import { validateBody, validateQuery } from "../validation/validate";
+import { ServiceAlertQuerySchema, ServiceAlertSchema } from "../validation/schemas";
+
+// Disruptions and announcements: public to read, admin to manage
+export const createServiceAlertsRouter = (io: Server) => {
+  const router = Router();
+
+  router.get("/", validateQuery(ServiceAlertQuerySchema), async (req, res) => {
+    try {
+      const { routes, stops, all } = res.locals.query;
+      res.json({ alerts: await getServiceAlerts({ routes, stops, all: all === "true" }) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/", requireAdmin, validateBody(ServiceAlertSchema), async (req, res) => {
+    try {
+      res.status(201).json({ alert: await createServiceAlert(io, req.body) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.put("/:id", requireAdmin, validateBody(ServiceAlertSchema.partial()), async (req, res) => {
+    try {
+      res.json({ alert: await updateServiceAlert(io, req.params.id, req.body) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.delete("/:id", requireAdmin, async (req, res) => {
+    try {
+      await deleteServiceAlert(io, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+};
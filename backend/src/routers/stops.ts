@@ -0,0 +1,84 @@
+import { Router } from "express";
+import Stop from "../models/Stop";
+import Route from "../models/Route";
+import { requireAdmin } from "../auth/middleware";
+import { getStopArrivals } from "../services/eta";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { StopSchema } from "../validation/schemas";
+
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const stops = await Stop.find().sort({ name: 1 });
+    res.json({ stops });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const stop = await Stop.findById(req.params.id);
+    if (!stop) {
+      res.status(404).json({ success: false, message: "Stop not found" });
+      return;
+    }
+    res.json({ stop });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Live arrival predictions for the stop from every bus currently heading to it
+router.get("/:id/arrivals", async (req, res) => {
+  try {
+    res.json({ arrivals: await getStopArrivals(req.params.id) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", requireAdmin, validateBody(StopSchema), async (req, res) => {
+  try {
+    const stop = await Stop.create(req.body);
+    res.status(201).json({ stop });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/:id", requireAdmin, validateBody(StopSchema.partial()), async (req, res) => {
+  try {
+    const stop = await Stop.findByIdAndUpdate(
+      req.params.id,
+      req.body,
+      { new: true, runValidators: true }
+    );
+    if (!stop) {
+      res.status(404).json({ success: false, message: "Stop not found" });
+      return;
+    }
+    res.json({ stop });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    const stop = await Stop.findByIdAndDelete(req.params.id);
+    if (!stop) {
+      res.status(404).json({ success: false, message: "Stop not found" });
+      return;
+    }
+    // Keep route stop sequences free of dangling references
+    await Route.updateMany({ stops: stop._id }, { $pull: { stops: stop._id } });
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
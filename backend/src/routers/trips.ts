@@ -0,0 +1,77 @@
+import { Router } from "express";
+import { Server } from "socket.io";
+import { DriverRequest, requireDispatcher, requireDriver } from "../auth/middleware";
+import { clearLiveTrip, endTrip, getActiveTrip, getSharedTrip, startTrip } from "../services/trips";
+import { getTrack } from "../services/history";
+import { getOpenAlerts } from "../services/tripAlerts";
+import { closeTripJourneys } from "../services/journeys";
+import { emitToOtherInstances } from "../services/liveStore";
+import { sendError } from "../utils/errors";
+import { validateBody, validateQuery } from "../validation/validate";
+import { StartTripSchema, TrackQuerySchema } from "../validation/schemas";
+
+export const createTripsRouter = (io: Server) => {
+  const router = Router();
+
+  router.get("/current", requireDriver, async (req: DriverRequest, res) => {
+    try {
+      const trip = await getActiveTrip(req.driverId!);
+      res.json({ trip });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/", requireDriver, validateBody(StartTripSchema), async (req: DriverRequest, res) => {
+    try {
+      const trip = await startTrip(req.driverId!, req.body);
+      // Other instances may have cached that this driver has no trip
+      emitToOtherInstances(io, "activeTripChanged", req.driverId!);
+      res.status(201).json({ trip });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:id/end", requireDriver, async (req: DriverRequest, res) => {
+    try {
+      const driverId = req.driverId!;
+      const trip = await endTrip(driverId, req.params.id);
+      await clearLiveTrip(io, driverId, String(trip.route));
+      await closeTripJourneys(String(trip._id), trip.endedAt ?? undefined);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Public, for shared tracking links; answers 410 once the trip has ended
+  router.get("/:id/live", async (req, res) => {
+    try {
+      res.json(await getSharedTrip(req.params.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Unresolved offRoute/longIdle alerts across running trips
+  router.get("/alerts", requireDispatcher, async (req, res) => {
+    try {
+      res.json({ alerts: await getOpenAlerts() });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Recorded path with timestamps, for operations to investigate complaints and late runs
+  router.get("/:id/track", requireDispatcher, validateQuery(TrackQuerySchema), async (req, res) => {
+    try {
+      const track = await getTrack(req.params.id, res.locals.query);
+      res.json(track);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+};
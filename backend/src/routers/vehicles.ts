@@ -0,0 +1,58 @@
+import { Router } from "express";
+import Vehicle from "../models/Vehicle";
+import { requireAdmin } from "../auth/middleware";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { VehicleSchema } from "../validation/schemas";
+
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const filter = req.query.all === "true" ? {} : { isActive: true };
+    const vehicles = await Vehicle.find(filter).sort({ fleetNumber: 1 });
+    res.json({ vehicles });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/", requireAdmin, validateBody(VehicleSchema), async (req, res) => {
+  try {
+    const vehicle = await Vehicle.create(req.body);
+    res.status(201).json({ vehicle });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.put("/:id", requireAdmin, validateBody(VehicleSchema.partial()), async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findByIdAndUpdate(req.params.id, req.body, {
+      new: true,
+      runValidators: true,
+    });
+    if (!vehicle) {
+      res.status(404).json({ success: false, message: "Vehicle not found" });
+      return;
+    }
+    res.json({ vehicle });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findByIdAndDelete(req.params.id);
+    if (!vehicle) {
+      res.status(404).json({ success: false, message: "Vehicle not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
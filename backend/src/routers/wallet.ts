@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { PassengerRequest, requirePassenger } from "../auth/middleware";
+import { getTicketPublicKey } from "../services/ticketSigning";
+import { buyTicket, getPaymentMethods, getTickets, getWallet, topUpWallet } from "../services/wallet";
+import { sendError } from "../utils/errors";
+import { validateBody } from "../validation/validate";
+import { BuyTicketSchema, TopUpSchema } from "../validation/schemas";
+
+// A signed-in passenger's fare wallet: balance, top-ups and tickets
+const router = Router();
+
+// Public: inspectors' devices fetch this once and then check tickets offline
+router.get("/ticket-key", (req, res) => {
+  const key = getTicketPublicKey();
+  if (!key) {
+    res.status(503).json({ success: false, message: "Tickets are not set up on this server" });
+    return;
+  }
+  res.json(key);
+});
+
+router.get("/payment-methods", (req, res) => {
+  res.json({ methods: getPaymentMethods() });
+});
+
+router.use(requirePassenger);
+
+router.get("/", async (req: PassengerRequest, res) => {
+  try {
+    res.json(await getWallet(req.passengerId!));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/top-up", validateBody(TopUpSchema), async (req: PassengerRequest, res) => {
+  try {
+    res.status(201).json(await topUpWallet(req.passengerId!, req.body));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.get("/tickets", async (req: PassengerRequest, res) => {
+  try {
+    res.json({ tickets: await getTickets(req.passengerId!) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post("/tickets", validateBody(BuyTicketSchema), async (req: PassengerRequest, res) => {
+  try {
+    res.status(201).json(await buyTicket(req.passengerId!, req.body.routeId));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import DriverAccount, { ACCOUNT_ROLES } from "../models/DriverAccount";
+import { hashPassword } from "../auth/passwords";
+
+dotenv.config();
+
+// Usage: npm run create-driver -- <username> <password> "<full name>" [driver|dispatcher]
+const createDriver = async () => {
+  const [username, password, name, role = "driver"] = process.argv.slice(2);
+  if (!username || !password || !name || !(ACCOUNT_ROLES as readonly string[]).includes(role)) {
+    throw new Error('Usage: npm run create-driver -- <username> <password> "<full name>" [driver|dispatcher]');
+  }
+
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    throw new Error("MONGODB_URI is not defined in the environment variables");
+  }
+  await mongoose.connect(mongoUri);
+
+  const account = await DriverAccount.create({
+    username,
+    name,
+    role,
+    passwordHash: await hashPassword(password),
+  });
+  console.log(`Created ${account.role} ${account.username} (${account._id})`);
+
+  await mongoose.disconnect();
+};
+
+createDriver().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+import fs from "fs";
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { GtfsImportError, readGtfsZip } from "../gtfs/feed";
+import { importGtfsFeed, summarizeReport } from "../gtfs/import";
+
+dotenv.config();
+
+// Usage: npm run import:gtfs -- <feed.zip> [--dry-run]
+const importGtfs = async () => {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const file = args.find((arg) => !arg.startsWith("--"));
+  if (!file) {
+    throw new Error("Usage: npm run import:gtfs -- <feed.zip> [--dry-run]");
+  }
+
+  const feed = readGtfsZip(fs.readFileSync(file));
+
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    throw new Error("MONGODB_URI is not defined in the environment variables");
+  }
+  await mongoose.connect(mongoUri);
+
+  const report = await importGtfsFeed(feed, { dryRun });
+  console.log(dryRun ? "Dry run, nothing was written.\n" : "");
+  console.log(summarizeReport(report));
+  for (const collection of ["stops", "routes", "trips"] as const) {
+    for (const { id, fields } of report[collection].updated) {
+      console.log(`  ~ ${collection} ${id}: ${fields.join(", ")}`);
+    }
+    for (const id of report[collection].removed) {
+      console.log(`  - ${collection} ${id}`);
+    }
+  }
+
+  await mongoose.disconnect();
+};
+
+importGtfs().catch((error) => {
+  // Feed errors already name the file and line, no stack trace needed
+  console.error(error instanceof GtfsImportError ? error.message : error);
+  process.exit(1);
+});
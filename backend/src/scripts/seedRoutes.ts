@@ -0,0 +1,45 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import Route from "../models/Route";
+
+dotenv.config();
+
+// The routes that used to be hardcoded in the frontend Navbar. Running this
+// again only fills in missing routes, it never overwrites edits.
+const routes = [
+  { name: "Route 1", description: "Model Colony to Dockyard", mode: "bus" },
+  { name: "Route 2", description: "North Karachi to Indus Hospital", mode: "bus" },
+  { name: "Route 3", description: "UP Mor to Nasir Jump", mode: "bus" },
+  { name: "Route 4", description: "Power House to Keamari", mode: "bus" },
+  { name: "Route 9", description: "Gulshan e Hadeed to Tower", mode: "bus" },
+  { name: "Route 10", description: "Numaish to Ibrahim Hyderi", mode: "bus" },
+  { name: "Route 11", description: "Shireen Jinnah Colony to Miran Nakka Lyari", mode: "bus" },
+  { name: "Route 12", description: "Nadi Kinara Khokrapar - Lucky Star Saddar", mode: "bus" },
+  { name: "EV-1", description: "CMH Malir to Abdullah Shah Ghazi Shrine", mode: "ev", color: "#16a34a" },
+  { name: "EV-2", description: "Bahria Town to Malir Halt", mode: "ev", color: "#16a34a" },
+  { name: "EV-3", description: "Malir Cantt Check Post 5 to Numaish", mode: "ev", color: "#16a34a" },
+];
+
+const seed = async () => {
+  const mongoUri = process.env.MONGODB_URI;
+  if (!mongoUri) {
+    throw new Error("MONGODB_URI is not defined in the environment variables");
+  }
+  await mongoose.connect(mongoUri);
+
+  for (const route of routes) {
+    const result = await Route.updateOne(
+      { name: route.name },
+      { $setOnInsert: route },
+      { upsert: true }
+    );
+    console.log(`${route.name}: ${result.upsertedCount ? "created" : "already exists"}`);
+  }
+
+  await mongoose.disconnect();
+};
+
+seed().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
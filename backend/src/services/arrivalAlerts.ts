@@ -0,0 +1,176 @@
+import { z } from "zod";
+import ArrivalAlert from "../models/ArrivalAlert";
+import Route from "../models/Route";
+import Stop from "../models/Stop";
+import { HttpError } from "../utils/errors";
+import { ArrivalAlertSchema, UpdateArrivalAlertSchema } from "../validation/schemas";
+import { EtaUpdate } from "./eta";
+import { sendPush } from "./push";
+
+type ArrivalAlertDocument = InstanceType<typeof ArrivalAlert>;
+type ArrivalAlertInput = z.infer<typeof ArrivalAlertSchema>;
+type ArrivalAlertUpdate = z.infer<typeof UpdateArrivalAlertSchema>;
+
+// Alerts per push subscription, so one browser can't fill the collection
+const MAX_ALERTS_PER_SUBSCRIPTION = 20;
+
+export interface ArrivalAlertPayload {
+  id: string;
+  stopId: string;
+  stopName?: string;
+  routeId?: string;
+  routeName?: string;
+  minutes?: number;
+  meters?: number;
+  repeat: boolean;
+  isActive: boolean;
+  lastNotifiedAt?: string;
+}
+
+// The subscription keys stay on the server
+const toArrivalAlertPayload = (alert: ArrivalAlertDocument): ArrivalAlertPayload => ({
+  id: alert._id.toString(),
+  stopId: String(alert.stop),
+  stopName: alert.stopName ?? undefined,
+  routeId: alert.route ? String(alert.route) : undefined,
+  routeName: alert.routeName ?? undefined,
+  minutes: alert.minutes ?? undefined,
+  meters: alert.meters ?? undefined,
+  repeat: alert.repeat,
+  isActive: alert.isActive,
+  lastNotifiedAt: alert.lastNotifiedAt?.toISOString(),
+});
+
+// Who is asking: this browser's push endpoint, the signed-in passenger, or both
+export interface AlertOwner {
+  endpoint?: string;
+  passengerId?: string;
+}
+
+const ownerFilter = ({ endpoint, passengerId }: AlertOwner) => {
+  const owners = [
+    ...(endpoint ? [{ "subscription.endpoint": endpoint }] : []),
+    ...(passengerId ? [{ passenger: passengerId }] : []),
+  ];
+  if (owners.length === 0) throw new HttpError(401, "Missing push subscription");
+  return { $or: owners };
+};
+
+const findOwnAlert = async (owner: AlertOwner, id: string) => {
+  const alert = await ArrivalAlert.findOne({ _id: id, ...ownerFilter(owner) });
+  if (!alert) throw new HttpError(404, "Alert not found");
+  return alert;
+};
+
+export const getArrivalAlerts = async (owner: AlertOwner) => {
+  const alerts = await ArrivalAlert.find(ownerFilter(owner)).sort({ createdAt: 1 });
+  return alerts.map(toArrivalAlertPayload);
+};
+
+export const createArrivalAlert = async (
+  { subscription, stopId, routeId, ...thresholds }: ArrivalAlertInput,
+  passengerId?: string
+) => {
+  const count = await ArrivalAlert.countDocuments({ "subscription.endpoint": subscription.endpoint });
+  if (count >= MAX_ALERTS_PER_SUBSCRIPTION) {
+    throw new HttpError(409, `You can keep up to ${MAX_ALERTS_PER_SUBSCRIPTION} arrival alerts`);
+  }
+
+  const [stop, route] = await Promise.all([
+    Stop.findById(stopId),
+    routeId ? Route.findOne({ _id: routeId, stops: stopId }) : null,
+  ]);
+  if (!stop) throw new HttpError(404, "Stop not found");
+  if (routeId && !route) throw new HttpError(400, "That route doesn't serve this stop");
+
+  const alert = await ArrivalAlert.create({
+    subscription,
+    passenger: passengerId,
+    stop: stop._id,
+    stopName: stop.name,
+    route: route?._id,
+    routeName: route?.name,
+    ...thresholds,
+  });
+  return toArrivalAlertPayload(alert);
+};
+
+export const updateArrivalAlert = async (owner: AlertOwner, id: string, update: ArrivalAlertUpdate) => {
+  const alert = await findOwnAlert(owner, id);
+  alert.set(update);
+  // Re-arming counts the bus that already fired it again
+  if (update.isActive) alert.set({ lastNotifiedTrip: undefined });
+  await alert.save();
+  return toArrivalAlertPayload(alert);
+};
+
+export const deleteArrivalAlert = async (owner: AlertOwner, id: string) => {
+  const alert = await findOwnAlert(owner, id);
+  await alert.deleteOne();
+};
+
+const isWithin = (alert: ArrivalAlertDocument, eta: { seconds: number; distanceMeters: number }) =>
+  (alert.minutes != null && eta.seconds <= alert.minutes * 60) ||
+  (alert.meters != null && eta.distanceMeters <= alert.meters);
+
+// Puts an alert back the way it was before it was claimed for a trip
+const releaseClaim = (alert: ArrivalAlertDocument, tripId: string) =>
+  ArrivalAlert.updateOne(
+    { _id: alert._id, lastNotifiedTrip: tripId },
+    alert.lastNotifiedTrip
+      ? { lastNotifiedTrip: alert.lastNotifiedTrip, lastNotifiedAt: alert.lastNotifiedAt, isActive: true }
+      : { $unset: { lastNotifiedTrip: 1, lastNotifiedAt: 1 }, isActive: true }
+  );
+
+// Checks a bus's fresh ETAs against the alerts armed on its upcoming stops
+// and pushes a notification for each one it has come within range of
+export const checkArrivalAlerts = async (update: EtaUpdate) => {
+  const etaByStop = new Map(update.etas.map((eta) => [eta.stopId, eta]));
+  if (etaByStop.size === 0) return;
+
+  const alerts = await ArrivalAlert.find({
+    isActive: true,
+    stop: { $in: [...etaByStop.keys()] },
+    // null also matches alerts for any route
+    $or: [{ route: null }, { route: update.routeId }],
+    lastNotifiedTrip: { $ne: update.tripId },
+  });
+
+  for (const alert of alerts) {
+    const eta = etaByStop.get(String(alert.stop));
+    if (!eta || !isWithin(alert, eta)) continue;
+
+    let claimed = false;
+    try {
+      // Claimed atomically so two quick pings can't both send it
+      claimed = Boolean(
+        await ArrivalAlert.findOneAndUpdate(
+          { _id: alert._id, isActive: true, lastNotifiedTrip: { $ne: update.tripId } },
+          { lastNotifiedTrip: update.tripId, lastNotifiedAt: new Date(), isActive: alert.repeat }
+        )
+      );
+      if (!claimed) continue;
+
+      const minutes = Math.max(1, Math.round(eta.seconds / 60));
+      const delivered = await sendPush(alert.subscription, {
+        title: `${update.routeName} is ${minutes} min from ${eta.stopName}`,
+        body: `Bus ${update.vehicleLabel} towards ${update.headsign}, ${(eta.distanceMeters / 1000).toFixed(1)} km away`,
+        url: `/track/${update.tripId}`,
+        tag: `arrival-${alert._id}`,
+      });
+      // The browser unsubscribed; everything armed through it is dead
+      if (!delivered) {
+        await ArrivalAlert.deleteMany({ "subscription.endpoint": alert.subscription.endpoint });
+      }
+    } catch (error) {
+      // One failed alert mustn't hold up the rest. Hand its claim back so
+      // the bus's next ping retries it.
+      console.error("Error sending arrival alert:", error);
+      if (claimed) {
+        await releaseClaim(alert, update.tripId).catch((releaseError) =>
+          console.error("Error releasing arrival alert:", releaseError)
+        );
+      }
+    }
+  }
+};
@@ -0,0 +1,34 @@
+import DriverAccount from "../models/DriverAccount";
+import { getDrivers, LiveDriver } from "./fleet";
+import { getEmergencies } from "./incidents";
+
+// One row of the dispatch console's fleet table
+export interface FleetEntry extends LiveDriver {
+  id: string;
+  driverName?: string;
+}
+
+// Every bus on the road, with what dispatch needs to know at a glance
+export const getFleet = async (): Promise<FleetEntry[]> => {
+  const [drivers, emergencies] = await Promise.all([getDrivers(), getEmergencies()]);
+  const accounts = await DriverAccount.find({ _id: { $in: Object.keys(drivers) } })
+    .select("name")
+    .lean();
+  const names = new Map(accounts.map((account) => [String(account._id), account.name]));
+
+  return Object.entries(drivers).map(([id, live]) => ({
+    ...live,
+    id,
+    driverName: names.get(id),
+    emergency: id in emergencies,
+  }));
+};
+
+// Who a dispatch action is recorded under: the signed-in dispatcher's own
+// name. Only admin-key callers (scripts) have no account, so only they may
+// name someone with `by`; otherwise the services fall back to "Dispatch".
+export const getActingDispatcherName = async (dispatcherId: string | undefined, by: string | undefined) => {
+  if (!dispatcherId) return by;
+  const account = await DriverAccount.findById(dispatcherId).select("name");
+  return account?.name;
+};
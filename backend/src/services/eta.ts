@@ -0,0 +1,278 @@
+import Route from "../models/Route";
+import SegmentTime from "../models/SegmentTime";
+import { DriverLocation } from "../validation/schemas";
+import { buildPolyline, LatLon, Polyline, projectOntoPolyline } from "./geo";
+import { getLiveStore } from "./liveStore";
+import { Direction, TripContext } from "./trips";
+
+// Route geometry rarely changes, reload it every few minutes at most
+const GEOMETRY_TTL_MS = 5 * 60 * 1000;
+// Window used to measure how fast the bus is actually progressing
+const SPEED_WINDOW_MS = 2 * 60 * 1000;
+const MIN_SPEED_WINDOW_MS = 20 * 1000;
+// Used when there's neither a measured speed nor history: ~18 km/h in city traffic
+const DEFAULT_SPEED_MPS = 5;
+const MIN_SPEED_MPS = 1;
+// A stop counts as passed once the bus is this far beyond it along the route
+const STOP_PASSED_MARGIN_METERS = 25;
+// Weight of a new observation in the segment time moving average
+const SEGMENT_EMA_ALPHA = 0.2;
+const MIN_SEGMENT_SECONDS = 5;
+const MAX_SEGMENT_SECONDS = 2 * 60 * 60;
+
+interface StopOnRoute {
+  id: string;
+  name: string;
+  along: number;
+}
+
+interface RouteGeometry {
+  line: Polyline;
+  // Stops in direction 0 order with their distance along `line`
+  stops: StopOnRoute[];
+  loadedAt: number;
+}
+
+interface BusProgress {
+  tripId: string;
+  samples: { time: number; along: number }[];
+  // Index (in travel order) of the last stop the bus went past, and when
+  lastStopIndex: number;
+  lastStopAt?: number;
+}
+
+export interface StopEta {
+  stopId: string;
+  stopName: string;
+  distanceMeters: number;
+  seconds: number;
+  arrivalAt: string;
+}
+
+export interface EtaUpdate {
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  vehicleLabel: string;
+  etas: StopEta[];
+  updatedAt: string;
+}
+
+const geometryCache = new Map<string, RouteGeometry>();
+// `${routeId}:${direction}:${fromStop}>${toStop}` -> average seconds
+const segmentTimes = new Map<string, number>();
+const loadedSegmentRoutes = new Set<string>();
+// A driver's socket stays on one instance, so progress can stay in process
+const progress = new Map<string, BusProgress>();
+
+const segmentKey = (routeId: string, direction: Direction, from: string, to: string) =>
+  `${routeId}:${direction}:${from}>${to}`;
+
+export const getRouteGeometry = async (routeId: string) => {
+  const cached = geometryCache.get(routeId);
+  if (cached && Date.now() - cached.loadedAt < GEOMETRY_TTL_MS) return cached;
+
+  const route = await Route.findById(routeId).populate<{
+    stops: ({ _id: unknown; name: string } & LatLon)[];
+  }>("stops");
+  if (!route) return null;
+
+  // Without a drawn shape, assume the bus drives straight from stop to stop
+  const shape: LatLon[] = route.shape.length > 1 ? route.shape : route.stops;
+  const line = buildPolyline(shape.map(({ latitude, longitude }) => ({ latitude, longitude })));
+
+  let hint = 0;
+  const stops = route.stops.map((stop) => {
+    const projection = projectOntoPolyline(line, stop, hint);
+    hint = projection?.along ?? hint;
+    return { id: String(stop._id), name: stop.name, along: hint };
+  });
+
+  const geometry = { line, stops, loadedAt: Date.now() };
+  geometryCache.set(routeId, geometry);
+  return geometry;
+};
+
+const loadSegmentTimes = async (routeId: string) => {
+  if (loadedSegmentRoutes.has(routeId)) return;
+  loadedSegmentRoutes.add(routeId);
+
+  const stats = await SegmentTime.find({ route: routeId });
+  for (const stat of stats) {
+    segmentTimes.set(
+      segmentKey(routeId, stat.direction as Direction, String(stat.fromStop), String(stat.toStop)),
+      stat.averageSeconds
+    );
+  }
+};
+
+const recordSegmentTime = (routeId: string, direction: Direction, from: string, to: string, seconds: number) => {
+  if (seconds < MIN_SEGMENT_SECONDS || seconds > MAX_SEGMENT_SECONDS) return;
+
+  const key = segmentKey(routeId, direction, from, to);
+  const previous = segmentTimes.get(key);
+  const averageSeconds = previous === undefined ? seconds : previous + SEGMENT_EMA_ALPHA * (seconds - previous);
+  segmentTimes.set(key, averageSeconds);
+
+  SegmentTime.updateOne(
+    { route: routeId, direction, fromStop: from, toStop: to },
+    { averageSeconds, $inc: { samples: 1 } },
+    { upsert: true }
+  ).catch((error) => console.error("Error saving segment time:", error));
+};
+
+// Stops and line in the direction of travel
+const orientGeometry = (geometry: RouteGeometry, direction: Direction) => {
+  if (direction === 0) return geometry.stops;
+  return [...geometry.stops]
+    .reverse()
+    .map((stop) => ({ ...stop, along: geometry.line.length - stop.along }));
+};
+
+const measuredSpeed = (samples: BusProgress["samples"]) => {
+  if (samples.length < 2) return null;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const elapsed = last.time - first.time;
+  if (elapsed < MIN_SPEED_WINDOW_MS) return null;
+  return Math.max(0, (last.along - first.along) / (elapsed / 1000));
+};
+
+export const updateEta = async (
+  driverId: string,
+  trip: TripContext,
+  position: DriverLocation
+): Promise<EtaUpdate | null> => {
+  const geometry = await getRouteGeometry(trip.routeId);
+  if (!geometry || geometry.stops.length === 0 || geometry.line.length === 0) return null;
+  await loadSegmentTimes(trip.routeId);
+
+  let bus = progress.get(driverId);
+  if (!bus || bus.tripId !== trip.id) {
+    bus = { tripId: trip.id, samples: [], lastStopIndex: -1 };
+    progress.set(driverId, bus);
+  }
+
+  const stops = orientGeometry(geometry, trip.direction);
+  const previousAlong = bus.samples[bus.samples.length - 1]?.along;
+  const hint =
+    previousAlong === undefined
+      ? undefined
+      : trip.direction === 0
+        ? previousAlong
+        : geometry.line.length - previousAlong;
+  const projection = projectOntoPolyline(geometry.line, position, hint);
+  if (!projection) return null;
+  const along = trip.direction === 0 ? projection.along : geometry.line.length - projection.along;
+
+  const time = position.timestamp;
+  bus.samples.push({ time, along });
+  bus.samples = bus.samples.filter((sample) => time - sample.time <= SPEED_WINDOW_MS);
+
+  // Learn segment times as the bus passes stops one after another
+  let passedIndex = bus.lastStopIndex;
+  while (passedIndex + 1 < stops.length && stops[passedIndex + 1].along + STOP_PASSED_MARGIN_METERS <= along) {
+    passedIndex++;
+  }
+  if (passedIndex !== bus.lastStopIndex) {
+    if (passedIndex === bus.lastStopIndex + 1 && bus.lastStopIndex >= 0 && bus.lastStopAt !== undefined) {
+      recordSegmentTime(
+        trip.routeId,
+        trip.direction,
+        stops[bus.lastStopIndex].id,
+        stops[passedIndex].id,
+        (time - bus.lastStopAt) / 1000
+      );
+    }
+    bus.lastStopIndex = passedIndex;
+    bus.lastStopAt = time;
+  }
+
+  const speed = Math.max(
+    MIN_SPEED_MPS,
+    measuredSpeed(bus.samples) ?? position.speed ?? DEFAULT_SPEED_MPS
+  );
+
+  const etas: StopEta[] = [];
+  let seconds = 0;
+  let from = { id: bus.lastStopIndex >= 0 ? stops[bus.lastStopIndex].id : null, along };
+  for (const stop of stops.slice(bus.lastStopIndex + 1)) {
+    const distance = Math.max(0, stop.along - from.along);
+    const history = from.id ? segmentTimes.get(segmentKey(trip.routeId, trip.direction, from.id, stop.id)) : undefined;
+
+    if (history !== undefined && from.along !== along) {
+      // Whole segment ahead: trust what buses on this route usually take
+      seconds += history;
+    } else if (history !== undefined) {
+      // Partly driven segment: blend the typical time for what's left with the current pace
+      const segmentLength = Math.max(1, stop.along - stops[bus.lastStopIndex].along);
+      seconds += (history * (distance / segmentLength) + distance / speed) / 2;
+    } else {
+      seconds += distance / speed;
+    }
+
+    etas.push({
+      stopId: stop.id,
+      stopName: stop.name,
+      distanceMeters: Math.round(stop.along - along),
+      seconds: Math.round(seconds),
+      arrivalAt: new Date(time + seconds * 1000).toISOString(),
+    });
+    from = { id: stop.id, along: stop.along };
+  }
+
+  const update: EtaUpdate = {
+    driverId,
+    tripId: trip.id,
+    routeId: trip.routeId,
+    routeName: trip.routeName,
+    headsign: trip.headsign,
+    vehicleLabel: trip.vehicleLabel,
+    etas,
+    updatedAt: new Date(time).toISOString(),
+  };
+  await getLiveStore().set<EtaUpdate>("etas", driverId, update);
+  return update;
+};
+
+export const clearEta = async (driverId: string) => {
+  progress.delete(driverId);
+  await getLiveStore().remove("etas", driverId);
+};
+
+export const getLatestEta = (driverId: string) => getLiveStore().get<EtaUpdate>("etas", driverId);
+
+// Upcoming arrivals at a stop across every active bus, soonest first
+export const getStopArrivals = async (stopId: string) =>
+  Object.values(await getLiveStore().getAll<EtaUpdate>("etas"))
+    .flatMap((update) =>
+      update.etas
+        .filter((eta) => eta.stopId === stopId)
+        .map((eta) => ({
+          driverId: update.driverId,
+          tripId: update.tripId,
+          routeId: update.routeId,
+          routeName: update.routeName,
+          headsign: update.headsign,
+          vehicleLabel: update.vehicleLabel,
+          ...eta,
+        }))
+    )
+    .sort((a, b) => a.arrivalAt.localeCompare(b.arrivalAt));
+
+// Where every bus on the route is headed next and when it gets there, soonest first
+export const getRouteArrivals = async (routeId: string) =>
+  Object.values(await getLiveStore().getAll<EtaUpdate>("etas"))
+    .filter((update) => update.routeId === routeId && update.etas.length > 0)
+    .map((update) => ({
+      driverId: update.driverId,
+      tripId: update.tripId,
+      routeId: update.routeId,
+      routeName: update.routeName,
+      headsign: update.headsign,
+      vehicleLabel: update.vehicleLabel,
+      ...update.etas[0],
+    }))
+    .sort((a, b) => a.arrivalAt.localeCompare(b.arrivalAt));
@@ -0,0 +1,46 @@
+import { DriverLocation } from "../validation/schemas";
+import { getLiveStore } from "./liveStore";
+import { TripContext } from "./trips";
+
+export interface LiveDriver {
+  position: DriverLocation;
+  trip: TripContext;
+  // Last time the driver's app was heard from, ISO string
+  lastSeenAt: string;
+  // True once the app has gone quiet for longer than the heartbeat timeout
+  stale: boolean;
+  // Set in snapshots while the driver has an unresolved SOS
+  emergency?: boolean;
+}
+
+// Latest position per driver account id, shared by every instance
+export const updateDriver = async (driverId: string, live: Omit<LiveDriver, "lastSeenAt" | "stale">) => {
+  await getLiveStore().set<LiveDriver>("drivers", driverId, {
+    ...live,
+    lastSeenAt: new Date().toISOString(),
+    stale: false,
+  });
+};
+
+export const restoreDriver = async (driverId: string, live: LiveDriver) => {
+  await getLiveStore().set<LiveDriver>("drivers", driverId, live);
+};
+
+export const setDriverPresence = async (
+  driverId: string,
+  presence: Pick<LiveDriver, "lastSeenAt" | "stale">
+) => {
+  const live = await getDriver(driverId);
+  if (!live) return undefined;
+  const next = { ...live, ...presence };
+  await getLiveStore().set<LiveDriver>("drivers", driverId, next);
+  return next;
+};
+
+export const removeDriver = async (driverId: string) => {
+  await getLiveStore().remove("drivers", driverId);
+};
+
+export const getDriver = (driverId: string) => getLiveStore().get<LiveDriver>("drivers", driverId);
+
+export const getDrivers = () => getLiveStore().getAll<LiveDriver>("drivers");
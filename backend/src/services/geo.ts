@@ -0,0 +1,74 @@
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceMeters = (a: LatLon, b: LatLon) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+// Flat x/y in metres around `origin`; accurate enough at city scale
+const toLocalXY = (point: LatLon, origin: LatLon) => ({
+  x: toRadians(point.longitude - origin.longitude) * Math.cos(toRadians(origin.latitude)) * EARTH_RADIUS_METERS,
+  y: toRadians(point.latitude - origin.latitude) * EARTH_RADIUS_METERS,
+});
+
+export interface Polyline {
+  points: LatLon[];
+  // Distance from the first point to each point, in metres
+  cumulative: number[];
+  length: number;
+}
+
+export const buildPolyline = (points: LatLon[]): Polyline => {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + distanceMeters(points[i - 1], points[i]));
+  }
+  return { points, cumulative, length: cumulative[cumulative.length - 1] ?? 0 };
+};
+
+export interface Projection {
+  // Distance along the line to the closest point, in metres
+  along: number;
+  // Perpendicular distance from the line, in metres
+  offset: number;
+}
+
+// Snaps a point onto the line. When the line doubles back on itself several
+// segments can be about as close; `hint` (the previous `along`) then picks
+// the one that keeps the bus moving forward.
+export const projectOntoPolyline = (line: Polyline, point: LatLon, hint?: number): Projection | null => {
+  if (line.points.length === 0) return null;
+  if (line.points.length === 1) {
+    return { along: 0, offset: distanceMeters(line.points[0], point) };
+  }
+
+  const candidates: Projection[] = [];
+  for (let i = 0; i < line.points.length - 1; i++) {
+    const start = line.points[i];
+    const end = toLocalXY(line.points[i + 1], start);
+    const p = toLocalXY(point, start);
+    const segmentLengthSq = end.x * end.x + end.y * end.y;
+    const t = segmentLengthSq === 0 ? 0 : Math.min(1, Math.max(0, (p.x * end.x + p.y * end.y) / segmentLengthSq));
+    const offset = Math.hypot(p.x - t * end.x, p.y - t * end.y);
+    candidates.push({
+      along: line.cumulative[i] + t * (line.cumulative[i + 1] - line.cumulative[i]),
+      offset,
+    });
+  }
+
+  const best = candidates.reduce((a, b) => (b.offset < a.offset ? b : a));
+  if (hint === undefined) return best;
+
+  const nearby = candidates.filter((candidate) => candidate.offset <= best.offset + 30);
+  return nearby.reduce((a, b) => (Math.abs(b.along - hint) < Math.abs(a.along - hint) ? b : a));
+};
@@ -0,0 +1,134 @@
+import Route from "../models/Route";
+import Trip from "../models/Trip";
+import { DriverLocation } from "../validation/schemas";
+import { distanceMeters, LatLon } from "./geo";
+import { TripContext } from "./trips";
+
+// A bus is at a stop once inside the enter radius and has left once beyond
+// the (larger) exit radius, so GPS jitter at the edge doesn't flap
+const ENTER_RADIUS_METERS = Number(process.env.STOP_ENTER_RADIUS_METERS) || 35;
+const EXIT_RADIUS_METERS = Number(process.env.STOP_EXIT_RADIUS_METERS) || 60;
+// Fixes vaguer than this can't place a bus at a particular stop
+const MAX_ACCURACY_METERS = 75;
+const STOPS_TTL_MS = 5 * 60 * 1000;
+
+interface StopPoint extends LatLon {
+  id: string;
+  name: string;
+}
+
+interface AtStop {
+  stopId: string;
+  stopName: string;
+  arrivedAt: number;
+}
+
+export interface StopEvent {
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  vehicleLabel: string;
+  stopId: string;
+  stopName: string;
+  arrivedAt: string;
+}
+
+export interface StopDeparture extends StopEvent {
+  departedAt: string;
+  dwellSeconds: number;
+}
+
+const stopsCache = new Map<string, { stops: StopPoint[]; loadedAt: number }>();
+// Per driver, like ETA progress: a driver's pings all reach the same instance
+const atStops = new Map<string, { tripId: string; atStop: AtStop | null }>();
+
+export const getRouteStops = async (routeId: string) => {
+  const cached = stopsCache.get(routeId);
+  if (cached && Date.now() - cached.loadedAt < STOPS_TTL_MS) return cached.stops;
+
+  const route = await Route.findById(routeId).populate<{
+    stops: ({ _id: unknown; name: string } & LatLon)[];
+  }>("stops", "name latitude longitude");
+  const stops = (route?.stops ?? []).map(({ _id, name, latitude, longitude }) => ({
+    id: String(_id),
+    name,
+    latitude,
+    longitude,
+  }));
+  stopsCache.set(routeId, { stops, loadedAt: Date.now() });
+  return stops;
+};
+
+const describe = (driverId: string, trip: TripContext, atStop: AtStop): StopEvent => ({
+  driverId,
+  tripId: trip.id,
+  routeId: trip.routeId,
+  routeName: trip.routeName,
+  headsign: trip.headsign,
+  vehicleLabel: trip.vehicleLabel,
+  stopId: atStop.stopId,
+  stopName: atStop.stopName,
+  arrivedAt: new Date(atStop.arrivedAt).toISOString(),
+});
+
+// Feeds one fix through the stop geofences. Returns what happened, if
+// anything: the bus left the stop it was at and/or reached a new one.
+// Both are recorded on the trip.
+export const updateGeofence = async (driverId: string, trip: TripContext, position: DriverLocation) => {
+  let state = atStops.get(driverId);
+  if (!state || state.tripId !== trip.id) {
+    state = { tripId: trip.id, atStop: null };
+    atStops.set(driverId, state);
+  }
+  if ((position.accuracy ?? 0) > MAX_ACCURACY_METERS) return {};
+
+  const stops = await getRouteStops(trip.routeId);
+  let departed: StopDeparture | undefined;
+  let arrived: StopEvent | undefined;
+
+  if (state.atStop) {
+    const stop = stops.find((candidate) => candidate.id === state.atStop!.stopId);
+    if (stop && distanceMeters(stop, position) <= EXIT_RADIUS_METERS) return {};
+
+    const dwellSeconds = Math.max(0, Math.round((position.timestamp - state.atStop.arrivedAt) / 1000));
+    departed = {
+      ...describe(driverId, trip, state.atStop),
+      departedAt: new Date(position.timestamp).toISOString(),
+      dwellSeconds,
+    };
+    state.atStop = null;
+
+    await Trip.updateOne(
+      { _id: trip.id },
+      { $set: { "stopEvents.$[event].departedAt": new Date(position.timestamp), "stopEvents.$[event].dwellSeconds": dwellSeconds } },
+      {
+        arrayFilters: [
+          { "event.stop": departed.stopId, "event.arrivedAt": new Date(departed.arrivedAt), "event.departedAt": null },
+        ],
+      }
+    );
+  }
+
+  const nearest = stops
+    .map((stop) => ({ stop, distance: distanceMeters(stop, position) }))
+    .filter(({ distance }) => distance <= ENTER_RADIUS_METERS)
+    .sort((a, b) => a.distance - b.distance)[0];
+  // Just left this one, don't count the same stop again straight away
+  if (nearest && nearest.stop.id !== departed?.stopId) {
+    state.atStop = { stopId: nearest.stop.id, stopName: nearest.stop.name, arrivedAt: position.timestamp };
+    arrived = describe(driverId, trip, state.atStop);
+
+    await Trip.updateOne(
+      { _id: trip.id },
+      { $push: { stopEvents: { stop: nearest.stop.id, arrivedAt: new Date(position.timestamp) } } }
+    );
+  }
+
+  return { departed, arrived };
+};
+
+export const clearGeofence = (driverId: string) => {
+  atStops.delete(driverId);
+};
@@ -0,0 +1,49 @@
+import LocationPing from "../models/LocationPing";
+import Trip from "../models/Trip";
+import { DriverLocation } from "../validation/schemas";
+import { TripContext } from "./trips";
+import { HttpError } from "../utils/errors";
+
+export const recordPing = (driverId: string, trip: TripContext, position: DriverLocation) =>
+  LocationPing.create({
+    recordedAt: new Date(position.timestamp),
+    meta: { trip: trip.id, vehicle: trip.vehicleId, driver: driverId },
+    latitude: position.latitude,
+    longitude: position.longitude,
+    accuracy: position.accuracy ?? undefined,
+    speed: position.speed ?? undefined,
+    heading: position.heading ?? undefined,
+  });
+
+// The recorded path of a trip in time order, optionally clipped to a window
+export const getTrack = async (tripId: string, window: { from?: Date; to?: Date } = {}) => {
+  const trip = await Trip.findById(tripId)
+    .populate("route", "name description color")
+    .populate("vehicle", "fleetNumber registration")
+    .populate("driver", "name username")
+    .populate("stopEvents.stop", "name code");
+  if (!trip) throw new HttpError(404, "Trip not found");
+
+  const recordedAt: { $gte?: Date; $lte?: Date } = {};
+  if (window.from) recordedAt.$gte = window.from;
+  if (window.to) recordedAt.$lte = window.to;
+
+  const pings = await LocationPing.find({
+    "meta.trip": trip._id,
+    ...(window.from || window.to ? { recordedAt } : {}),
+  })
+    .sort({ recordedAt: 1 })
+    .lean();
+
+  return {
+    trip,
+    points: pings.map((ping) => ({
+      latitude: ping.latitude,
+      longitude: ping.longitude,
+      timestamp: ping.recordedAt.toISOString(),
+      accuracy: ping.accuracy,
+      speed: ping.speed,
+      heading: ping.heading,
+    })),
+  };
+};
@@ -0,0 +1,145 @@
+import { Server } from "socket.io";
+import { z } from "zod";
+import DriverAccount from "../models/DriverAccount";
+import Incident from "../models/Incident";
+import { HttpError } from "../utils/errors";
+import { SosSchema } from "../validation/schemas";
+import { getLiveStore } from "./liveStore";
+import { DISPATCH_ROOM, driverRoom, emitToRoute } from "./rooms";
+import { getActiveTrip } from "./trips";
+
+type IncidentDocument = InstanceType<typeof Incident>;
+
+export interface IncidentPayload {
+  id: string;
+  driverId: string;
+  driverName?: string;
+  tripId?: string;
+  routeId?: string;
+  routeName?: string;
+  vehicleLabel?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  message?: string;
+  status: "open" | "acknowledged" | "resolved";
+  raisedAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+const toIncidentPayload = (incident: IncidentDocument): IncidentPayload => ({
+  id: incident._id.toString(),
+  driverId: String(incident.driver),
+  driverName: incident.driverName ?? undefined,
+  tripId: incident.trip ? String(incident.trip) : undefined,
+  routeId: incident.route ? String(incident.route) : undefined,
+  routeName: incident.routeName ?? undefined,
+  vehicleLabel: incident.vehicleLabel ?? undefined,
+  latitude: incident.latitude ?? undefined,
+  longitude: incident.longitude ?? undefined,
+  accuracy: incident.accuracy ?? undefined,
+  message: incident.message ?? undefined,
+  status: incident.status as IncidentPayload["status"],
+  raisedAt: incident.createdAt.toISOString(),
+  acknowledgedAt: incident.acknowledgedAt?.toISOString(),
+  acknowledgedBy: incident.acknowledgedBy ?? undefined,
+  resolvedAt: incident.resolvedAt?.toISOString(),
+  resolvedBy: incident.resolvedBy ?? undefined,
+});
+
+// Dispatchers see every change, the driver sees the status of their own SOS,
+// and passengers on the route see the bus flagged until it is resolved
+const broadcastIncident = async (io: Server, incident: IncidentPayload) => {
+  io.to(DISPATCH_ROOM).emit("sosUpdate", incident);
+  io.to(driverRoom(incident.driverId)).emit("sosStatus", incident);
+
+  const active = incident.status !== "resolved";
+  if (active) {
+    await getLiveStore().set("emergencies", incident.driverId, incident.id);
+  } else {
+    await getLiveStore().remove("emergencies", incident.driverId);
+  }
+  if (incident.routeId) {
+    await emitToRoute(io, incident.routeId, "driverEmergency", { id: incident.driverId, active });
+  }
+};
+
+// Pressing SOS again while one is open re-sends the open incident rather
+// than paging dispatch twice
+export const raiseSos = async (io: Server, driverId: string, { position, message }: z.infer<typeof SosSchema>) => {
+  const existing = await Incident.findOne({ driver: driverId, status: { $ne: "resolved" } });
+  if (existing) {
+    const payload = toIncidentPayload(existing);
+    io.to(driverRoom(driverId)).emit("sosStatus", payload);
+    return payload;
+  }
+
+  const [trip, account] = await Promise.all([getActiveTrip(driverId), DriverAccount.findById(driverId)]);
+  const incident = await Incident.create({
+    driver: driverId,
+    driverName: account?.name,
+    trip: trip?.id,
+    route: trip?.routeId,
+    routeName: trip?.routeName,
+    vehicle: trip?.vehicleId,
+    vehicleLabel: trip?.vehicleLabel,
+    latitude: position?.latitude,
+    longitude: position?.longitude,
+    accuracy: position?.accuracy ?? undefined,
+    message,
+  });
+
+  const payload = toIncidentPayload(incident);
+  await broadcastIncident(io, payload);
+  return payload;
+};
+
+const updateIncident = async (
+  io: Server,
+  incidentId: string,
+  from: IncidentPayload["status"][],
+  update: Record<string, unknown>
+) => {
+  const incident = await Incident.findOneAndUpdate({ _id: incidentId, status: { $in: from } }, update, { new: true });
+  if (!incident) {
+    if (!(await Incident.exists({ _id: incidentId }))) throw new HttpError(404, "Incident not found");
+    throw new HttpError(409, "Incident has already moved past that step");
+  }
+  const payload = toIncidentPayload(incident);
+  await broadcastIncident(io, payload);
+  return payload;
+};
+
+export const acknowledgeIncident = (io: Server, incidentId: string, by = "Dispatch") =>
+  updateIncident(io, incidentId, ["open"], { status: "acknowledged", acknowledgedAt: new Date(), acknowledgedBy: by });
+
+export const resolveIncident = (io: Server, incidentId: string, by = "Dispatch") =>
+  updateIncident(io, incidentId, ["open", "acknowledged"], {
+    status: "resolved",
+    resolvedAt: new Date(),
+    resolvedBy: by,
+  });
+
+export const getIncidents = async (status?: IncidentPayload["status"]) =>
+  (await Incident.find(status ? { status } : {}).sort({ createdAt: -1 }).limit(200)).map(toIncidentPayload);
+
+export const getOpenIncidentForDriver = async (driverId: string) => {
+  const incident = await Incident.findOne({ driver: driverId, status: { $ne: "resolved" } });
+  return incident ? toIncidentPayload(incident) : null;
+};
+
+// Driver ids with an unresolved SOS, for flagging buses in snapshots
+export const getEmergencies = () => getLiveStore().getAll<string>("emergencies");
+
+// The live store starts empty after a restart; puts every unresolved SOS
+// back so their buses stay flagged on the maps
+export const restoreEmergencies = async () => {
+  const incidents = await Incident.find({ status: { $in: ["open", "acknowledged"] } }).select("driver");
+  for (const incident of incidents) {
+    await getLiveStore().set("emergencies", String(incident.driver), incident._id.toString());
+  }
+  return incidents.length;
+};
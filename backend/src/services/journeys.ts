@@ -0,0 +1,232 @@
+import Journey from "../models/Journey";
+import Route from "../models/Route";
+import Trip from "../models/Trip";
+import Vehicle from "../models/Vehicle";
+import { HttpError } from "../utils/errors";
+import { distanceMeters, LatLon } from "./geo";
+import { getDriver, getDrivers } from "./fleet";
+import { getTrack } from "./history";
+import { TripContext } from "./trips";
+
+// How close the passenger's phone must be to a bus to count as on board,
+// on top of the phone's own reported accuracy (capped below)
+const MATCH_RADIUS_METERS = Number(process.env.JOURNEY_MATCH_RADIUS_METERS) || 40;
+const MAX_MATCH_ACCURACY_METERS = 50;
+// Points kept from the bus's track for the journey's mini map
+const MAX_PATH_POINTS = Number(process.env.JOURNEY_MAX_PATH_POINTS) || 200;
+
+type JourneyDocument = InstanceType<typeof Journey>;
+type JourneyMethod = "manual" | "auto";
+
+export interface JourneyPayload {
+  id: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  routeColor?: string;
+  headsign?: string;
+  vehicleLabel?: string;
+  status: "active" | "completed";
+  boardedAt: string;
+  alightedAt?: string;
+  fromStopName?: string;
+  toStopName?: string;
+  distanceMeters?: number;
+  path: { latitude: number; longitude: number }[];
+  checkInMethod: JourneyMethod;
+  checkOutMethod?: JourneyMethod | "tripEnded";
+}
+
+const toJourneyPayload = (journey: JourneyDocument): JourneyPayload => ({
+  id: journey._id.toString(),
+  tripId: String(journey.trip),
+  routeId: String(journey.route),
+  routeName: journey.routeName,
+  routeColor: journey.routeColor ?? undefined,
+  headsign: journey.headsign ?? undefined,
+  vehicleLabel: journey.vehicleLabel ?? undefined,
+  status: journey.status as JourneyPayload["status"],
+  boardedAt: journey.boardedAt.toISOString(),
+  alightedAt: journey.alightedAt?.toISOString(),
+  fromStopName: journey.fromStopName ?? undefined,
+  toStopName: journey.toStopName ?? undefined,
+  distanceMeters: journey.distanceMeters ?? undefined,
+  path: journey.path.map(({ latitude, longitude }) => ({ latitude, longitude })),
+  checkInMethod: journey.checkInMethod as JourneyMethod,
+  checkOutMethod: (journey.checkOutMethod ?? undefined) as JourneyPayload["checkOutMethod"],
+});
+
+const nearestStopName = (stops: unknown[], point: LatLon | undefined) => {
+  if (!point) return undefined;
+  let nearest: { name: string; distance: number } | undefined;
+  for (const stop of stops as { name: string; latitude: number; longitude: number }[]) {
+    const distance = distanceMeters(point, stop);
+    if (!nearest || distance < nearest.distance) nearest = { name: stop.name, distance };
+  }
+  return nearest?.name;
+};
+
+// Keeps every n-th point plus the last, so long rides stay small
+const thinPath = <T>(points: T[]) => {
+  if (points.length <= MAX_PATH_POINTS) return points;
+  const step = Math.ceil(points.length / MAX_PATH_POINTS);
+  const kept = points.filter((_, index) => index % step === 0);
+  if (kept[kept.length - 1] !== points[points.length - 1]) kept.push(points[points.length - 1]);
+  return kept;
+};
+
+// The running bus the passenger is most likely on, judged by the phone's
+// position against every live bus. Null when none is close enough.
+export const findNearbyBus = async (position: LatLon & { accuracy?: number }) => {
+  const radius = MATCH_RADIUS_METERS + Math.min(position.accuracy ?? 0, MAX_MATCH_ACCURACY_METERS);
+
+  let nearest: { trip: TripContext; distanceMeters: number } | null = null;
+  for (const live of Object.values(await getDrivers())) {
+    if (live.stale) continue;
+    const distance = distanceMeters(position, live.position);
+    if (distance <= radius && (!nearest || distance < nearest.distanceMeters)) {
+      nearest = { trip: live.trip, distanceMeters: Math.round(distance) };
+    }
+  }
+  return nearest;
+};
+
+export const getCurrentJourney = async (passengerId: string) => {
+  const journey = await Journey.findOne({ passenger: passengerId, status: "active" });
+  return journey ? toJourneyPayload(journey) : null;
+};
+
+export const checkIn = async (passengerId: string, tripId: string, method: JourneyMethod = "manual") => {
+  const current = await Journey.findOne({ passenger: passengerId, status: "active" });
+  if (current) {
+    if (String(current.trip) === tripId) return toJourneyPayload(current);
+    throw new HttpError(409, "Check out of your current bus first");
+  }
+
+  const trip = await Trip.findById(tripId);
+  if (!trip) throw new HttpError(404, "Trip not found");
+  if (trip.status !== "active") throw new HttpError(410, "This trip has ended");
+
+  const [route, vehicle, live] = await Promise.all([
+    Route.findById(trip.route).populate("stops", "name latitude longitude"),
+    Vehicle.findById(trip.vehicle),
+    getDriver(String(trip.driver)),
+  ]);
+  if (!route) throw new HttpError(404, "Route not found");
+
+  const position = live?.trip.id === tripId ? live.position : undefined;
+  const journey = await Journey.create({
+    passenger: passengerId,
+    trip: trip._id,
+    route: route._id,
+    routeName: route.name,
+    routeColor: route.color ?? undefined,
+    headsign: trip.headsign,
+    vehicleLabel: vehicle?.fleetNumber,
+    boardedAt: new Date(),
+    fromStopName: nearestStopName(route.stops, position),
+    checkInMethod: method,
+  });
+  return toJourneyPayload(journey);
+};
+
+// Fills in the path, distance and alighting stop from the bus's recorded track
+const finishJourney = async (
+  journey: JourneyDocument,
+  alightedAt: Date,
+  method: JourneyMethod | "tripEnded"
+) => {
+  const [{ points }, route] = await Promise.all([
+    getTrack(String(journey.trip), { from: journey.boardedAt, to: alightedAt }),
+    Route.findById(journey.route).populate("stops", "name latitude longitude"),
+  ]);
+
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) distance += distanceMeters(points[i - 1], points[i]);
+
+  journey.status = "completed";
+  journey.alightedAt = alightedAt;
+  journey.checkOutMethod = method;
+  journey.distanceMeters = Math.round(distance);
+  journey.fromStopName ??= nearestStopName(route?.stops ?? [], points[0]);
+  journey.toStopName = nearestStopName(route?.stops ?? [], points[points.length - 1]);
+  journey.set(
+    "path",
+    thinPath(points).map(({ latitude, longitude, timestamp }) => ({
+      latitude,
+      longitude,
+      recordedAt: new Date(timestamp),
+    }))
+  );
+  await journey.save();
+  return toJourneyPayload(journey);
+};
+
+export const checkOut = async (passengerId: string, journeyId: string, method: JourneyMethod = "manual") => {
+  const journey = await Journey.findOne({ _id: journeyId, passenger: passengerId, status: "active" });
+  if (!journey) throw new HttpError(404, "You're not checked in on that bus");
+  return finishJourney(journey, new Date(), method);
+};
+
+// Passengers still on board when the bus finishes its run are checked out
+// where it ended
+export const closeTripJourneys = async (tripId: string, endedAt: Date = new Date()) => {
+  const journeys = await Journey.find({ trip: tripId, status: "active" });
+  for (const journey of journeys) {
+    await finishJourney(journey, endedAt, "tripEnded");
+  }
+};
+
+export const getJourneys = async (
+  passengerId: string,
+  { before, limit = 20 }: { before?: Date; limit?: number } = {}
+) => {
+  const journeys = await Journey.find({
+    passenger: passengerId,
+    ...(before ? { boardedAt: { $lt: before } } : {}),
+  })
+    .sort({ boardedAt: -1 })
+    .limit(limit);
+  return journeys.map(toJourneyPayload);
+};
+
+export const deleteJourney = async (passengerId: string, journeyId: string) => {
+  const journey = await Journey.findOneAndDelete({ _id: journeyId, passenger: passengerId });
+  if (!journey) throw new HttpError(404, "Journey not found");
+};
+
+const CSV_COLUMNS = [
+  "Boarded at",
+  "Alighted at",
+  "Route",
+  "Towards",
+  "Bus",
+  "From",
+  "To",
+  "Minutes",
+  "Distance (km)",
+] as const;
+
+const toCsvField = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Every completed journey, oldest first, for spreadsheets and expense claims
+export const exportJourneysCsv = async (passengerId: string) => {
+  const journeys = await Journey.find({ passenger: passengerId, status: "completed" }).sort({ boardedAt: 1 });
+  const rows = journeys.map((journey) => [
+    journey.boardedAt.toISOString(),
+    journey.alightedAt?.toISOString(),
+    journey.routeName,
+    journey.headsign ?? undefined,
+    journey.vehicleLabel ?? undefined,
+    journey.fromStopName ?? undefined,
+    journey.toStopName ?? undefined,
+    journey.alightedAt ? Math.round((journey.alightedAt.getTime() - journey.boardedAt.getTime()) / 60000) : undefined,
+    journey.distanceMeters !== undefined && journey.distanceMeters !== null
+      ? (journey.distanceMeters / 1000).toFixed(2)
+      : undefined,
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,109 @@
+import { createAdapter } from "@socket.io/redis-adapter";
+import { createClient } from "redis";
+import { Server } from "socket.io";
+
+// Live state that every backend instance has to agree on:
+//   drivers  - driver account id -> LiveDriver (position and trip)
+//   presence - driver account id -> when the driver app was last heard from
+//   etas     - driver account id -> latest EtaUpdate
+//   emergencies - driver account id -> id of their open SOS incident
+export type LiveCollection = "drivers" | "presence" | "etas" | "emergencies";
+
+export interface LiveStore {
+  get<T>(collection: LiveCollection, key: string): Promise<T | undefined>;
+  getAll<T>(collection: LiveCollection): Promise<{ [key: string]: T }>;
+  set<T>(collection: LiveCollection, key: string, value: T): Promise<void>;
+  // Resolves to false when the key was already gone, e.g. removed by another instance
+  remove(collection: LiveCollection, key: string): Promise<boolean>;
+}
+
+// Single instance: plain maps in process memory
+class MemoryLiveStore implements LiveStore {
+  private collections = new Map<LiveCollection, Map<string, unknown>>();
+
+  private collection(name: LiveCollection) {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  async get<T>(collection: LiveCollection, key: string) {
+    return this.collection(collection).get(key) as T | undefined;
+  }
+
+  async getAll<T>(collection: LiveCollection) {
+    return Object.fromEntries(this.collection(collection)) as { [key: string]: T };
+  }
+
+  async set<T>(collection: LiveCollection, key: string, value: T) {
+    this.collection(collection).set(key, value);
+  }
+
+  async remove(collection: LiveCollection, key: string) {
+    return this.collection(collection).delete(key);
+  }
+}
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Several instances: one Redis hash per collection, values stored as JSON
+class RedisLiveStore implements LiveStore {
+  constructor(private client: RedisClient, private prefix = "laalbus:live:") {}
+
+  async get<T>(collection: LiveCollection, key: string) {
+    const value = await this.client.hGet(this.prefix + collection, key);
+    return value === undefined ? undefined : (JSON.parse(value) as T);
+  }
+
+  async getAll<T>(collection: LiveCollection) {
+    const values = await this.client.hGetAll(this.prefix + collection);
+    return Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, JSON.parse(value) as T])
+    );
+  }
+
+  async set<T>(collection: LiveCollection, key: string, value: T) {
+    await this.client.hSet(this.prefix + collection, key, JSON.stringify(value));
+  }
+
+  async remove(collection: LiveCollection, key: string) {
+    return (await this.client.hDel(this.prefix + collection, key)) > 0;
+  }
+}
+
+let store: LiveStore = new MemoryLiveStore();
+// Whether the Redis adapter connects this instance to others
+let hasPeers = false;
+
+export const getLiveStore = () => store;
+
+// Tells the other instances behind the load balancer about a change. A
+// single instance has nobody to tell, and the default in-memory adapter
+// throws on serverSideEmit, so this is a no-op without Redis.
+export const emitToOtherInstances = (io: Server, event: string, ...args: unknown[]) => {
+  if (hasPeers) io.serverSideEmit(event, ...args);
+};
+
+// With REDIS_URL set, live state moves to Redis and socket events fan out
+// through the Socket.IO Redis adapter, so any number of instances can run
+// behind a load balancer (with sticky sessions for the polling transport).
+// Without it everything stays in this process. Returns whether Redis is used.
+export const setupLiveStore = async (io: Server) => {
+  const url = process.env.REDIS_URL;
+  if (!url) return false;
+
+  const pubClient = createClient({ url });
+  const subClient = pubClient.duplicate();
+  for (const client of [pubClient, subClient]) {
+    client.on("error", (error) => console.error("Redis error:", error));
+  }
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+
+  io.adapter(createAdapter(pubClient, subClient));
+  store = new RedisLiveStore(pubClient);
+  hasPeers = true;
+  return true;
+};
@@ -0,0 +1,54 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver an email. Swap in an SMTP or provider-API
+// transport with setMailTransport at startup.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development: print the mail, reset links included, to the server log.
+// Those links sign people in, so this only runs with MAIL_TRANSPORT=console.
+class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// POSTs each message as JSON to MAIL_WEBHOOK_URL, for mail services and
+// automation tools that accept webhooks
+class WebhookMailTransport implements MailTransport {
+  constructor(private url: string) {}
+
+  async send(message: MailMessage) {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail webhook failed (${response.status})`);
+    }
+  }
+}
+
+// Without either, nothing sends mail and features that need it answer 503
+let transport: MailTransport | null = process.env.MAIL_WEBHOOK_URL
+  ? new WebhookMailTransport(process.env.MAIL_WEBHOOK_URL)
+  : process.env.MAIL_TRANSPORT === "console"
+    ? new ConsoleMailTransport()
+    : null;
+
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const isMailConfigured = () => transport !== null;
+
+export const sendMail = async (message: MailMessage) => {
+  if (!transport) throw new Error("No mail transport is set up");
+  await transport.send(message);
+};
@@ -0,0 +1,162 @@
+import { Server } from "socket.io";
+import DriverAccount from "../models/DriverAccount";
+import Message from "../models/Message";
+import { HttpError } from "../utils/errors";
+import { DISPATCH_ROOM, driverRoom } from "./rooms";
+
+type MessageDocument = InstanceType<typeof Message>;
+type Sender = "driver" | "dispatch";
+
+export interface MessagePayload {
+  id: string;
+  driverId: string;
+  from: Sender;
+  senderName?: string;
+  body: string;
+  clientId?: string;
+  sentAt: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+export interface ReceiptPayload {
+  driverId: string;
+  ids: string[];
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+const toMessagePayload = (message: MessageDocument): MessagePayload => ({
+  id: message._id.toString(),
+  driverId: String(message.driver),
+  from: message.from as Sender,
+  senderName: message.senderName ?? undefined,
+  body: message.body,
+  clientId: message.clientId ?? undefined,
+  sentAt: message.createdAt.toISOString(),
+  deliveredAt: message.deliveredAt?.toISOString(),
+  readAt: message.readAt?.toISOString(),
+});
+
+// Both ends of the thread get every message and receipt; whoever isn't
+// connected picks them up from the thread history later
+const broadcast = (io: Server, driverId: string, event: string, payload: unknown) => {
+  io.to([driverRoom(driverId), DISPATCH_ROOM]).emit(event, payload);
+};
+
+export const sendMessage = async (
+  io: Server,
+  driverId: string,
+  { from, body, senderName, clientId }: { from: Sender; body: string; senderName?: string; clientId?: string }
+) => {
+  // A retried message from the driver's offline queue: answer with the stored copy
+  if (clientId) {
+    const existing = await Message.findOne({ driver: driverId, clientId });
+    if (existing) {
+      const payload = toMessagePayload(existing);
+      io.to(driverRoom(driverId)).emit("message", payload);
+      return payload;
+    }
+  }
+
+  if (from === "dispatch" && !(await DriverAccount.exists({ _id: driverId }))) {
+    throw new HttpError(404, "Driver not found");
+  }
+
+  const message = await Message.create({
+    driver: driverId,
+    from,
+    body,
+    senderName,
+    clientId,
+    // The server has it, which is all delivery means for the dispatch side
+    deliveredAt: from === "driver" ? new Date() : undefined,
+  });
+  const payload = toMessagePayload(message);
+  broadcast(io, driverId, "message", payload);
+  return payload;
+};
+
+// Marks messages sent *to* `reader` as delivered or read. Only messages in
+// the driver's own thread from the other side are touched.
+export const markMessages = async (
+  io: Server,
+  driverId: string,
+  reader: Sender,
+  ids: string[] | "all",
+  receipt: "delivered" | "read"
+) => {
+  const now = new Date();
+  const field = receipt === "delivered" ? "deliveredAt" : "readAt";
+  const filter = {
+    driver: driverId,
+    from: reader === "driver" ? "dispatch" : "driver",
+    [field]: null,
+    ...(ids === "all" ? {} : { _id: { $in: ids } }),
+  };
+
+  const pending = await Message.find(filter).select("_id");
+  if (pending.length === 0) return null;
+
+  await Message.updateMany(
+    { _id: { $in: pending.map((message) => message._id) } },
+    // Reading a message implies it arrived
+    receipt === "read"
+      ? [{ $set: { readAt: now, deliveredAt: { $ifNull: ["$deliveredAt", now] } } }]
+      : { deliveredAt: now }
+  );
+
+  const payload: ReceiptPayload = {
+    driverId,
+    ids: pending.map((message) => message._id.toString()),
+    [field]: now.toISOString(),
+  };
+  broadcast(io, driverId, "messageReceipt", payload);
+  return payload;
+};
+
+export const getThread = async (driverId: string, { before, limit = 50 }: { before?: Date; limit?: number } = {}) => {
+  const messages = await Message.find({ driver: driverId, ...(before ? { createdAt: { $lt: before } } : {}) })
+    .sort({ createdAt: -1 })
+    .limit(limit);
+  return messages.reverse().map(toMessagePayload);
+};
+
+// Messages from dispatch the driver's app hasn't received yet, oldest first
+export const getUndelivered = async (driverId: string) =>
+  (await Message.find({ driver: driverId, from: "dispatch", deliveredAt: null }).sort({ createdAt: 1 })).map(
+    toMessagePayload
+  );
+
+// One row per driver for the dispatch inbox: latest message and unread count
+export const getThreads = async () => {
+  const threads = await Message.aggregate<{
+    _id: unknown;
+    last: { body: string; from: Sender; createdAt: Date };
+    unread: number;
+  }>([
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: "$driver",
+        last: { $first: { body: "$body", from: "$from", createdAt: "$createdAt" } },
+        unread: {
+          $sum: { $cond: [{ $and: [{ $eq: ["$from", "driver"] }, { $not: ["$readAt"] }] }, 1, 0] },
+        },
+      },
+    },
+    { $sort: { "last.createdAt": -1 } },
+  ]);
+
+  const accounts = await DriverAccount.find({ _id: { $in: threads.map((thread) => thread._id) } }).select("name");
+  const names = new Map(accounts.map((account) => [account._id.toString(), account.name]));
+
+  return threads.map((thread) => ({
+    driverId: String(thread._id),
+    driverName: names.get(String(thread._id)),
+    lastMessage: thread.last.body,
+    lastFrom: thread.last.from,
+    lastAt: thread.last.createdAt.toISOString(),
+    unread: thread.unread,
+  }));
+};
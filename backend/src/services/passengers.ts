@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { z } from "zod";
+import PassengerAccount from "../models/PassengerAccount";
+import { hashPassword, verifyPassword } from "../auth/passwords";
+import { revokeAllSessions, revokeOtherSessions } from "../auth/tokens";
+import { HttpError } from "../utils/errors";
+import { FavoritesSchema, PassengerSignupSchema, UpdatePassengerProfileSchema } from "../validation/schemas";
+import { isMailConfigured, sendMail } from "./mail";
+
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+// Reset links open the passenger web app
+const PASSENGER_APP_URL = process.env.PASSENGER_APP_URL || "http://localhost:5173";
+
+type PassengerDocument = InstanceType<typeof PassengerAccount>;
+type PassengerSignup = z.infer<typeof PassengerSignupSchema>;
+type PassengerProfileUpdate = z.infer<typeof UpdatePassengerProfileSchema>;
+type FavoritesInput = z.infer<typeof FavoritesSchema>["favorites"];
+
+const hashResetToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+export const toPassengerProfile = (account: PassengerDocument) => ({
+  id: account._id.toString(),
+  email: account.email,
+  name: account.name,
+});
+
+export const toFavorites = (account: PassengerDocument) =>
+  account.favorites.map((favorite) => ({
+    type: favorite.type,
+    id: String(favorite.id),
+    name: favorite.name,
+    color: favorite.color ?? undefined,
+    savedAt: favorite.savedAt.toISOString(),
+  }));
+
+export const signUpPassenger = async ({ email, name, password }: PassengerSignup) => {
+  if (await PassengerAccount.exists({ email })) {
+    throw new HttpError(409, "An account with that email already exists");
+  }
+  return PassengerAccount.create({ email, name, passwordHash: await hashPassword(password) });
+};
+
+// Null for a wrong email and a wrong password alike
+export const authenticatePassenger = async (email: string, password: string) => {
+  const account = await PassengerAccount.findOne({ email }).select("+passwordHash");
+  if (!account || account.isDisabled || !(await verifyPassword(password, account.passwordHash))) {
+    return null;
+  }
+  return account;
+};
+
+export const getPassenger = async (passengerId: string) => {
+  const account = await PassengerAccount.findById(passengerId);
+  if (!account || account.isDisabled) throw new HttpError(404, "Account not found");
+  return account;
+};
+
+// A new password signs every other device out; this one stays signed in
+export const updatePassengerProfile = async (
+  passengerId: string,
+  sessionId: string,
+  { currentPassword, password, ...update }: PassengerProfileUpdate
+) => {
+  const account = await PassengerAccount.findById(passengerId).select("+passwordHash");
+  if (!account || account.isDisabled) throw new HttpError(404, "Account not found");
+
+  const changesEmail = update.email !== undefined && update.email !== account.email;
+  if (changesEmail || password !== undefined) {
+    if (!currentPassword || !(await verifyPassword(currentPassword, account.passwordHash))) {
+      throw new HttpError(403, "Enter your current password to change your email or password");
+    }
+  }
+  if (changesEmail && (await PassengerAccount.exists({ email: update.email }))) {
+    throw new HttpError(409, "An account with that email already exists");
+  }
+
+  account.set(update);
+  if (password !== undefined) account.passwordHash = await hashPassword(password);
+  await account.save();
+  if (password !== undefined) await revokeOtherSessions(passengerId, sessionId);
+  return account;
+};
+
+// Replaces the saved list; the app merges its local favourites in first
+export const replaceFavorites = async (passengerId: string, favorites: FavoritesInput) => {
+  const account = await getPassenger(passengerId);
+  account.set({ favorites });
+  await account.save();
+  return toFavorites(account);
+};
+
+// Emails a single-use reset link. Says nothing about whether the address has
+// an account, so the endpoint can't be used to find out; for the same reason
+// a failed email is only logged, never reported.
+export const requestPasswordReset = async (email: string) => {
+  if (!isMailConfigured()) throw new HttpError(503, "Password reset by email is not set up on this server");
+
+  const account = await PassengerAccount.findOne({ email, isDisabled: false });
+  if (!account) return;
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  account.set({
+    passwordResetHash: hashResetToken(token),
+    passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+  await account.save();
+
+  try {
+    await sendMail({
+      to: account.email,
+      subject: "Reset your Laal Bus password",
+      text:
+        `Hi ${account.name},\n\n` +
+        `Open this link to choose a new password. It works once, for the next ${PASSWORD_RESET_TTL_MINUTES} minutes:\n\n` +
+        `${PASSENGER_APP_URL}/reset-password?token=${token}\n\n` +
+        "If you didn't ask for this, you can ignore this email.",
+    });
+  } catch (error) {
+    console.error("Error sending password reset email:", error);
+  }
+};
+
+// Sets the new password and signs the account out everywhere
+export const resetPassword = async (token: string, password: string) => {
+  const account = await PassengerAccount.findOne({
+    passwordResetHash: hashResetToken(token),
+    passwordResetExpiresAt: { $gt: new Date() },
+    isDisabled: false,
+  });
+  if (!account) throw new HttpError(400, "This reset link is invalid or has expired");
+
+  account.set({
+    passwordHash: await hashPassword(password),
+    passwordResetHash: undefined,
+    passwordResetExpiresAt: undefined,
+  });
+  await account.save();
+  await revokeAllSessions(account._id.toString());
+};
@@ -0,0 +1,66 @@
+import crypto from "crypto";
+
+export interface PaymentMethod {
+  id: string;
+  label: string;
+}
+
+export interface PaymentCharge {
+  passengerId: string;
+  // Whole rupees
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  description: string;
+}
+
+// The card, bank or mobile-wallet charge failed; the message is safe to
+// show to the passenger
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+// Anything that can take money for a wallet top-up. Swap in a real gateway
+// with setPaymentProvider at startup. `charge` resolves once the money is
+// taken, with the provider's id for the charge.
+export interface PaymentProvider {
+  name: string;
+  getPaymentMethods(): PaymentMethod[];
+  charge(charge: PaymentCharge): Promise<{ reference: string }>;
+}
+
+// Development and demos: every charge succeeds except with the "declined"
+// method, and no money moves
+class FakePaymentProvider implements PaymentProvider {
+  name = "fake";
+
+  getPaymentMethods() {
+    return [
+      { id: "fake_card", label: "Test card (always approved)" },
+      { id: "fake_declined", label: "Test card (always declined)" },
+    ];
+  }
+
+  async charge(charge: PaymentCharge) {
+    if (charge.paymentMethod === "fake_declined") {
+      throw new PaymentDeclinedError("The test card was declined");
+    }
+    if (!this.getPaymentMethods().some((method) => method.id === charge.paymentMethod)) {
+      throw new PaymentDeclinedError("Unknown payment method");
+    }
+    return { reference: `fake_${crypto.randomUUID()}` };
+  }
+}
+
+// The fake provider hands out free balance, so it only runs when asked for
+// with PAYMENT_PROVIDER=fake. Without a provider top-ups answer 503.
+let provider: PaymentProvider | null = process.env.PAYMENT_PROVIDER === "fake" ? new FakePaymentProvider() : null;
+
+export const setPaymentProvider = (next: PaymentProvider) => {
+  provider = next;
+};
+
+export const getPaymentProvider = () => provider;
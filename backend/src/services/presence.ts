@@ -0,0 +1,131 @@
+import { Server, Socket } from "socket.io";
+import Driver from "../models/Driver";
+import { clearEta } from "./eta";
+import { getDriver, removeDriver, setDriverPresence } from "./fleet";
+import { clearGeofence } from "./geofence";
+import { clearTripAlerts } from "./tripAlerts";
+import { getLiveStore } from "./liveStore";
+import { driverRoom, emitToRoute } from "./rooms";
+
+// A driver app that hasn't been heard from for this long is shown as stale
+const HEARTBEAT_TIMEOUT_MS = (Number(process.env.DRIVER_HEARTBEAT_TIMEOUT_SECONDS) || 30) * 1000;
+// ...and is taken off the map once it has been stale for this long
+const GRACE_PERIOD_MS = (Number(process.env.DRIVER_GRACE_PERIOD_SECONDS) || 120) * 1000;
+const SWEEP_INTERVAL_MS = 5 * 1000;
+
+interface Presence {
+  lastSeenAt: number;
+  stale: boolean;
+}
+
+// Presence is keyed by driver account id so a reconnect picks up where the
+// old socket left off, whichever instance it lands on. Every socket of a
+// driver joins its driver room, which is how they're found across instances.
+
+const emitPresence = async (io: Server, driverId: string, entry: Presence) => {
+  const live = await setDriverPresence(driverId, {
+    lastSeenAt: new Date(entry.lastSeenAt).toISOString(),
+    stale: entry.stale,
+  });
+  if (live) {
+    await emitToRoute(io, live.trip.routeId, "driverPresence", {
+      id: driverId,
+      stale: live.stale,
+      lastSeenAt: live.lastSeenAt,
+    });
+  }
+};
+
+export const driverConnected = async (io: Server, driverId: string, socket: Socket) => {
+  socket.join(driverRoom(driverId));
+  const store = getLiveStore();
+  if (!(await store.get<Presence>("presence", driverId))) {
+    await store.set<Presence>("presence", driverId, { lastSeenAt: Date.now(), stale: false });
+  }
+
+  await Driver.findOneAndUpdate(
+    { account: driverId },
+    { socketId: socket.id, account: driverId, isActive: true, lastSeenAt: new Date() },
+    { upsert: true }
+  );
+  await recordHeartbeat(io, driverId);
+};
+
+// A driver known from before a restart. They get a full heartbeat timeout
+// plus grace period, counted from boot, to reconnect.
+export const restorePresence = async (driverId: string) => {
+  const store = getLiveStore();
+  if (!(await store.get<Presence>("presence", driverId))) {
+    await store.set<Presence>("presence", driverId, { lastSeenAt: Date.now(), stale: false });
+  }
+};
+
+// The bus stays on the map until the grace period runs out, a reconnect within
+// it is invisible to passengers
+export const driverDisconnected = async (io: Server, driverId: string) => {
+  const remaining = await io.in(driverRoom(driverId)).fetchSockets();
+  if (remaining.length === 0) {
+    await Driver.updateOne({ account: driverId }, { isActive: false });
+  }
+};
+
+// Any sign of life from the driver app: a heartbeat, a location fix or a reconnect
+export const recordHeartbeat = async (io: Server, driverId: string) => {
+  const store = getLiveStore();
+  const entry = await store.get<Presence>("presence", driverId);
+  if (!entry) return;
+
+  const next = { lastSeenAt: Date.now(), stale: false };
+  await store.set<Presence>("presence", driverId, next);
+  if (entry.stale) {
+    await emitPresence(io, driverId, next);
+  } else {
+    await setDriverPresence(driverId, { lastSeenAt: new Date(next.lastSeenAt).toISOString(), stale: false });
+  }
+};
+
+const expireDriver = async (io: Server, driverId: string) => {
+  // Every instance sweeps; only the one that actually removes the entry carries on
+  if (!(await getLiveStore().remove("presence", driverId))) return;
+
+  const live = await getDriver(driverId);
+  await removeDriver(driverId);
+  await clearEta(driverId);
+  clearGeofence(driverId);
+  clearTripAlerts(driverId);
+  if (live) {
+    await emitToRoute(io, live.trip.routeId, "driverCheck", driverId);
+  }
+
+  // A frozen app may still hold its socket open; it will reconnect if it recovers
+  io.in(driverRoom(driverId)).disconnectSockets(true);
+
+  await Driver.deleteOne({ account: driverId });
+  io.emit("active-drivers-updated");
+};
+
+const sweep = async (io: Server) => {
+  const store = getLiveStore();
+  const now = Date.now();
+  for (const [driverId, entry] of Object.entries(await store.getAll<Presence>("presence"))) {
+    const silentFor = now - entry.lastSeenAt;
+    if (silentFor > HEARTBEAT_TIMEOUT_MS + GRACE_PERIOD_MS) {
+      await expireDriver(io, driverId);
+    } else if (silentFor > HEARTBEAT_TIMEOUT_MS && !entry.stale) {
+      const next = { ...entry, stale: true };
+      await store.set<Presence>("presence", driverId, next);
+      await emitPresence(io, driverId, next);
+    }
+  }
+};
+
+export const startPresenceMonitor = (io: Server) => {
+  const timer = setInterval(() => {
+    sweep(io).catch((error) => console.error("Error sweeping driver presence:", error));
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+};
+
+// Whether any instance already tracks live drivers, i.e. this isn't a cold start
+export const hasLivePresence = async () =>
+  Object.keys(await getLiveStore().getAll<Presence>("presence")).length > 0;
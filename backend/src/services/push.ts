@@ -0,0 +1,45 @@
+import webpush, { WebPushError } from "web-push";
+
+// Generate a key pair with `npx web-push generate-vapid-keys`
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+// Contact push services can reach about this server, a mailto: or https: URL
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:admin@laalbus.app";
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  // Page opened when the notification is tapped
+  url?: string;
+  // Replaces an earlier notification with the same tag instead of stacking
+  tag?: string;
+}
+
+const configured = Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+if (configured) {
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+}
+
+export const isPushConfigured = () => configured;
+
+export const getVapidPublicKey = () => VAPID_PUBLIC_KEY ?? null;
+
+// Resolves to false when the browser has dropped the subscription and it
+// should be forgotten
+export const sendPush = async (subscription: PushSubscriptionKeys, notification: PushNotification) => {
+  if (!configured) return true;
+  try {
+    await webpush.sendNotification(subscription, JSON.stringify(notification));
+    return true;
+  } catch (error) {
+    if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return false;
+    }
+    throw error;
+  }
+};
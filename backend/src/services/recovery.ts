@@ -0,0 +1,82 @@
+import Driver from "../models/Driver";
+import { getDrivers, restoreDriver } from "./fleet";
+import { restoreEmergencies } from "./incidents";
+import { hasLivePresence, restorePresence } from "./presence";
+import { getActiveTrip } from "./trips";
+
+// How much live state a crash can lose at most
+const SNAPSHOT_INTERVAL_MS = 10 * 1000;
+
+// driverId -> position timestamp last written, so idle buses aren't rewritten
+const written = new Map<string, number>();
+
+export const snapshotFleet = async () => {
+  const drivers = await getDrivers();
+  const writes = Object.entries(drivers)
+    .filter(([driverId, live]) => written.get(driverId) !== live.position.timestamp)
+    .map(([driverId, live]) => ({
+      updateOne: {
+        filter: { account: driverId },
+        update: { $set: { trip: live.trip.id, position: live.position, lastSeenAt: new Date(live.lastSeenAt) } },
+      },
+    }));
+  if (writes.length === 0) return;
+
+  await Driver.bulkWrite(writes, { ordered: false });
+  for (const [driverId, live] of Object.entries(drivers)) {
+    written.set(driverId, live.position.timestamp);
+  }
+};
+
+export const startFleetSnapshots = () => {
+  const timer = setInterval(() => {
+    snapshotFleet().catch((error) => console.error("Error snapshotting fleet:", error));
+  }, SNAPSHOT_INTERVAL_MS);
+  timer.unref();
+};
+
+// Runs once on boot, before any socket connects. No socket survives a
+// restart, so every earlier presence record is marked inactive until its driver
+// reconnects; buses still on an active trip are put back on the map from
+// their last snapshot and the rest of the records are dropped, and unresolved
+// SOS incidents flag their buses again. Skipped when the shared live store
+// already has drivers: another instance is running.
+export const restoreFleet = async () => {
+  if (await hasLivePresence()) return 0;
+
+  await restoreEmergencies();
+
+  // Leave alone drivers who managed to reconnect while this was running
+  const previous = { $or: [{ lastSeenAt: { $lt: new Date() } }, { lastSeenAt: { $exists: false } }] };
+
+  // Records from before presence was keyed by account can't be matched to anyone
+  await Driver.deleteMany({ account: { $exists: false } });
+  await Driver.updateMany(previous, { isActive: false, $unset: { socketId: 1 } });
+
+  const records = await Driver.find(previous).sort({ lastSeenAt: -1 });
+  const seen = new Set<string>();
+  let restored = 0;
+  for (const record of records) {
+    const driverId = String(record.account);
+    const trip = seen.has(driverId) ? null : await getActiveTrip(driverId);
+    seen.add(driverId);
+
+    if (!trip || trip.id !== String(record.trip) || !record.position) {
+      await Driver.deleteOne({ _id: record._id });
+      continue;
+    }
+
+    const { latitude, longitude, timestamp, accuracy, speed, heading } = record.position;
+    await restoreDriver(driverId, {
+      position: { latitude, longitude, timestamp, accuracy, speed, heading },
+      trip,
+      lastSeenAt: (record.lastSeenAt ?? new Date(timestamp)).toISOString(),
+      stale: false,
+    });
+    written.set(driverId, timestamp);
+    await restorePresence(driverId);
+    restored++;
+  }
+
+  return restored;
+};
@@ -0,0 +1,36 @@
+import { Server } from "socket.io";
+import Route from "../models/Route";
+
+// Stop lists change rarely; this bounds how stale a stop room mapping can get
+const ROUTE_STOPS_TTL_MS = 5 * 60 * 1000;
+
+const routeStops = new Map<string, { stopIds: string[]; loadedAt: number }>();
+
+// Dispatchers' channel: trip alerts and other operational events
+export const DISPATCH_ROOM = "dispatch";
+
+export const routeRoom = (routeId: string) => `route:${routeId}`;
+// Every socket of one driver, on whichever instance it landed
+export const driverRoom = (driverId: string) => `driver:${driverId}`;
+export const stopRoom = (stopId: string) => `stop:${stopId}`;
+
+const getRouteStopIds = async (routeId: string) => {
+  const cached = routeStops.get(routeId);
+  if (cached && Date.now() - cached.loadedAt < ROUTE_STOPS_TTL_MS) return cached.stopIds;
+
+  const route = await Route.findById(routeId).select("stops").lean();
+  const stopIds = (route?.stops ?? []).map(String);
+  routeStops.set(routeId, { stopIds, loadedAt: Date.now() });
+  return stopIds;
+};
+
+// Everyone watching a bus on this route: the route's room plus each of its stops' rooms
+export const getRouteRooms = async (routeId: string) => [
+  routeRoom(routeId),
+  ...(await getRouteStopIds(routeId)).map(stopRoom),
+];
+
+// Dispatch follows every route, so it hears about every bus too
+export const emitToRoute = async (io: Server, routeId: string, event: string, payload: unknown) => {
+  io.to([...(await getRouteRooms(routeId)), DISPATCH_ROOM]).emit(event, payload);
+};
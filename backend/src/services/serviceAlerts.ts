@@ -0,0 +1,109 @@
+import { Server } from "socket.io";
+import { z } from "zod";
+import ServiceAlert from "../models/ServiceAlert";
+import { HttpError } from "../utils/errors";
+import { ServiceAlertSchema } from "../validation/schemas";
+
+type ServiceAlertDocument = InstanceType<typeof ServiceAlert>;
+type ServiceAlertInput = z.infer<typeof ServiceAlertSchema>;
+
+export interface ServiceAlertPayload {
+  id: string;
+  scope: "agency" | "route" | "stop";
+  routeIds: string[];
+  stopIds: string[];
+  severity: "info" | "warning" | "severe";
+  title: string;
+  message?: string;
+  startsAt: string;
+  endsAt?: string;
+}
+
+const toServiceAlertPayload = (alert: ServiceAlertDocument): ServiceAlertPayload => ({
+  id: alert._id.toString(),
+  scope: alert.scope,
+  routeIds: alert.routes.map(String),
+  stopIds: alert.stops.map(String),
+  severity: alert.severity,
+  title: alert.title,
+  message: alert.message ?? undefined,
+  startsAt: (alert.startsAt ?? alert.createdAt).toISOString(),
+  endsAt: alert.endsAt?.toISOString(),
+});
+
+// Alerts are rare and cheap, so every connected client hears about every
+// change and picks out what is relevant to what it shows
+const broadcast = (io: Server, event: string, payload: unknown) => {
+  io.emit(event, payload);
+};
+
+// An alert must name what it's about, and only that
+const checkScope = (alert: ServiceAlertDocument) => {
+  if (alert.scope === "agency") {
+    alert.set({ routes: [], stops: [] });
+  } else if (alert.scope === "route") {
+    if (alert.routes.length === 0) throw new HttpError(400, "A route alert needs at least one route");
+    alert.set({ stops: [] });
+  } else {
+    if (alert.stops.length === 0) throw new HttpError(400, "A stop alert needs at least one stop");
+    alert.set({ routes: [] });
+  }
+  if (alert.endsAt && alert.startsAt && alert.endsAt <= alert.startsAt) {
+    throw new HttpError(400, "An alert has to end after it starts");
+  }
+};
+
+// Current and upcoming alerts, optionally narrowed to some routes and stops
+export const getServiceAlerts = async ({
+  routes,
+  stops,
+  all = false,
+}: {
+  routes?: string[];
+  stops?: string[];
+  all?: boolean;
+}) => {
+  const conditions: Record<string, unknown>[] = [];
+  if (!all) {
+    conditions.push({ $or: [{ endsAt: null }, { endsAt: { $gt: new Date() } }] });
+  }
+  if (routes || stops) {
+    conditions.push({
+      $or: [{ scope: "agency" }, { routes: { $in: routes ?? [] } }, { stops: { $in: stops ?? [] } }],
+    });
+  }
+
+  const alerts = await ServiceAlert.find(conditions.length > 0 ? { $and: conditions } : {}).sort({ startsAt: -1 });
+  return alerts.map(toServiceAlertPayload);
+};
+
+export const createServiceAlert = async (io: Server, input: ServiceAlertInput) => {
+  const alert = new ServiceAlert({ ...input, endsAt: input.endsAt ?? undefined });
+  checkScope(alert);
+  await alert.save();
+
+  const payload = toServiceAlertPayload(alert);
+  broadcast(io, "serviceAlert", payload);
+  return payload;
+};
+
+export const updateServiceAlert = async (io: Server, alertId: string, input: Partial<ServiceAlertInput>) => {
+  const alert = await ServiceAlert.findById(alertId);
+  if (!alert) throw new HttpError(404, "Service alert not found");
+
+  const { endsAt, ...rest } = input;
+  alert.set(rest);
+  if (endsAt !== undefined) alert.set("endsAt", endsAt ?? undefined);
+  checkScope(alert);
+  await alert.save();
+
+  const payload = toServiceAlertPayload(alert);
+  broadcast(io, "serviceAlert", payload);
+  return payload;
+};
+
+export const deleteServiceAlert = async (io: Server, alertId: string) => {
+  const alert = await ServiceAlert.findByIdAndDelete(alertId);
+  if (!alert) throw new HttpError(404, "Service alert not found");
+  broadcast(io, "serviceAlertRemoved", { id: alertId });
+};
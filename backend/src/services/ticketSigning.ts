@@ -0,0 +1,41 @@
+import crypto from "crypto";
+
+// PEM P-256 private key, e.g. from
+//   openssl ecparam -name prime256v1 -genkey -noout | openssl pkcs8 -topk8 -nocrypt
+// Newlines may be written as "\n" to fit in one environment variable.
+const TICKET_SIGNING_KEY = process.env.TICKET_SIGNING_KEY?.replace(/\\n/g, "\n");
+
+// What a ticket's QR code carries. Kept short so the code stays easy to scan.
+export interface TicketClaims {
+  tid: string; // Ticket id
+  rid: string; // Route id
+  rn: string; // Route name
+  amt: number; // Fare paid, whole rupees
+  cur: string; // Currency of the fare
+  iat: number; // Valid from, seconds since epoch
+  exp: number; // Expires, seconds since epoch
+  kid: string; // Which key signed it
+}
+
+const privateKey = TICKET_SIGNING_KEY ? crypto.createPrivateKey(TICKET_SIGNING_KEY) : null;
+const publicKey = privateKey ? crypto.createPublicKey(privateKey) : null;
+// Lets verifiers notice the key has been rotated
+const keyId = publicKey
+  ? crypto.createHash("sha256").update(publicKey.export({ type: "spki", format: "der" })).digest("base64url").slice(0, 8)
+  : null;
+
+export const isTicketSigningConfigured = () => privateKey !== null;
+
+// Published so inspectors' devices can check tickets with no network. JWK,
+// since that's what browsers' WebCrypto imports.
+export const getTicketPublicKey = () =>
+  publicKey && keyId ? { keyId, jwk: publicKey.export({ format: "jwk" }) } : null;
+
+// `<claims>.<signature>`, both base64url. The signature is ECDSA P-256 over
+// the encoded claims, in the raw r||s form WebCrypto expects.
+export const signTicket = (claims: Omit<TicketClaims, "kid">) => {
+  if (!privateKey || !keyId) throw new Error("TICKET_SIGNING_KEY is not defined in the environment variables");
+  const encoded = Buffer.from(JSON.stringify({ ...claims, kid: keyId })).toString("base64url");
+  const signature = crypto.sign("sha256", Buffer.from(encoded), { key: privateKey, dsaEncoding: "ieee-p1363" });
+  return `${encoded}.${signature.toString("base64url")}`;
+};
@@ -0,0 +1,172 @@
+import { Types } from "mongoose";
+import Trip from "../models/Trip";
+import { DriverLocation } from "../validation/schemas";
+import { getRouteGeometry } from "./eta";
+import { getRouteStops } from "./geofence";
+import { distanceMeters, LatLon, projectOntoPolyline } from "./geo";
+import { TripContext } from "./trips";
+
+// Off route: further than this from the route shape...
+const OFF_ROUTE_CORRIDOR_METERS = Number(process.env.OFF_ROUTE_CORRIDOR_METERS) || 100;
+// ...for at least this long, so a single bad fix or a short detour doesn't alert
+const OFF_ROUTE_MIN_SECONDS = Number(process.env.OFF_ROUTE_MIN_SECONDS) || 60;
+// Long idle: staying within this radius...
+const IDLE_RADIUS_METERS = 30;
+// ...for this long, while not near any stop of the route
+const LONG_IDLE_SECONDS = Number(process.env.LONG_IDLE_SECONDS) || 5 * 60;
+const IDLE_STOP_CLEARANCE_METERS = 100;
+// Fixes vaguer than this say nothing about where the bus is
+const MAX_ACCURACY_METERS = 75;
+
+export type TripAlertType = "offRoute" | "longIdle";
+
+export interface TripAlert {
+  id: string;
+  type: TripAlertType;
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  vehicleLabel: string;
+  raisedAt: string;
+  resolvedAt?: string;
+  latitude: number;
+  longitude: number;
+  distanceMeters?: number;
+  idleSeconds?: number;
+}
+
+interface Condition {
+  since: number;
+  // Set once the alert has been raised
+  alertId?: string;
+}
+
+interface Watch {
+  tripId: string;
+  offRoute: Condition | null;
+  idle: (Condition & { anchor: LatLon }) | null;
+}
+
+// Per driver, like ETA progress: a driver's pings all reach the same instance
+const watches = new Map<string, Watch>();
+
+const raise = async (
+  driverId: string,
+  trip: TripContext,
+  position: DriverLocation,
+  type: TripAlertType,
+  details: { distanceMeters?: number; idleSeconds?: number }
+): Promise<TripAlert> => {
+  const id = new Types.ObjectId();
+  const raisedAt = new Date(position.timestamp);
+  await Trip.updateOne(
+    { _id: trip.id },
+    {
+      $push: {
+        alerts: { _id: id, type, raisedAt, latitude: position.latitude, longitude: position.longitude, ...details },
+      },
+    }
+  );
+  return {
+    id: String(id),
+    type,
+    driverId,
+    tripId: trip.id,
+    routeId: trip.routeId,
+    routeName: trip.routeName,
+    vehicleLabel: trip.vehicleLabel,
+    raisedAt: raisedAt.toISOString(),
+    latitude: position.latitude,
+    longitude: position.longitude,
+    ...details,
+  };
+};
+
+const resolve = async (tripId: string, alertId: string, position: DriverLocation) => {
+  const resolvedAt = new Date(position.timestamp);
+  await Trip.updateOne({ _id: tripId, "alerts._id": alertId }, { $set: { "alerts.$.resolvedAt": resolvedAt } });
+  return { id: alertId, tripId, resolvedAt: resolvedAt.toISOString() };
+};
+
+// Checks one fix against the route corridor and the idle timer. Returns the
+// alerts raised and resolved by it; both are also stored on the trip.
+export const updateTripAlerts = async (driverId: string, trip: TripContext, position: DriverLocation) => {
+  const raised: TripAlert[] = [];
+  const resolved: { id: string; tripId: string; resolvedAt: string }[] = [];
+
+  let watch = watches.get(driverId);
+  if (!watch || watch.tripId !== trip.id) {
+    watch = { tripId: trip.id, offRoute: null, idle: null };
+    watches.set(driverId, watch);
+  }
+  if ((position.accuracy ?? 0) > MAX_ACCURACY_METERS) return { raised, resolved };
+  const now = position.timestamp;
+
+  const geometry = await getRouteGeometry(trip.routeId);
+  const projection = geometry && geometry.line.length > 0 ? projectOntoPolyline(geometry.line, position) : null;
+  if (projection && projection.offset > OFF_ROUTE_CORRIDOR_METERS) {
+    watch.offRoute ??= { since: now };
+    if (!watch.offRoute.alertId && now - watch.offRoute.since >= OFF_ROUTE_MIN_SECONDS * 1000) {
+      const alert = await raise(driverId, trip, position, "offRoute", {
+        distanceMeters: Math.round(projection.offset),
+      });
+      watch.offRoute.alertId = alert.id;
+      raised.push(alert);
+    }
+  } else if (projection && watch.offRoute) {
+    if (watch.offRoute.alertId) resolved.push(await resolve(trip.id, watch.offRoute.alertId, position));
+    watch.offRoute = null;
+  }
+
+  if (!watch.idle || distanceMeters(watch.idle.anchor, position) > IDLE_RADIUS_METERS) {
+    if (watch.idle?.alertId) resolved.push(await resolve(trip.id, watch.idle.alertId, position));
+    watch.idle = { since: now, anchor: { latitude: position.latitude, longitude: position.longitude } };
+  } else if (!watch.idle.alertId && now - watch.idle.since >= LONG_IDLE_SECONDS * 1000) {
+    // Waiting at a stop or the terminus is the job, not an anomaly
+    const stops = await getRouteStops(trip.routeId);
+    const nearStop = stops.some((stop) => distanceMeters(stop, position) <= IDLE_STOP_CLEARANCE_METERS);
+    if (!nearStop) {
+      const alert = await raise(driverId, trip, position, "longIdle", {
+        idleSeconds: Math.round((now - watch.idle.since) / 1000),
+      });
+      watch.idle.alertId = alert.id;
+      raised.push(alert);
+    }
+  }
+
+  return { raised, resolved };
+};
+
+export const clearTripAlerts = (driverId: string) => {
+  watches.delete(driverId);
+};
+
+// Alerts still open on running trips, newest first, for a dispatcher who just connected
+export const getOpenAlerts = async (): Promise<TripAlert[]> => {
+  const trips = await Trip.find({ status: "active", alerts: { $elemMatch: { resolvedAt: null } } })
+    .populate<{ route: { _id: unknown; name: string } }>("route", "name")
+    .populate<{ vehicle: { fleetNumber: string } }>("vehicle", "fleetNumber")
+    .lean();
+
+  return trips
+    .flatMap((trip) =>
+      trip.alerts
+        .filter((alert) => !alert.resolvedAt)
+        .map((alert) => ({
+          id: String(alert._id),
+          type: alert.type as TripAlertType,
+          driverId: String(trip.driver),
+          tripId: String(trip._id),
+          routeId: String(trip.route._id),
+          routeName: trip.route.name,
+          vehicleLabel: trip.vehicle.fleetNumber,
+          raisedAt: alert.raisedAt.toISOString(),
+          latitude: alert.latitude,
+          longitude: alert.longitude,
+          distanceMeters: alert.distanceMeters ?? undefined,
+          idleSeconds: alert.idleSeconds ?? undefined,
+        }))
+    )
+    .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt));
+};
@@ -0,0 +1,180 @@
+import { Server } from "socket.io";
+import Trip from "../models/Trip";
+import Route from "../models/Route";
+import Vehicle from "../models/Vehicle";
+import { HttpError } from "../utils/errors";
+import { clearEta, getLatestEta } from "./eta";
+import { getDriver, removeDriver } from "./fleet";
+import { clearGeofence } from "./geofence";
+import { emitToOtherInstances } from "./liveStore";
+import { emitToRoute } from "./rooms";
+import { clearTripAlerts } from "./tripAlerts";
+
+export type Direction = 0 | 1;
+
+// What passengers see next to a bus, e.g. "Route 4 towards Keamari"
+export interface TripContext {
+  id: string;
+  routeId: string;
+  routeName: string;
+  routeColor: string;
+  direction: Direction;
+  headsign: string;
+  vehicleId: string;
+  vehicleLabel: string;
+  startedAt: string;
+}
+
+// Active trip per driver account id. `null` means "looked up, has none" so
+// every location ping doesn't go back to Mongo.
+const activeTrips = new Map<string, TripContext | null>();
+
+// Destination shown for a direction: the last stop in travel order, falling
+// back to the route description ("Power House to Keamari").
+export const getHeadsign = (
+  route: { name: string; description?: string | null; stops?: unknown[] },
+  direction: Direction
+) => {
+  const stops = (route.stops ?? []) as { name?: string }[];
+  const terminus = direction === 0 ? stops[stops.length - 1] : stops[0];
+  if (terminus?.name) return terminus.name;
+
+  const ends = (route.description ?? "").split(/\s+(?:to|-)\s+/i).filter(Boolean);
+  if (ends.length >= 2) return direction === 0 ? ends[ends.length - 1] : ends[0];
+  return route.name;
+};
+
+const toTripContext = (
+  trip: { _id: unknown; direction: number; headsign: string; startedAt?: Date | null },
+  route: { _id: unknown; name: string; color?: string | null },
+  vehicle: { _id: unknown; fleetNumber: string }
+): TripContext => ({
+  id: String(trip._id),
+  routeId: String(route._id),
+  routeName: route.name,
+  routeColor: route.color ?? "#dc2626",
+  direction: trip.direction as Direction,
+  headsign: trip.headsign,
+  vehicleId: String(vehicle._id),
+  vehicleLabel: vehicle.fleetNumber,
+  startedAt: (trip.startedAt ?? new Date()).toISOString(),
+});
+
+const loadActiveTrip = async (driverId: string) => {
+  const trip = await Trip.findOne({ driver: driverId, status: "active" });
+  if (!trip) return null;
+
+  const [route, vehicle] = await Promise.all([
+    Route.findById(trip.route),
+    Vehicle.findById(trip.vehicle),
+  ]);
+  if (!route || !vehicle) return null;
+  return toTripContext(trip, route, vehicle);
+};
+
+export const getActiveTrip = async (driverId: string) => {
+  if (activeTrips.has(driverId)) return activeTrips.get(driverId) ?? null;
+  const context = await loadActiveTrip(driverId);
+  activeTrips.set(driverId, context);
+  return context;
+};
+
+// Another instance started or ended a trip for this driver
+export const forgetActiveTrip = (driverId: string) => {
+  activeTrips.delete(driverId);
+};
+
+export const startTrip = async (
+  driverId: string,
+  { routeId, direction, vehicleId }: { routeId: string; direction: Direction; vehicleId: string }
+) => {
+  if (await Trip.exists({ driver: driverId, status: "active" })) {
+    throw new HttpError(409, "End your current trip before starting a new one");
+  }
+
+  const [route, vehicle] = await Promise.all([
+    Route.findOne({ _id: routeId, isActive: true }).populate("stops"),
+    Vehicle.findOne({ _id: vehicleId, isActive: true }),
+  ]);
+  if (!route) throw new HttpError(404, "Route not found");
+  if (!vehicle) throw new HttpError(404, "Vehicle not found");
+
+  if (await Trip.exists({ vehicle: vehicleId, status: "active" })) {
+    throw new HttpError(409, `Vehicle ${vehicle.fleetNumber} is already on a trip`);
+  }
+
+  const trip = await Trip.create({
+    driver: driverId,
+    vehicle: vehicleId,
+    route: routeId,
+    direction,
+    headsign: getHeadsign(route, direction),
+  });
+
+  const context = toTripContext(trip, route, vehicle);
+  activeTrips.set(driverId, context);
+  return context;
+};
+
+export const endTrip = async (driverId: string, tripId: string) => {
+  const trip = await Trip.findOneAndUpdate(
+    { _id: tripId, driver: driverId, status: "active" },
+    { status: "completed", endedAt: new Date() },
+    { new: true }
+  );
+  if (!trip) throw new HttpError(404, "No active trip with that id");
+
+  activeTrips.set(driverId, null);
+  return trip;
+};
+
+// Dispatch taking a bus off duty, e.g. when the driver's phone died mid-run
+export const endTripForDriver = async (driverId: string, by = "Dispatch") => {
+  const trip = await Trip.findOneAndUpdate(
+    { driver: driverId, status: "active" },
+    { status: "completed", endedAt: new Date(), endedBy: by },
+    { new: true }
+  );
+  if (!trip) throw new HttpError(404, "Driver has no active trip");
+
+  activeTrips.set(driverId, null);
+  return trip;
+};
+
+// Read-only view of a running trip behind a shared tracking link. The link
+// stops working as soon as the trip ends.
+export const getSharedTrip = async (tripId: string) => {
+  const trip = await Trip.findById(tripId);
+  if (!trip) throw new HttpError(404, "Trip not found");
+  if (trip.status !== "active") throw new HttpError(410, "This trip has ended");
+
+  const [route, vehicle] = await Promise.all([
+    Route.findById(trip.route).populate("stops"),
+    Vehicle.findById(trip.vehicle),
+  ]);
+  if (!route || !vehicle) throw new HttpError(404, "Trip not found");
+
+  const driverId = String(trip.driver);
+  const [live, eta] = await Promise.all([getDriver(driverId), getLatestEta(driverId)]);
+  return {
+    driverId,
+    trip: toTripContext(trip, route, vehicle),
+    route,
+    // Null until the driver's first ping of the trip
+    position: live?.position ?? null,
+    lastSeenAt: live?.lastSeenAt ?? null,
+    stale: live?.stale ?? false,
+    etas: eta?.tripId === String(trip._id) ? eta.etas : [],
+  };
+};
+
+// Takes the bus of a trip that just ended off every passenger's map
+export const clearLiveTrip = async (io: Server, driverId: string, routeId: string) => {
+  // Other instances may have cached the trip as still running
+  emitToOtherInstances(io, "activeTripChanged", driverId);
+  await removeDriver(driverId);
+  await clearEta(driverId);
+  clearGeofence(driverId);
+  clearTripAlerts(driverId);
+  await emitToRoute(io, routeId, "driverCheck", driverId);
+};
@@ -0,0 +1,238 @@
+import FareRule from "../models/FareRule";
+import PassengerAccount from "../models/PassengerAccount";
+import Route from "../models/Route";
+import Ticket from "../models/Ticket";
+import WalletEntry from "../models/WalletEntry";
+import { HttpError } from "../utils/errors";
+import { getPaymentProvider, PaymentDeclinedError } from "./payments";
+import { isTicketSigningConfigured, signTicket } from "./ticketSigning";
+
+const WALLET_CURRENCY = process.env.WALLET_CURRENCY || "PKR";
+// Ledger entries returned with the balance
+const RECENT_ENTRIES = 50;
+// Tickets listed, newest first
+const RECENT_TICKETS = 20;
+// Pending top-ups older than this are left over from a crash
+const STALE_TOP_UP_MINUTES = 10;
+
+type WalletEntryDocument = InstanceType<typeof WalletEntry>;
+type TicketDocument = InstanceType<typeof Ticket>;
+
+const toWalletEntryPayload = (entry: WalletEntryDocument) => ({
+  id: entry._id.toString(),
+  type: entry.type,
+  amount: entry.amount,
+  balanceAfter: entry.balanceAfter ?? undefined,
+  currency: entry.currency,
+  description: entry.description ?? undefined,
+  createdAt: entry.createdAt.toISOString(),
+});
+
+const toTicketPayload = (ticket: TicketDocument) => ({
+  id: ticket._id.toString(),
+  routeId: String(ticket.route),
+  routeName: ticket.routeName,
+  fareName: ticket.fareName ?? undefined,
+  amount: ticket.amount,
+  currency: ticket.currency,
+  validFrom: ticket.validFrom.toISOString(),
+  expiresAt: ticket.expiresAt.toISOString(),
+  code: ticket.code,
+});
+
+export const getWallet = async (passengerId: string) => {
+  const [account, entries] = await Promise.all([
+    PassengerAccount.findById(passengerId),
+    WalletEntry.find({ passenger: passengerId, status: "completed" }).sort({ createdAt: -1 }).limit(RECENT_ENTRIES),
+  ]);
+  if (!account) throw new HttpError(404, "Account not found");
+
+  return {
+    balance: account.walletBalance,
+    currency: WALLET_CURRENCY,
+    entries: entries.map(toWalletEntryPayload),
+  };
+};
+
+export const getPaymentMethods = () => getPaymentProvider()?.getPaymentMethods() ?? [];
+
+// Credits a top-up whose charge went through. Taking the entry off the
+// account's pending list in the same update as the credit means it is
+// credited exactly once, however often this runs for it.
+const completeTopUp = async (entry: WalletEntryDocument) => {
+  const credited = await PassengerAccount.findOneAndUpdate(
+    { _id: entry.passenger, pendingTopUps: entry._id },
+    { $inc: { walletBalance: entry.amount }, $pull: { pendingTopUps: entry._id } },
+    { new: true }
+  );
+  // Already credited, by a concurrent retry or before a crash
+  const account = credited ?? (await PassengerAccount.findById(entry.passenger));
+  if (!account) throw new HttpError(404, "Account not found");
+
+  const completed = await WalletEntry.findOneAndUpdate(
+    { _id: entry._id, status: "pending" },
+    { status: "completed", balanceAfter: account.walletBalance },
+    { new: true }
+  );
+  const latest = completed ?? (await WalletEntry.findById(entry._id)) ?? entry;
+  return { balance: account.walletBalance, entry: toWalletEntryPayload(latest) };
+};
+
+// The entry is recorded as pending before the card is charged, so retrying
+// with the same key after a lost response, or a crash halfway, can never
+// charge twice or lose a charge: a pending entry with the provider's
+// reference only needs crediting
+export const topUpWallet = async (
+  passengerId: string,
+  { amount, paymentMethod, idempotencyKey }: { amount: number; paymentMethod: string; idempotencyKey: string }
+) => {
+  const provider = getPaymentProvider();
+  if (!provider) throw new HttpError(503, "Top-ups are not set up on this server");
+
+  const account = await PassengerAccount.findOne({ _id: passengerId, isDisabled: false });
+  if (!account) throw new HttpError(404, "Account not found");
+
+  let entry = await WalletEntry.findOne({ passenger: passengerId, idempotencyKey });
+  if (entry && entry.amount !== amount) throw new HttpError(409, "This top-up was already made for another amount");
+  if (entry?.status === "completed") return { balance: account.walletBalance, entry: toWalletEntryPayload(entry) };
+  if (entry?.status === "pending") {
+    if (entry.reference) return completeTopUp(entry);
+    throw new HttpError(409, "This top-up is still being processed");
+  }
+
+  try {
+    entry = entry
+      ? // Declined last time, so no money moved and the same key may try again
+        await WalletEntry.findOneAndUpdate({ _id: entry._id, status: "failed" }, { status: "pending" }, { new: true })
+      : await WalletEntry.create({
+          passenger: passengerId,
+          type: "topUp",
+          status: "pending",
+          amount,
+          currency: WALLET_CURRENCY,
+          description: "Top-up",
+          provider: provider.name,
+          idempotencyKey,
+        });
+  } catch (error) {
+    // The same key arrived twice at once
+    if ((error as { code?: number }).code !== 11000) throw error;
+    entry = null;
+  }
+  if (!entry) throw new HttpError(409, "This top-up is still being processed");
+  await PassengerAccount.updateOne({ _id: passengerId }, { $addToSet: { pendingTopUps: entry._id } });
+
+  try {
+    const { reference } = await provider.charge({
+      passengerId,
+      amount,
+      currency: WALLET_CURRENCY,
+      paymentMethod,
+      description: "Laal Bus wallet top-up",
+    });
+    entry.reference = reference;
+    await entry.save();
+  } catch (error) {
+    if (error instanceof PaymentDeclinedError) {
+      await PassengerAccount.updateOne({ _id: passengerId }, { $pull: { pendingTopUps: entry._id } });
+      await WalletEntry.updateOne({ _id: entry._id }, { status: "failed" });
+      throw new HttpError(402, error.message);
+    }
+    // Whether the money was taken is unknown, so the entry stays pending
+    // until it is checked against the provider's records
+    throw error;
+  }
+
+  return completeTopUp(entry);
+};
+
+// Finishes top-ups a crash left halfway, on boot. Charged ones are credited;
+// ones that never reached the provider (not on the account's pending list)
+// are marked failed. Anything else needs checking with the provider by hand.
+export const reconcileTopUps = async () => {
+  // Younger ones may still be in flight on another instance
+  const before = new Date(Date.now() - STALE_TOP_UP_MINUTES * 60 * 1000);
+  const entries = await WalletEntry.find({ type: "topUp", status: "pending", createdAt: { $lt: before } });
+
+  let unresolved = 0;
+  for (const entry of entries) {
+    if (entry.reference) {
+      await completeTopUp(entry);
+    } else if (!(await PassengerAccount.exists({ _id: entry.passenger, pendingTopUps: entry._id }))) {
+      await WalletEntry.updateOne({ _id: entry._id, status: "pending" }, { status: "failed" });
+    } else {
+      console.warn(`Top-up ${entry._id} may have been charged; check it with the payment provider`);
+      unresolved++;
+    }
+  }
+  return unresolved;
+};
+
+// The route's own rule, or the network-wide default when it has none
+const findFare = async (routeId: string) =>
+  (await FareRule.findOne({ route: routeId, isActive: true })) ??
+  (await FareRule.findOne({ route: { $exists: false }, isActive: true }));
+
+export const buyTicket = async (passengerId: string, routeId: string) => {
+  if (!isTicketSigningConfigured()) throw new HttpError(503, "Tickets are not set up on this server");
+
+  const [route, fare] = await Promise.all([Route.findOne({ _id: routeId, isActive: true }), findFare(routeId)]);
+  if (!route) throw new HttpError(404, "Route not found");
+  if (!fare) throw new HttpError(404, "No fare is set for this route");
+
+  // Only debits when the balance covers the fare, so two purchases at once
+  // can't overdraw the wallet
+  const account = await PassengerAccount.findOneAndUpdate(
+    { _id: passengerId, walletBalance: { $gte: fare.amount } },
+    { $inc: { walletBalance: -fare.amount } },
+    { new: true }
+  );
+  if (!account) throw new HttpError(402, "Not enough balance, top up your wallet first");
+
+  const validFrom = new Date();
+  const ticket = new Ticket({
+    passenger: passengerId,
+    route: route._id,
+    routeName: route.name,
+    fareRule: fare._id,
+    fareName: fare.name,
+    amount: fare.amount,
+    currency: WALLET_CURRENCY,
+    validFrom,
+    expiresAt: new Date(validFrom.getTime() + fare.validityMinutes * 60 * 1000),
+  });
+
+  try {
+    ticket.code = signTicket({
+      tid: ticket._id.toString(),
+      rid: String(route._id),
+      rn: route.name,
+      amt: fare.amount,
+      cur: WALLET_CURRENCY,
+      iat: Math.floor(validFrom.getTime() / 1000),
+      exp: Math.floor(ticket.expiresAt.getTime() / 1000),
+    });
+    await ticket.save();
+
+    await WalletEntry.create({
+      passenger: passengerId,
+      type: "ticket",
+      amount: -fare.amount,
+      balanceAfter: account.walletBalance,
+      currency: WALLET_CURRENCY,
+      description: `${fare.name}, ${route.name}`,
+      ticket: ticket._id,
+    });
+    return { balance: account.walletBalance, ticket: toTicketPayload(ticket) };
+  } catch (error) {
+    // Give the fare back rather than charge for a ticket that wasn't issued
+    await Ticket.deleteOne({ _id: ticket._id });
+    await PassengerAccount.updateOne({ _id: passengerId }, { $inc: { walletBalance: fare.amount } });
+    throw error;
+  }
+};
+
+export const getTickets = async (passengerId: string) => {
+  const tickets = await Ticket.find({ passenger: passengerId }).sort({ validFrom: -1 }).limit(RECENT_TICKETS);
+  return tickets.map(toTicketPayload);
+};
@@ -0,0 +1,98 @@
+import { Socket } from "socket.io";
+import { isSessionActive, verifyAccessToken } from "../auth/tokens";
+
+// How often a long-lived driver socket re-checks that its session is still valid
+const SESSION_RECHECK_MS = 60 * 1000;
+
+export interface SocketData {
+  isDispatcher?: boolean;
+  driverId?: string;
+  sessionId?: string;
+  sessionCheckedAt?: number;
+}
+
+// Handshake middleware. Passengers connect without credentials; a socket
+// that presents `auth.token` must carry a valid access token. A driver's
+// token binds the socket to that driver for its whole lifetime, a
+// dispatcher's makes it a dispatch console and a passenger's changes
+// nothing about what the socket may do. Scripts may present
+// `auth.adminKey` instead.
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+  const adminKey = socket.handshake.auth?.adminKey;
+  if (adminKey !== undefined && adminKey !== null) {
+    if (!process.env.ADMIN_API_KEY || adminKey !== process.env.ADMIN_API_KEY) {
+      next(new Error("Invalid credentials"));
+      return;
+    }
+    (socket.data as SocketData).isDispatcher = true;
+    next();
+    return;
+  }
+
+  const token = socket.handshake.auth?.token;
+  if (token === undefined || token === null) {
+    next();
+    return;
+  }
+
+  const payload = typeof token === "string" ? verifyAccessToken(token) : null;
+  if (!payload) {
+    next(new Error("Invalid credentials"));
+    return;
+  }
+
+  try {
+    if (!(await isSessionActive(payload.sid))) {
+      next(new Error("Session has ended"));
+      return;
+    }
+  } catch (error) {
+    next(error as Error);
+    return;
+  }
+
+  const data = socket.data as SocketData;
+  if (payload.role === "passenger") {
+    next();
+    return;
+  }
+  if (payload.role === "dispatcher") {
+    data.isDispatcher = true;
+    next();
+    return;
+  }
+  data.driverId = payload.sub;
+  data.sessionId = payload.sid;
+  data.sessionCheckedAt = Date.now();
+  next();
+};
+
+export const getDriverId = (socket: Socket) => (socket.data as SocketData).driverId;
+
+export const isDispatcher = (socket: Socket) => Boolean((socket.data as SocketData).isDispatcher);
+
+// Returns the driver bound to the socket, or null (after telling the client
+// why) when the socket is anonymous or its session was revoked since the
+// handshake.
+export const requireSocketDriver = async (socket: Socket, event: string) => {
+  const data = socket.data as SocketData;
+  if (!data.driverId || !data.sessionId) {
+    socket.emit("eventError", {
+      event,
+      code: "UNAUTHORIZED",
+      message: "Only logged-in drivers can send this event",
+    });
+    return null;
+  }
+
+  if (Date.now() - (data.sessionCheckedAt ?? 0) > SESSION_RECHECK_MS) {
+    if (!(await isSessionActive(data.sessionId))) {
+      socket.emit("eventError", { event, code: "SESSION_ENDED", message: "Session has ended" });
+      socket.disconnect(true);
+      return null;
+    }
+    data.sessionCheckedAt = Date.now();
+  }
+
+  return data.driverId;
+};
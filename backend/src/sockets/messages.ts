@@ -0,0 +1,50 @@
+import { Server, Socket } from "socket.io";
+import { getUndelivered, markMessages, sendMessage } from "../services/messages";
+import { parseSocketPayload } from "../validation/validate";
+import { DriverMessageSchema, MessageReceiptSchema } from "../validation/schemas";
+import { requireSocketDriver } from "./auth";
+
+// Driver side of the dispatch conversation. Dispatch uses the REST API and
+// hears about messages and receipts in the dispatch room.
+export const registerMessageHandlers = (io: Server, socket: Socket) => {
+  socket.on("sendMessage", async (data: unknown) => {
+    try {
+      const driverId = await requireSocketDriver(socket, "sendMessage");
+      if (!driverId) return;
+
+      const parsed = parseSocketPayload(socket, "sendMessage", DriverMessageSchema, data);
+      if (!parsed) return;
+
+      await sendMessage(io, driverId, { from: "driver", ...parsed });
+    } catch (error) {
+      console.error("Error sending message:", error);
+      socket.emit("eventError", { event: "sendMessage", code: "SERVER_ERROR", message: "Message not sent, retrying" });
+    }
+  });
+
+  for (const [event, receipt] of [
+    ["messagesDelivered", "delivered"],
+    ["messagesRead", "read"],
+  ] as const) {
+    socket.on(event, async (data: unknown) => {
+      try {
+        const driverId = await requireSocketDriver(socket, event);
+        if (!driverId) return;
+
+        const parsed = parseSocketPayload(socket, event, MessageReceiptSchema, data);
+        if (!parsed) return;
+
+        await markMessages(io, driverId, "driver", parsed.ids, receipt);
+      } catch (error) {
+        console.error(`Error handling ${event}:`, error);
+        socket.emit("eventError", { event, code: "SERVER_ERROR", message: "Receipt not recorded" });
+      }
+    });
+  }
+};
+
+// Whatever dispatch sent while the driver was offline
+export const deliverQueuedMessages = async (socket: Socket, driverId: string) => {
+  const queued = await getUndelivered(driverId);
+  if (queued.length > 0) socket.emit("messages", queued);
+};
@@ -0,0 +1,57 @@
+import { Socket } from "socket.io";
+import { getDrivers, LiveDriver } from "../services/fleet";
+import { getEmergencies } from "../services/incidents";
+import { getRouteRooms, routeRoom, stopRoom } from "../services/rooms";
+import { parseSocketPayload } from "../validation/validate";
+import { SubscriptionSchema } from "../validation/schemas";
+
+// The live buses a socket should see given the rooms it has joined
+const getVisibleDrivers = async (socket: Socket) => {
+  const visible: { [key: string]: LiveDriver } = {};
+  const emergencies = await getEmergencies();
+  for (const [driverId, live] of Object.entries(await getDrivers())) {
+    const rooms = await getRouteRooms(live.trip.routeId);
+    if (rooms.some((room) => socket.rooms.has(room))) {
+      visible[driverId] = { ...live, emergency: driverId in emergencies };
+    }
+  }
+  return visible;
+};
+
+// Never rejects: it runs inside socket handlers, where an unhandled
+// rejection would take the whole server down
+const sendSnapshot = async (socket: Socket, event: string) => {
+  try {
+    socket.emit("driverLocations", await getVisibleDrivers(socket));
+  } catch (error) {
+    console.error("Error sending live snapshot:", error);
+    socket.emit("eventError", { event, code: "SERVER_ERROR", message: "Could not load live buses" });
+  }
+};
+
+// Passengers pick the routes and stops they care about and only get updates
+// for buses serving them. Every change is answered with a fresh snapshot so
+// the client can simply replace what it shows.
+export const registerSubscriptionHandlers = (socket: Socket) => {
+  socket.on("subscribe", async (data: unknown) => {
+    const parsed = parseSocketPayload(socket, "subscribe", SubscriptionSchema, data);
+    if (!parsed) return;
+
+    socket.join([...(parsed.routes ?? []).map(routeRoom), ...(parsed.stops ?? []).map(stopRoom)]);
+    await sendSnapshot(socket, "subscribe");
+  });
+
+  socket.on("unsubscribe", async (data: unknown) => {
+    const parsed = parseSocketPayload(socket, "unsubscribe", SubscriptionSchema, data);
+    if (!parsed) return;
+
+    for (const room of [...(parsed.routes ?? []).map(routeRoom), ...(parsed.stops ?? []).map(stopRoom)]) {
+      socket.leave(room);
+    }
+    await sendSnapshot(socket, "unsubscribe");
+  });
+
+  socket.on("user-connected", async () => {
+    await sendSnapshot(socket, "user-connected");
+  });
+};
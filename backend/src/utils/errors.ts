@@ -0,0 +1,33 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+
+// Thrown by services for failures the client caused or should be told about
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Maps the errors a router can run into onto the `{ success, message }`
+// response shape the rest of the API uses.
+export const sendError = (res: Response, error: unknown) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ success: false, message: error.message });
+    return;
+  }
+  if (error instanceof mongoose.Error.ValidationError) {
+    res.status(400).json({ success: false, message: error.message });
+    return;
+  }
+  if (error instanceof mongoose.Error.CastError) {
+    res.status(400).json({ success: false, message: `Invalid ${error.path}` });
+    return;
+  }
+  if ((error as { code?: number }).code === 11000) {
+    res.status(409).json({ success: false, message: "Already exists" });
+    return;
+  }
+  console.error(error);
+  res.status(500).json({ success: false, message: "Server error" });
+};
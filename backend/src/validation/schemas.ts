@@ -0,0 +1,352 @@
+import { z } from "zod";
+import { ACCOUNT_ROLES } from "../models/DriverAccount";
+import { JOURNEY_METHODS } from "../models/Journey";
+import { FAVORITE_TYPES } from "../models/PassengerAccount";
+import { ROUTE_MODES } from "../models/Route";
+import { SERVICE_ALERT_SCOPES, SERVICE_ALERT_SEVERITIES } from "../models/ServiceAlert";
+
+// Pings older than this are dropped instead of moving a bus backwards in time
+const MAX_PING_AGE_MS = 10 * 60 * 1000;
+// Allow for phones whose clocks run slightly fast
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+export const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+
+const latitude = z.number().finite().min(-90).max(90);
+const longitude = z.number().finite().min(-180).max(180);
+
+export const ShapePointSchema = z.object({ latitude, longitude }).strict();
+
+export const DriverLocationSchema = z
+  .object({
+    latitude,
+    longitude,
+    // Epoch milliseconds at which the fix was taken
+    timestamp: z
+      .number()
+      .int()
+      .refine((value) => value <= Date.now() + MAX_CLOCK_SKEW_MS, "Timestamp is in the future")
+      .refine((value) => value >= Date.now() - MAX_PING_AGE_MS, "Timestamp is too old"),
+    // Metres
+    accuracy: z.number().finite().nonnegative().max(10000).nullish(),
+    // Metres per second
+    speed: z.number().finite().nonnegative().max(60).nullish(),
+    // Degrees clockwise from true north
+    heading: z.number().finite().min(0).max(360).nullish(),
+  })
+  .strict();
+
+export const DriverDataSchema = z
+  .object({
+    position: DriverLocationSchema,
+  })
+  .strict();
+
+export const LoginSchema = z
+  .object({
+    username: z.string().trim().min(1).max(64),
+    password: z.string().min(1).max(256),
+  })
+  .strict();
+
+export const RefreshSchema = z.object({ refreshToken: z.string().min(1).max(512) }).strict();
+
+const password = z.string().min(8, "Password must be at least 8 characters").max(256);
+
+export const CreateDriverAccountSchema = z
+  .object({
+    username: z.string().trim().min(3).max(64).regex(/^[a-z0-9._-]+$/i, "Invalid username"),
+    name: z.string().trim().min(1).max(100),
+    email: z.string().trim().email().optional(),
+    phone: z.string().trim().max(32).optional(),
+    password,
+    role: z.enum(ACCOUNT_ROLES).default("driver"),
+  })
+  .strict();
+
+export const UpdateDriverAccountSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    email: z.string().trim().email(),
+    phone: z.string().trim().max(32),
+    password,
+    role: z.enum(ACCOUNT_ROLES),
+    isDisabled: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+const email = z.string().trim().toLowerCase().email().max(254);
+
+export const PassengerSignupSchema = z
+  .object({
+    email,
+    name: z.string().trim().min(1).max(100),
+    password,
+  })
+  .strict();
+
+export const PassengerLoginSchema = z
+  .object({
+    email,
+    password: z.string().min(1).max(256),
+  })
+  .strict();
+
+export const UpdatePassengerProfileSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    email: email.optional(),
+    password: password.optional(),
+    // Required to change the email or password
+    currentPassword: z.string().min(1).max(256).optional(),
+  })
+  .strict();
+
+export const PasswordResetRequestSchema = z.object({ email }).strict();
+
+export const PasswordResetSchema = z
+  .object({
+    token: z.string().min(1).max(256),
+    password,
+  })
+  .strict();
+
+export const FavoritesSchema = z
+  .object({
+    favorites: z
+      .array(
+        z
+          .object({
+            type: z.enum(FAVORITE_TYPES),
+            id: objectId,
+            name: z.string().trim().min(1).max(120),
+            color: z.string().max(20).optional(),
+            savedAt: z.coerce.date().optional(),
+          })
+          .strict()
+      )
+      .max(200),
+  })
+  .strict();
+
+export const StopSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    code: z.string().trim().min(1).max(32).optional(),
+    latitude,
+    longitude,
+  })
+  .strict();
+
+export const RouteSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50),
+    description: z.string().trim().max(200).optional(),
+    mode: z.enum(ROUTE_MODES).optional(),
+    color: z
+      .string()
+      .regex(/^#[0-9a-f]{6}$/i, "Color must be a hex value like #dc2626")
+      .optional(),
+    stops: z.array(objectId).max(500).optional(),
+    shape: z.array(ShapePointSchema).max(20000).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .strict();
+
+
+export const VehicleSchema = z
+  .object({
+    fleetNumber: z.string().trim().min(1).max(32),
+    registration: z.string().trim().max(20).optional(),
+    mode: z.enum(ROUTE_MODES).optional(),
+    capacity: z.number().int().positive().max(500).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .strict();
+
+export const StartTripSchema = z
+  .object({
+    routeId: objectId,
+    direction: z.union([z.literal(0), z.literal(1)]),
+    vehicleId: objectId,
+  })
+  .strict();
+
+export const TrackQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .strict();
+
+export const SubscriptionSchema = z
+  .object({
+    routes: z.array(objectId).max(500).optional(),
+    stops: z.array(objectId).max(100).optional(),
+  })
+  .strict();
+
+export const SosSchema = z
+  .object({
+    // Last known fix; may be missing or old when the phone has no GPS
+    position: z
+      .object({ latitude, longitude, accuracy: z.number().finite().nonnegative().nullish() })
+      .strict()
+      .nullable(),
+    message: z.string().trim().max(500).optional(),
+  })
+  .strict();
+
+export const DispatchActionSchema = z
+  .object({
+    // Name of the dispatcher taking the action; only honoured with the admin
+    // key, signed-in dispatchers are recorded under their account name
+    by: z.string().trim().min(1).max(100).optional(),
+  })
+  .strict();
+
+const messageBody = z.string().trim().min(1).max(1000);
+
+export const DriverMessageSchema = z
+  .object({
+    clientId: z.string().uuid(),
+    body: messageBody,
+  })
+  .strict();
+
+export const DispatchMessageSchema = z
+  .object({
+    body: messageBody,
+    // Name of the dispatcher sending it; admin key only, as above
+    by: z.string().trim().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const MessageThreadQuerySchema = z
+  .object({
+    // Page backwards through older messages
+    before: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+  })
+  .strict();
+
+export const MessageReceiptSchema = z
+  .object({
+    ids: z.array(objectId).min(1).max(200),
+  })
+  .strict();
+
+export const ServiceAlertSchema = z
+  .object({
+    scope: z.enum(SERVICE_ALERT_SCOPES),
+    routes: z.array(objectId).max(100).optional(),
+    stops: z.array(objectId).max(100).optional(),
+    severity: z.enum(SERVICE_ALERT_SEVERITIES).optional(),
+    title: z.string().trim().min(1).max(120),
+    message: z.string().trim().max(2000).optional(),
+    startsAt: z.coerce.date().optional(),
+    // null clears the end so the alert runs until deleted
+    endsAt: z.coerce.date().nullable().optional(),
+  })
+  .strict();
+
+// Comma separated ids in a query string, e.g. ?routes=id1,id2
+const idList = z
+  .string()
+  .transform((value) => value.split(",").filter(Boolean))
+  .pipe(z.array(objectId).max(500));
+
+export const ServiceAlertQuerySchema = z
+  .object({
+    // Only alerts for these routes or stops, plus network-wide ones
+    routes: idList.optional(),
+    stops: idList.optional(),
+    // Include alerts that have already ended
+    all: z.enum(["true", "false"]).optional(),
+  })
+  .strict();
+
+// Not strict: browsers also send expirationTime, which is dropped
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(1000),
+  keys: z
+    .object({
+      p256dh: z.string().min(1).max(200),
+      auth: z.string().min(1).max(100),
+    })
+    .strict(),
+});
+
+const alertThresholds = {
+  minutes: z.number().int().min(1).max(60),
+  meters: z.number().int().min(50).max(20000),
+  repeat: z.boolean(),
+};
+
+export const ArrivalAlertSchema = z
+  .object({
+    subscription: PushSubscriptionSchema,
+    stopId: objectId,
+    // Any route serving the stop when left out
+    routeId: objectId.optional(),
+    minutes: alertThresholds.minutes.optional(),
+    meters: alertThresholds.meters.optional(),
+    repeat: alertThresholds.repeat.optional(),
+  })
+  .strict()
+  .refine((alert) => alert.minutes !== undefined || alert.meters !== undefined, "Set minutes, meters or both");
+
+export const UpdateArrivalAlertSchema = z
+  .object({ ...alertThresholds, isActive: z.boolean() })
+  .partial()
+  .strict();
+
+export const CheckInSchema = z
+  .object({
+    tripId: objectId,
+    // "auto" when the app matched the phone's position to the bus
+    method: z.enum(JOURNEY_METHODS).optional(),
+  })
+  .strict();
+
+export const CheckOutSchema = z.object({ method: z.enum(JOURNEY_METHODS).optional() }).strict();
+
+export const JourneyMatchSchema = z
+  .object({ latitude, longitude, accuracy: z.number().finite().nonnegative().nullish() })
+  .strict();
+
+export const JourneyQuerySchema = z
+  .object({
+    // Page backwards through older journeys
+    before: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+// Amounts are whole rupees
+export const FareRuleSchema = z
+  .object({
+    // Network-wide default when left out
+    route: objectId.optional(),
+    name: z.string().trim().min(1).max(60),
+    amount: z.number().int().min(1).max(10000),
+    validityMinutes: z.number().int().min(1).max(7 * 24 * 60),
+    isActive: z.boolean().optional(),
+  })
+  .strict();
+
+export const TopUpSchema = z
+  .object({
+    amount: z.number().int().min(50).max(20000),
+    // One of the ids from GET /wallet/payment-methods
+    paymentMethod: z.string().trim().min(1).max(100),
+    // Chosen by the app and reused when retrying the same top-up
+    idempotencyKey: z.string().uuid(),
+  })
+  .strict();
+
+export const BuyTicketSchema = z.object({ routeId: objectId }).strict();
+
+export type DriverLocation = z.infer<typeof DriverLocationSchema>;
+export type DriverData = z.infer<typeof DriverDataSchema>;
@@ -0,0 +1,62 @@
+import { NextFunction, Request, Response } from "express";
+import { Socket } from "socket.io";
+import { ZodError, ZodTypeAny, z } from "zod";
+
+const toIssues = (error: ZodError) =>
+  error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+// Replaces req.body with the parsed (trimmed, stripped) value or answers 400
+export const validateBody =
+  (schema: ZodTypeAny) => (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid request body",
+        errors: toIssues(result.error),
+      });
+      return;
+    }
+    req.body = result.data;
+    next();
+  };
+
+// Same as validateBody for query strings; parsed values land in res.locals.query
+export const validateQuery =
+  (schema: ZodTypeAny) => (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid query parameters",
+        errors: toIssues(result.error),
+      });
+      return;
+    }
+    res.locals.query = result.data;
+    next();
+  };
+
+// Parses an inbound socket payload. On failure the sender gets an
+// `eventError` describing what was wrong and null is returned.
+export const parseSocketPayload = <T extends ZodTypeAny>(
+  socket: Socket,
+  event: string,
+  schema: T,
+  data: unknown
+): z.infer<T> | null => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    socket.emit("eventError", {
+      event,
+      code: "INVALID_PAYLOAD",
+      message: `Invalid ${event} payload`,
+      errors: toIssues(result.error),
+    });
+    return null;
+  }
+  return result.data;
+};
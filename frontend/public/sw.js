@@ -0,0 +1,28 @@
+// Service worker for arrival alerts. Kept to push handling only, so it never
+// gets between the app and the network.
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+  const { title, body, url, tag } = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      icon: "/busfavicon.png",
+      badge: "/busfavicon.png",
+      data: { url: url || "/" },
+    })
+  );
+});
+
+// Focus a tab that is already open on the page, otherwise open one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
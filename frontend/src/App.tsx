@@ -7,18 +7,26 @@ import DriverLoginPage from "./components/DriverLoginPage";
 import Footer from "./components/footer";
 import { SettingsProvider } from "./components/contexts/SettingsContext"; // Import SettingsProvider
 import SettingsPage from "./components/SettingsPage";
+import DispatchView from "./components/DispatchView";
+import TrackView from "./components/TrackView";
+import ResetPasswordPage from "./components/ResetPasswordPage";
+import TravelHistory from "./components/TravelHistory";
+import WalletPage from "./components/WalletPage";
+import TicketVerifier from "./components/TicketVerifier";
+import { DriverAuthProvider, useDriverAuth } from "./components/contexts/DriverAuthContext";
+import { DISPATCH_SESSION_KEY } from "./services/auth";
 
 type Role = "none" | "driver" | "user";
 
 const App: React.FC = () => {
   const [role, setRole] = useState<Role>("none");
-  const [isDriverAuthenticated, setIsDriverAuthenticated] = useState(false);
+  const { driver, logout } = useDriverAuth();
 
   const DriverAuthWrapper: React.FC = () => {
-    if (!isDriverAuthenticated) {
+    if (!driver) {
       return (
         <DriverLoginPage
-          onSuccessfulLogin={() => setIsDriverAuthenticated(true)}
+          onSuccessfulLogin={() => setRole("driver")}
           onCancel={() => setRole("none")}
         />
       );
@@ -26,8 +34,8 @@ const App: React.FC = () => {
     return (
       <SettingsProvider>
         <DriverView
-          onLogout={() => {
-            setIsDriverAuthenticated(false);
+          onLogout={async () => {
+            await logout();
             setRole("none");
           }}
         />
@@ -42,18 +50,43 @@ const App: React.FC = () => {
           {/* Landing Page */}
           <Route path="/" element={<LandingPage setRole={setRole} />} />
           {/* driverlogin */}
-          <Route path="/driverlogin" element={<DriverLoginPage onSuccessfulLogin={() => setIsDriverAuthenticated(true)} onCancel={() => setRole("none")} />} />
+          <Route path="/driverlogin" element={<DriverLoginPage onSuccessfulLogin={() => setRole("driver")} onCancel={() => setRole("none")} />} />
           {/* Driver View */}
           <Route
             path="/driverview"
-            element={role === "driver" ? <DriverAuthWrapper /> : <Navigate to="/" />}
+            element={role === "driver" || driver ? <DriverAuthWrapper /> : <Navigate to="/" />}
           />
 
           {/* User View */}
           <Route path="/userview" element={role === "user" ? <UserView /> : <Navigate to="/" />} />
           
+          {/* Shared live-tracking links open straight into one bus, no role needed */}
+          <Route path="/track/:tripId" element={<TrackView />} />
+
+          {/* Passenger password reset, opened from the emailed link */}
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+
+          {/* Passenger journeys, from checking in and out of buses */}
+          <Route path="/history" element={<TravelHistory />} />
+
+          {/* Fare wallet and QR tickets */}
+          <Route path="/wallet" element={<WalletPage />} />
+
+          {/* Inspectors check a ticket's QR code here, offline once the key is saved */}
+          <Route path="/verify-ticket" element={<TicketVerifier />} />
+
           {/* Settings Page */}
           <Route path="/settings" element={<SettingsPage />} />
+
+          {/* Dispatch console, signed in with a dispatcher account of its own */}
+          <Route
+            path="/dispatch"
+            element={
+              <DriverAuthProvider storageKey={DISPATCH_SESSION_KEY} role="dispatcher">
+                <DispatchView />
+              </DriverAuthProvider>
+            }
+          />
         </Routes>
         <Footer />
       </div>
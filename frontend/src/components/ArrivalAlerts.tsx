@@ -0,0 +1,222 @@
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { BellOff, BellRing, Loader2, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useRoutes } from "@/hooks/useRoutes"
+import { useFavorites } from "@/hooks/useFavorites"
+import { usePassengerAuth } from "./contexts/PassengerAuthContext"
+import {
+  createArrivalAlert,
+  deleteArrivalAlert,
+  describeAlertThreshold,
+  fetchArrivalAlerts,
+  getPushSubscription,
+  isPushSupported,
+  updateArrivalAlert,
+  type ArrivalAlert,
+} from "@/services/push"
+import type { Stop } from "@/services/routes"
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+// Arm and manage "bus is near my stop" notifications, delivered by Web Push
+// so they arrive with the tab closed
+const ArrivalAlerts: React.FC = () => {
+  const { routes } = useRoutes()
+  const { favorites } = useFavorites()
+  const { passenger, authFetch } = usePassengerAuth()
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null)
+  const [alerts, setAlerts] = useState<ArrivalAlert[]>([])
+  const [stopId, setStopId] = useState("")
+  const [routeId, setRouteId] = useState("")
+  const [minutes, setMinutes] = useState("5")
+  const [kilometres, setKilometres] = useState("")
+  const [repeat, setRepeat] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Signed in, alerts armed on the passenger's other devices are listed too
+  const passengerId = passenger?.id
+  useEffect(() => {
+    getPushSubscription()
+      .then(async (existing) => {
+        setSubscription(existing)
+        setAlerts(existing || passengerId ? await fetchArrivalAlerts(authFetch, existing) : [])
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load your alerts"))
+  }, [passengerId, authFetch])
+
+  // Saved stops first, then every other stop by name
+  const stops = useMemo(() => {
+    const byId = new Map<string, Stop>()
+    for (const route of routes) for (const stop of route.stops) byId.set(stop._id, stop)
+    const saved = favorites.filter((favorite) => favorite.type === "stop" && byId.has(favorite.id))
+    const savedIds = saved.map((favorite) => favorite.id)
+    return {
+      saved: saved.map((favorite) => byId.get(favorite.id)!),
+      others: [...byId.values()].filter((stop) => !savedIds.includes(stop._id)).sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  }, [routes, favorites])
+  const stopRoutes = routes.filter((route) => route.stops.some((stop) => stop._id === stopId))
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+    try {
+      const current = subscription ?? (await getPushSubscription(true))
+      if (!current) throw new Error("This browser can't show notifications")
+      setSubscription(current)
+      const alert = await createArrivalAlert(authFetch, current, {
+        stopId,
+        routeId: routeId || undefined,
+        minutes: minutes ? Number(minutes) : undefined,
+        meters: kilometres ? Math.round(Number(kilometres) * 1000) : undefined,
+        repeat,
+      })
+      setAlerts((prev) => [...prev, alert])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to arm the alert")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggle = async (alert: ArrivalAlert) => {
+    try {
+      const updated = await updateArrivalAlert(authFetch, subscription, alert.id, { isActive: !alert.isActive })
+      setAlerts((prev) => prev.map((other) => (other.id === updated.id ? updated : other)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update the alert")
+    }
+  }
+
+  const handleDelete = async (alert: ArrivalAlert) => {
+    try {
+      await deleteArrivalAlert(authFetch, subscription, alert.id)
+      setAlerts((prev) => prev.filter((other) => other.id !== alert.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete the alert")
+    }
+  }
+
+  if (!isPushSupported()) {
+    return (
+      <Card className="p-4 text-sm text-muted-foreground">
+        This browser can't receive notifications. Try Chrome, Edge or Firefox, or add Laal Bus to your home screen.
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {alerts.map((alert) => (
+        <Card key={alert.id} className="flex items-center justify-between gap-3 p-4">
+          <div>
+            <h3 className="font-medium">
+              {alert.routeName ?? "Any route"} at {alert.stopName ?? "your stop"}
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              {describeAlertThreshold(alert)} · {alert.repeat ? "every bus" : "next bus only"}
+              {!alert.isActive && (alert.lastNotifiedAt ? " · sent" : " · paused")}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              title={alert.isActive ? "Pause" : "Turn back on"}
+              onClick={() => handleToggle(alert)}
+            >
+              {alert.isActive ? <BellRing className="w-4 h-4 text-red-600" /> : <BellOff className="w-4 h-4" />}
+            </Button>
+            <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(alert)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </Card>
+      ))}
+
+      <Card className="p-4">
+        <form onSubmit={handleCreate} className="space-y-3">
+          <h3 className="font-medium">Notify me when a bus is close</h3>
+          <select
+            value={stopId}
+            onChange={(e) => {
+              setStopId(e.target.value)
+              setRouteId("")
+            }}
+            required
+            className={selectClassName}
+          >
+            <option value="">Choose a stop</option>
+            {stops.saved.length > 0 && (
+              <optgroup label="Saved stops">
+                {stops.saved.map((stop) => (
+                  <option key={stop._id} value={stop._id}>
+                    {stop.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="All stops">
+              {stops.others.map((stop) => (
+                <option key={stop._id} value={stop._id}>
+                  {stop.name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+          <select value={routeId} onChange={(e) => setRouteId(e.target.value)} className={selectClassName}>
+            <option value="">Any route</option>
+            {stopRoutes.map((route) => (
+              <option key={route._id} value={route._id}>
+                {route.name} {route.description}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={1}
+              max={60}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              className="w-20"
+            />
+            <span>min or</span>
+            <Input
+              type="number"
+              min={0.05}
+              max={20}
+              step={0.05}
+              value={kilometres}
+              onChange={(e) => setKilometres(e.target.value)}
+              placeholder="–"
+              className="w-20"
+            />
+            <span>km away</span>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+            Every bus, not just the next one
+          </label>
+          <Button
+            type="submit"
+            disabled={isSaving || !stopId || (!minutes && !kilometres)}
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Arm alert"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  )
+}
+
+export default ArrivalAlerts
@@ -0,0 +1,34 @@
+import type React from "react"
+import { motion } from "framer-motion"
+import { Bus } from "lucide-react"
+import type { BusArrival } from "@/services/stopEvents"
+
+interface BusAtStopBannerProps {
+  arrivals: BusArrival[]
+}
+
+// Shown while one or more buses are standing at the stop the passenger is watching
+const BusAtStopBanner: React.FC<BusAtStopBannerProps> = ({ arrivals }) => {
+  return (
+    <motion.div
+      initial={{ y: -20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: -20, opacity: 0 }}
+      className="absolute z-50 top-24 left-1/2 -translate-x-1/2 w-80 p-3 bg-green-600/90 backdrop-blur-xl border border-white/20 shadow-2xl rounded-lg text-white"
+    >
+      {arrivals.map((arrival) => (
+        <div key={arrival.driverId} className="flex items-center gap-3">
+          <Bus className="w-5 h-5 shrink-0" />
+          <p className="text-sm">
+            <span className="font-semibold">
+              {arrival.routeName} towards {arrival.headsign}
+            </span>{" "}
+            is at {arrival.stopName} now
+          </p>
+        </div>
+      ))}
+    </motion.div>
+  )
+}
+
+export default BusAtStopBanner
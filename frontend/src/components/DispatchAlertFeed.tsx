@@ -0,0 +1,126 @@
+import type React from "react"
+import { AlertTriangle, CheckCircle2, MapPinOff, WifiOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Incident } from "@/services/incidents"
+import { describeTripAlert, type FleetBus, type TripAlert } from "@/services/fleet"
+import { formatLastSeen } from "@/services/tracking"
+
+interface DispatchAlertFeedProps {
+  incidents: Incident[]
+  tripAlerts: TripAlert[]
+  staleBuses: FleetBus[]
+  now: number
+  onIncidentAction: (incident: Incident, action: "acknowledge" | "resolve") => void
+  onSelect: (driverId: string) => void
+}
+
+const osmLink = (latitude: number, longitude: number) =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`
+
+// Everything that needs a dispatcher: SOS first, then trip alerts, then buses that went quiet
+const DispatchAlertFeed: React.FC<DispatchAlertFeedProps> = ({
+  incidents,
+  tripAlerts,
+  staleBuses,
+  now,
+  onIncidentAction,
+  onSelect,
+}) => {
+  if (incidents.length === 0 && tripAlerts.length === 0 && staleBuses.length === 0) {
+    return <p className="text-gray-400">All clear.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {incidents.map((incident) => (
+        <div
+          key={incident.id}
+          onClick={() => onSelect(incident.driverId)}
+          className={`p-3 rounded-lg border cursor-pointer ${
+            incident.status === "open" ? "bg-red-900/40 border-red-500 animate-pulse" : "bg-white/5 border-white/10"
+          }`}
+        >
+          <p className="flex items-center gap-2 font-semibold">
+            <AlertTriangle className="w-4 h-4 text-red-500 shrink-0" />
+            SOS · {incident.driverName ?? "Driver"}
+            {incident.vehicleLabel && <span className="text-gray-400">· Bus {incident.vehicleLabel}</span>}
+          </p>
+          {incident.message && <p className="mt-1 text-sm">{incident.message}</p>}
+          <p className="mt-1 text-xs text-gray-400">
+            Raised {new Date(incident.raisedAt).toLocaleTimeString()}
+            {incident.routeName && <> on {incident.routeName}</>}
+            {incident.latitude !== undefined && incident.longitude !== undefined && (
+              <>
+                {" "}
+                at{" "}
+                <a
+                  href={osmLink(incident.latitude, incident.longitude)}
+                  target="_blank"
+                  rel="noreferrer"
+                  onClick={(e) => e.stopPropagation()}
+                  className="underline"
+                >
+                  {incident.latitude.toFixed(5)}, {incident.longitude.toFixed(5)}
+                </a>
+              </>
+            )}
+            {incident.acknowledgedBy && <> · acknowledged by {incident.acknowledgedBy}</>}
+          </p>
+          <div className="flex gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+            {incident.status === "open" && (
+              <Button
+                size="sm"
+                className="bg-orange-600 hover:bg-orange-700 text-white"
+                onClick={() => onIncidentAction(incident, "acknowledge")}
+              >
+                Acknowledge
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              className="bg-transparent text-white"
+              onClick={() => onIncidentAction(incident, "resolve")}
+            >
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              Resolve
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {tripAlerts.map((alert) => (
+        <div
+          key={alert.id}
+          onClick={() => onSelect(alert.driverId)}
+          className="p-3 rounded-lg border border-orange-500/60 bg-orange-900/20 cursor-pointer"
+        >
+          <p className="flex items-center gap-2 font-semibold">
+            <MapPinOff className="w-4 h-4 text-orange-400 shrink-0" />
+            Bus {alert.vehicleLabel} · {alert.routeName}
+          </p>
+          <p className="mt-1 text-sm">{describeTripAlert(alert)}</p>
+          <p className="mt-1 text-xs text-gray-400">Since {new Date(alert.raisedAt).toLocaleTimeString()}</p>
+        </div>
+      ))}
+
+      {staleBuses.map((bus) => (
+        <div
+          key={bus.id}
+          onClick={() => onSelect(bus.id)}
+          className="p-3 rounded-lg border border-white/10 bg-white/5 cursor-pointer"
+        >
+          <p className="flex items-center gap-2 font-semibold">
+            <WifiOff className="w-4 h-4 text-gray-400 shrink-0" />
+            Bus {bus.trip.vehicleLabel} · {bus.trip.routeName}
+          </p>
+          <p className="mt-1 text-sm text-gray-400">
+            {bus.driverName ?? "Driver"}'s app went quiet. {formatLastSeen(bus.lastSeenAt, now)}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default DispatchAlertFeed
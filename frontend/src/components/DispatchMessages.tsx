@@ -0,0 +1,189 @@
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { ArrowLeft, Check, CheckCheck, Send } from "lucide-react"
+import type { Socket } from "socket.io-client"
+import {
+  applyReceipt,
+  fetchThread,
+  fetchThreads,
+  markThreadRead,
+  mergeMessages,
+  sendDispatchMessage,
+  type Message,
+  type MessageReceipt,
+  type MessageThread,
+} from "@/services/messages"
+
+interface DispatchMessagesProps {
+  authFetch: (path: string, init?: RequestInit) => Promise<Response>
+  socket: Socket | null
+  // Opens this driver's thread, e.g. from a "message driver" action elsewhere
+  driverId?: string | null
+  onDriverChange?: (driverId: string | null) => void
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+// Dispatch inbox: one thread per driver, newest activity first
+const DispatchMessages: React.FC<DispatchMessagesProps> = ({
+  authFetch,
+  socket,
+  driverId: requestedDriverId,
+  onDriverChange,
+}) => {
+  const [threads, setThreads] = useState<MessageThread[]>([])
+  const [activeDriverId, setActiveDriverId] = useState<string | null>(requestedDriverId ?? null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [draft, setDraft] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (requestedDriverId !== undefined) setActiveDriverId(requestedDriverId)
+  }, [requestedDriverId])
+
+  const openThread = (driverId: string | null) => {
+    setActiveDriverId(driverId)
+    onDriverChange?.(driverId)
+  }
+
+  const loadThreads = useCallback(() => {
+    fetchThreads(authFetch)
+      .then(setThreads)
+      .catch((err) => console.error("Error fetching message threads:", err))
+  }, [authFetch])
+
+  useEffect(loadThreads, [loadThreads])
+
+  useEffect(() => {
+    if (!activeDriverId) return
+    setMessages([])
+    fetchThread(authFetch, activeDriverId)
+      .then(setMessages)
+      .then(() => markThreadRead(authFetch, activeDriverId))
+      .then(loadThreads)
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load messages"))
+  }, [authFetch, activeDriverId, loadThreads])
+
+  useEffect(() => {
+    if (!socket) return
+
+    const onMessage = (message: Message) => {
+      if (message.driverId === activeDriverId) {
+        setMessages((current) => mergeMessages(current, [message]))
+        if (message.from === "driver") markThreadRead(authFetch, message.driverId).catch(() => undefined)
+      }
+      loadThreads()
+    }
+    const onReceipt = (receipt: MessageReceipt) => {
+      if (receipt.driverId === activeDriverId) setMessages((current) => applyReceipt(current, receipt))
+    }
+
+    socket.on("message", onMessage)
+    socket.on("messageReceipt", onReceipt)
+    return () => {
+      socket.off("message", onMessage)
+      socket.off("messageReceipt", onReceipt)
+    }
+  }, [socket, authFetch, activeDriverId, loadThreads])
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!activeDriverId || !draft.trim()) return
+    try {
+      const message = await sendDispatchMessage(authFetch, activeDriverId, draft.trim())
+      setMessages((current) => mergeMessages(current, [message]))
+      setDraft("")
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Message not sent")
+    }
+  }
+
+  if (!activeDriverId) {
+    return (
+      <div className="space-y-2">
+        {threads.length === 0 ? (
+          <p className="text-gray-400">No conversations yet.</p>
+        ) : (
+          threads.map((thread) => (
+            <button
+              key={thread.driverId}
+              onClick={() => openThread(thread.driverId)}
+              className="w-full flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 hover:bg-white/10 text-left transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="font-semibold">{thread.driverName ?? "Driver"}</p>
+                <p className="text-sm text-gray-400 truncate">
+                  {thread.lastFrom === "dispatch" && "You: "}
+                  {thread.lastMessage}
+                </p>
+              </div>
+              <div className="flex flex-col items-end gap-1 shrink-0">
+                <span className="text-xs text-gray-400">{formatTime(thread.lastAt)}</span>
+                {thread.unread > 0 && (
+                  <span className="min-w-5 h-5 px-1 rounded-full bg-red-600 text-xs leading-5 text-center">
+                    {thread.unread}
+                  </span>
+                )}
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+    )
+  }
+
+  const activeThread = threads.find((thread) => thread.driverId === activeDriverId)
+
+  return (
+    <div className="flex flex-col h-[28rem] rounded-lg bg-white/5 border border-white/10">
+      <div className="flex items-center gap-2 p-3 border-b border-white/10">
+        <button onClick={() => openThread(null)} className="p-1 hover:bg-white/10 rounded-full">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <p className="font-semibold">{activeThread?.driverName ?? "Driver"}</p>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-3 space-y-2">
+        {messages.map((message) => (
+          <div key={message.id} className={`flex ${message.from === "dispatch" ? "justify-end" : "justify-start"}`}>
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                message.from === "dispatch" ? "bg-blue-700" : "bg-white/10"
+              }`}
+            >
+              <p>{message.body}</p>
+              <p className="flex items-center justify-end gap-1 mt-1 text-[10px] text-gray-300">
+                {formatTime(message.sentAt)}
+                {message.from === "dispatch" &&
+                  (message.readAt ? (
+                    <CheckCheck className="w-3 h-3 text-blue-300" />
+                  ) : message.deliveredAt ? (
+                    <CheckCheck className="w-3 h-3" />
+                  ) : (
+                    <Check className="w-3 h-3" />
+                  ))}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="px-3 text-sm text-red-400">{error}</p>}
+      <form onSubmit={handleSend} className="flex gap-2 p-3 border-t border-white/10">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={1000}
+          placeholder="Message driver"
+          className="flex-grow rounded-md border border-white/10 bg-gray-800 px-3 py-2 text-sm focus:outline-none"
+        />
+        <button type="submit" className="p-2 rounded-md bg-blue-600 hover:bg-blue-700 transition-colors">
+          <Send className="w-5 h-5" />
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default DispatchMessages
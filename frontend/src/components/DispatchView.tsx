@@ -0,0 +1,284 @@
+import type React from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Loader2, LogOut } from "lucide-react"
+import io, { type Socket } from "socket.io-client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useAlarm } from "@/hooks/useAlarm"
+import { useRoutes } from "@/hooks/useRoutes"
+import { useDriverAuth } from "./contexts/DriverAuthContext"
+import DispatchMessages from "./DispatchMessages"
+import DispatchAlertFeed from "./DispatchAlertFeed"
+import FleetMap from "./FleetMap"
+import FleetTable from "./FleetTable"
+import { acknowledgeIncident, resolveIncident, type Incident } from "@/services/incidents"
+import { endDriverTrip, fetchFleet, getBusStatus, type FleetBus, type TripAlert } from "@/services/fleet"
+import type { DriverPosition, DriverPresence } from "@/services/tracking"
+import type { TripContext } from "@/services/trips"
+
+// How often ping ages in the table are refreshed
+const CLOCK_TICK_MS = 1000
+
+// Dispatch console: every bus on the road, what needs attention, and a line
+// to each driver. Open SOS calls sound an alarm until acknowledged.
+const DispatchView: React.FC = () => {
+  const { driver: dispatcher, login, logout, getAccessToken, authFetch } = useDriverAuth()
+  const { routes } = useRoutes()
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [buses, setBuses] = useState<Record<string, FleetBus>>({})
+  const [tripAlerts, setTripAlerts] = useState<Record<string, TripAlert>>({})
+  const [incidents, setIncidents] = useState<Record<string, Incident>>({})
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [messageDriverId, setMessageDriverId] = useState<string | null>(null)
+  const [socket, setSocket] = useState<Socket | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const busesRef = useRef(buses)
+  busesRef.current = buses
+  const dispatcherId = dispatcher?.id
+
+  const loadFleet = useCallback(() => {
+    fetchFleet(authFetch)
+      .then((fleet) => setBuses(Object.fromEntries(fleet.map((bus) => [bus.id, bus]))))
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load the fleet"))
+  }, [authFetch])
+
+  useEffect(() => {
+    if (!dispatcherId) return
+    setIsConnecting(true)
+
+    const socket = io(import.meta.env.VITE_BACKEND_URL, {
+      // Called on every (re)connect so the handshake always carries a fresh token
+      auth: (cb) => {
+        getAccessToken()
+          .then((token) => cb({ token }))
+          .catch(() => cb({ token: null }))
+      },
+    })
+    setSocket(socket)
+
+    // Reloaded on every reconnect, events missed while offline aren't replayed
+    socket.on("connect", () => {
+      setIsConnecting(false)
+      setError(null)
+      loadFleet()
+    })
+
+    socket.on("connect_error", async (err: Error) => {
+      setIsConnecting(false)
+      if (err.message === "Invalid credentials" || err.message === "Session has ended") {
+        const token = await getAccessToken().catch(() => null)
+        if (!token) logout()
+      }
+    })
+
+    socket.on("driverLocationUpdate", (update: { id: string; position: DriverPosition; trip: TripContext }) => {
+      // A bus that just started its trip; the fleet list has its driver's name
+      if (!busesRef.current[update.id]) loadFleet()
+      setBuses((prev) => ({
+        ...prev,
+        [update.id]: { ...prev[update.id], ...update, lastSeenAt: new Date().toISOString(), stale: false },
+      }))
+    })
+
+    socket.on("driverPresence", (presence: DriverPresence) => {
+      setBuses((prev) =>
+        prev[presence.id] ? { ...prev, [presence.id]: { ...prev[presence.id], ...presence } } : prev
+      )
+    })
+
+    socket.on("driverEmergency", ({ id, active }: { id: string; active: boolean }) => {
+      setBuses((prev) => (prev[id] ? { ...prev, [id]: { ...prev[id], emergency: active } } : prev))
+    })
+
+    socket.on("driverCheck", (driverId: string) => {
+      setBuses((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== driverId)))
+      setTripAlerts((prev) =>
+        Object.fromEntries(Object.entries(prev).filter(([, alert]) => alert.driverId !== driverId))
+      )
+    })
+
+    socket.on("tripAlerts", (open: TripAlert[]) => {
+      setTripAlerts(Object.fromEntries(open.map((alert) => [alert.id, alert])))
+    })
+
+    socket.on("tripAlert", (alert: TripAlert) => {
+      setTripAlerts((prev) => ({ ...prev, [alert.id]: alert }))
+    })
+
+    socket.on("tripAlertResolved", (alert: TripAlert) => {
+      setTripAlerts((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== alert.id)))
+    })
+
+    socket.on("sosIncidents", (open: Incident[]) => {
+      setIncidents(Object.fromEntries(open.map((incident) => [incident.id, incident])))
+    })
+
+    socket.on("sosUpdate", (incident: Incident) => {
+      setIncidents((prev) => ({ ...prev, [incident.id]: incident }))
+    })
+
+    return () => {
+      socket.disconnect()
+      setSocket(null)
+    }
+  }, [dispatcherId, getAccessToken, loadFleet, logout])
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  const busList = Object.values(buses)
+  const alertList = Object.values(tripAlerts).sort((a, b) => b.raisedAt.localeCompare(a.raisedAt))
+  const statuses = useMemo(
+    () => Object.fromEntries(Object.values(buses).map((bus) => [bus.id, getBusStatus(bus, Object.values(tripAlerts))])),
+    [buses, tripAlerts]
+  )
+  const openIncidents = Object.values(incidents)
+    .filter((incident) => incident.status !== "resolved")
+    .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt))
+  useAlarm(openIncidents.some((incident) => incident.status === "open"))
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSigningIn(true)
+    setError(null)
+    try {
+      await login(username, password)
+      setPassword("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed")
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await logout()
+    setBuses({})
+    setTripAlerts({})
+    setIncidents({})
+  }
+
+  const handleIncidentAction = async (incident: Incident, action: "acknowledge" | "resolve") => {
+    try {
+      const update = action === "acknowledge" ? acknowledgeIncident : resolveIncident
+      const updated = await update(authFetch, incident.id)
+      setIncidents((prev) => ({ ...prev, [updated.id]: updated }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Action failed")
+    }
+  }
+
+  const handleEndTrip = async (bus: FleetBus) => {
+    if (!window.confirm(`End the trip of bus ${bus.trip.vehicleLabel} (${bus.driverName ?? "driver"})?`)) return
+    try {
+      await endDriverTrip(authFetch, bus.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to end the trip")
+    }
+  }
+
+  if (!dispatcher) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 p-4">
+        <form
+          onSubmit={handleSignIn}
+          className="w-full max-w-sm space-y-4 p-6 bg-black/30 backdrop-blur-xl border border-white/10 rounded-lg text-white"
+        >
+          <h2 className="text-3xl font-bold font-agharti text-center">DISPATCH</h2>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            className="bg-gray-800 border-white/10 text-white"
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            className="bg-gray-800 border-white/10 text-white"
+          />
+          <Button type="submit" disabled={isSigningIn} className="w-full bg-red-600 hover:bg-red-700 text-white">
+            {isSigningIn ? <Loader2 className="w-4 h-4 animate-spin" /> : "Open console"}
+          </Button>
+        </form>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="flex items-center justify-between p-4 bg-black/30 backdrop-blur-xl border-b border-white/10">
+        <h2 className="text-3xl sm:text-5xl font-bold font-agharti">DISPATCH</h2>
+        <div className="flex items-center gap-4 text-sm text-gray-400">
+          {isConnecting && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>{dispatcher.name}</span>
+          <button onClick={handleSignOut} className="flex items-center gap-2 hover:text-white">
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-600/80 text-sm text-center px-4 py-2">{error}</div>}
+
+      <div className="grid gap-4 p-4 lg:grid-cols-3">
+        <div className="lg:col-span-2 h-[28rem] rounded-lg overflow-hidden border border-white/10">
+          <FleetMap
+            routes={routes}
+            buses={busList}
+            statuses={statuses}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+          />
+        </div>
+
+        <div className="space-y-3 lg:h-[28rem] lg:overflow-y-auto">
+          <h3 className="text-lg font-semibold">Alerts</h3>
+          <DispatchAlertFeed
+            incidents={openIncidents}
+            tripAlerts={alertList}
+            staleBuses={busList.filter((bus) => bus.stale)}
+            now={now}
+            onIncidentAction={handleIncidentAction}
+            onSelect={setSelectedId}
+          />
+        </div>
+
+        <div className="lg:col-span-2 space-y-3">
+          <h3 className="text-lg font-semibold">Fleet · {busList.length} on the road</h3>
+          <FleetTable
+            buses={busList}
+            statuses={statuses}
+            now={now}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            onMessage={setMessageDriverId}
+            onEndTrip={handleEndTrip}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Messages</h3>
+          <DispatchMessages
+            authFetch={authFetch}
+            socket={socket}
+            driverId={messageDriverId}
+            onDriverChange={setMessageDriverId}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DispatchView
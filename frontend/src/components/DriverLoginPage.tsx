@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { User, LockIcon, Loader2 } from 'lucide-react';
-import io from 'socket.io-client';
+import { useDriverAuth } from './contexts/DriverAuthContext';
 
 interface DriverLoginPageProps {
   onSuccessfulLogin: () => void;
@@ -10,10 +10,12 @@ interface DriverLoginPageProps {
 }
 
 const DriverLoginPage: React.FC<DriverLoginPageProps> = ({ onSuccessfulLogin, onCancel }) => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const { login } = useDriverAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,28 +23,12 @@ const DriverLoginPage: React.FC<DriverLoginPageProps> = ({ onSuccessfulLogin, on
     setError('');
     
     try {
-      const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/driver/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ password }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        const socket = io(import.meta.env.VITE_BACKEND_URL);
-        socket.emit('driver-login');
-        onSuccessfulLogin();
-        //navigate to driverview after succesfull login
-        navigate('/driverview');
-
-      } else {
-        setError(data.message || 'Login failed');
-      }
+      await login(username, password);
+      onSuccessfulLogin();
+      //navigate to driverview after succesfull login
+      navigate('/driverview');
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -98,14 +84,35 @@ const DriverLoginPage: React.FC<DriverLoginPageProps> = ({ onSuccessfulLogin, on
           onSubmit={handleSubmit} 
           className="space-y-4 sm:space-y-6"
         >
+          <div>
+            <label htmlFor="username" className="block text-sm text-gray-400 mb-1 sm:mb-2 font-medium">
+              Username
+            </label>
+            <div className="relative group">
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Enter your username"
+                className="w-full bg-gray-900/50 border-2 border-white/10 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-sm sm:text-base text-white placeholder:text-gray-500 focus:outline-none focus:border-pink-500/50 focus:ring-2 focus:ring-pink-500/20 transition-all duration-300"
+                required
+                disabled={isLoading}
+              />
+              <User className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 w-4 h-4 sm:w-5 sm:h-5 group-focus-within:text-pink-500 transition-colors duration-300" />
+            </div>
+          </div>
+
           <div>
             <label htmlFor="password" className="block text-sm text-gray-400 mb-1 sm:mb-2 font-medium">
-              secret123
+              Password
             </label>
             <div className="relative group">
               <input
                 id="password"
                 type="password"
+                autoComplete="current-password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 placeholder="Enter your password"
@@ -11,6 +11,23 @@ import io from "socket.io-client"
 import { Button } from "@/components/ui/button"
 import { useSettings } from "./contexts/SettingsContext"
 import { useNavigate } from "react-router-dom"
+import RouteLayers from "./RouteLayers"
+import { useRoutes } from "@/hooks/useRoutes"
+import { useDriverAuth } from "./contexts/DriverAuthContext"
+import { toDriverPosition, type DriverPosition, type SocketEventError } from "@/services/tracking"
+import { describeTrip, endTrip, fetchCurrentTrip, startTrip, type Direction, type TripContext } from "@/services/trips"
+import StartTripPanel from "./StartTripPanel"
+import SosDialog from "./SosDialog"
+import MessagesPanel from "./MessagesPanel"
+import { useDriverMessages } from "@/hooks/useDriverMessages"
+import { describeIncidentStatus, type Incident, type SosRequest } from "@/services/incidents"
+
+// Well inside the server's heartbeat timeout
+const HEARTBEAT_INTERVAL_MS = 10 * 1000
+// Above walking pace (m/s) the bus counts as moving and replies are locked
+const MOVING_SPEED_MPS = 2
+// Pause before reconnecting after the server refused or closed the socket
+const RECONNECT_DELAY_MS = 1000
 
 interface DriverViewProps {
   onLogout: () => void
@@ -18,24 +35,114 @@ interface DriverViewProps {
 
 const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
   const [position, setPosition] = useState<LatLngExpression | null>(null)
+  const [fix, setFix] = useState<DriverPosition | null>(null)
+  const [socketError, setSocketError] = useState<string | null>(null)
+  const [trip, setTrip] = useState<TripContext | null>(null)
+  const [isTripLoading, setIsTripLoading] = useState(true)
   const [isLoading, setIsLoading] = useState(true)
   const [showProfile, setShowProfile] = useState(false)
+  const [showSosDialog, setShowSosDialog] = useState(false)
+  const [incident, setIncident] = useState<Incident | null>(null)
+  const [showMessages, setShowMessages] = useState(false)
   const { openSettings, closeSettings } = useSettings()
+  const { routes } = useRoutes()
+  const { driver, getAccessToken, refreshAccessToken, authFetch } = useDriverAuth()
   const socketRef = useRef<any>(null)
+  // The parent passes a new callback on every render; the socket is set up once
+  const onLogoutRef = useRef(onLogout)
+  onLogoutRef.current = onLogout
+  const fixRef = useRef<DriverPosition | null>(null)
   const navigate = useNavigate()
 
   // Create socket connection once
   useEffect(() => {
     socketRef.current = io(import.meta.env.VITE_BACKEND_URL, {
       autoConnect: false,
+      // Called on every (re)connect so the handshake always carries a fresh token
+      auth: (cb) => {
+        getAccessToken()
+          .then((token) => cb({ token }))
+          .catch(() => cb({ token: null }))
+      },
+    })
+
+    // The cached access token may belong to a revoked session while it is
+    // still unexpired, so always exchange the refresh token before retrying.
+    // A refused refresh means the session is really over.
+    const reconnectWithFreshToken = async () => {
+      try {
+        if (!(await refreshAccessToken())) {
+          onLogoutRef.current()
+          return
+        }
+      } catch (error) {
+        // Offline or server error: keep the session and try again shortly
+        console.error("Error refreshing session:", error)
+      }
+      setTimeout(() => socketRef.current?.connect(), RECONNECT_DELAY_MS)
+    }
+
+    // The server refuses the handshake once the session is revoked or expired
+    socketRef.current.on("connect_error", (error: Error) => {
+      console.error("Socket connection error:", error.message)
+      if (error.message === "Invalid credentials" || error.message === "Session has ended") {
+        reconnectWithFreshToken()
+      }
+    })
+
+    // After a server restart or a dropped connection, put the bus back on the
+    // map straight away instead of waiting for the next GPS fix
+    socketRef.current.on("connect", () => {
+      if (fixRef.current) {
+        socketRef.current.emit("updateLocation", { position: fixRef.current })
+      }
+    })
+
+    // The server closes sockets it hasn't heard from in a while and those
+    // whose session has ended; socket.io only reconnects by itself when the
+    // connection was lost, not closed
+    socketRef.current.on("disconnect", (reason: string) => {
+      if (reason === "io server disconnect") {
+        reconnectWithFreshToken()
+      }
     })
 
+    // Where the driver's SOS stands: sent, seen by dispatch, resolved
+    socketRef.current.on("sosStatus", (update: Incident) => {
+      setIncident(update)
+    })
+
+    // Dispatch ended the trip on the driver's behalf; stop sharing the location
+    socketRef.current.on("tripEnded", (ended: { id: string; by?: string }) => {
+      setTrip(null)
+      setSocketError(`Your trip was ended by ${ended.by ?? "dispatch"}`)
+    })
+
+    // Payloads the server rejected, e.g. an out-of-range or stale fix
+    socketRef.current.on("eventError", (error: SocketEventError) => {
+      console.warn(`Server rejected ${error.event}:`, error)
+      setSocketError(error.message)
+    })
+
+    // Connected from the start so dispatch messages arrive even before a trip
+    socketRef.current.connect()
+
     return () => {
       if (socketRef.current) {
         socketRef.current.disconnect()
       }
     }
-  }, [])
+  }, [getAccessToken, refreshAccessToken])
+
+  const { messages, outbox, unreadCount, send } = useDriverMessages(socketRef, authFetch, showMessages)
+
+  // Resume a trip that was started before a reload
+  useEffect(() => {
+    fetchCurrentTrip(authFetch)
+      .then(setTrip)
+      .catch((error) => console.error("Error fetching current trip:", error))
+      .finally(() => setIsTripLoading(false))
+  }, [authFetch])
 
   // Geolocation tracking
   useEffect(() => {
@@ -43,6 +150,7 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
       (location) => {
         const newPosition: [number, number] = [location.coords.latitude, location.coords.longitude]
         setPosition(newPosition)
+        setFix(toDriverPosition(location))
         setIsLoading(false)
       },
       (error) => {
@@ -57,37 +165,72 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
 
   // Location emission
   useEffect(() => {
-    if (position && socketRef.current) {
+    fixRef.current = trip ? fix : null
+    if (fix && trip && socketRef.current) {
       if (!socketRef.current.connected) {
         socketRef.current.connect()
       }
 
       const timeoutId = setTimeout(() => {
-        console.log("Emitting location with ID:", socketRef.current.id, {
-          id: socketRef.current.id,
-          position: position,
-        })
-
+        // Cleared optimistically, the server answers with eventError if it rejects the fix
+        setSocketError(null)
         socketRef.current.emit("updateLocation", {
-          id: socketRef.current.id,
-          position: position,
+          position: fix,
         })
       }, 100)
 
       return () => clearTimeout(timeoutId)
     }
-  }, [position])
+  }, [fix, trip])
+
+  // Lets the server tell a live app apart from a frozen one, even when the bus is parked
+  useEffect(() => {
+    if (!trip) return
+    const intervalId = setInterval(() => {
+      if (socketRef.current?.connected) {
+        socketRef.current.emit("heartbeat")
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+  }, [trip])
+
+  const handleStartTrip = async (selection: { routeId: string; direction: Direction; vehicleId: string }) => {
+    setTrip(await startTrip(authFetch, selection))
+  }
+
+  const handleEndTrip = async () => {
+    if (!trip) return
+    try {
+      await endTrip(authFetch, trip.id)
+      setTrip(null)
+    } catch (error) {
+      console.error("Error ending trip:", error)
+      setSocketError(error instanceof Error ? error.message : "Unable to end trip")
+    }
+  }
 
   //bottombar
 
   const handleEmergency = () => {
-    console.log("Emergency button pressed")
-    // Add emergency logic here
+    setShowSosDialog(true)
+  }
+
+  const handleSendSos = (message?: string) => {
+    setShowSosDialog(false)
+    const sos: SosRequest = {
+      position: fix ? { latitude: fix.latitude, longitude: fix.longitude, accuracy: fix.accuracy } : null,
+      message,
+    }
+    // Emits made while disconnected are sent as soon as the socket connects
+    if (!socketRef.current.connected) {
+      socketRef.current.connect()
+    }
+    socketRef.current.emit("sos", sos)
+    setIncident((current) => current ?? { id: "", driverId: driver?.id ?? "", status: "open", raisedAt: new Date().toISOString() })
   }
 
   const handleMessage = () => {
-    console.log("Message button pressed")
-    // Add messaging logic here
+    setShowMessages(true)
   }
 
   const handleProfile = () => {
@@ -138,6 +281,46 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
           </div>
         </motion.div>
 
+        {trip && (
+          <div className="relative z-10 flex items-center justify-between gap-4 bg-black/40 backdrop-blur-xl border-b border-white/10 px-4 py-2 text-white">
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: trip.routeColor }} />
+              <span className="font-semibold">{describeTrip(trip)}</span>
+              <span className="text-sm text-gray-400">Bus {trip.vehicleLabel}</span>
+            </div>
+            <button
+              onClick={handleEndTrip}
+              className="px-3 py-1 text-sm rounded-lg bg-gray-800 hover:bg-gray-700 border border-white/10 transition-colors"
+            >
+              End trip
+            </button>
+          </div>
+        )}
+
+        {incident && (
+          <div
+            className={`relative z-10 flex items-center justify-between gap-4 px-4 py-2 text-white text-sm ${
+              incident.status === "open" ? "bg-red-600 animate-pulse" : incident.status === "acknowledged" ? "bg-orange-600" : "bg-green-700"
+            }`}
+          >
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              {describeIncidentStatus(incident)}
+            </span>
+            {incident.status === "resolved" && (
+              <button onClick={() => setIncident(null)} className="p-1 hover:bg-white/10 rounded-full">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {socketError && (
+          <div className="relative z-10 bg-red-600/80 text-white text-sm text-center px-4 py-2">
+            {socketError}
+          </div>
+        )}
+
         {/* Map Container */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -146,16 +329,22 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
           className="flex-grow relative z-10"
         >
           {position ? (
-            <div className="h-full w-full rounded-lg overflow-hidden shadow-2xl">
+            <div className="relative h-full w-full rounded-lg overflow-hidden shadow-2xl">
               <MapContainer center={position} zoom={13} style={{ height: "100%", width: "100%" }} zoomControl={false}>
                 <TileLayer
                   url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                   attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                 />
+                <RouteLayers routes={trip ? routes.filter((route) => route._id === trip.routeId) : routes} />
                 <Marker position={position}>
                   <Popup>Your current location</Popup>
                 </Marker>
               </MapContainer>
+              {!trip && !isTripLoading && (
+                <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-black/40 p-4">
+                  <StartTripPanel routes={routes} onStart={handleStartTrip} />
+                </div>
+              )}
             </div>
           ) : (
             <div className="h-full flex items-center justify-center bg-black/20 backdrop-blur-sm">
@@ -191,7 +380,14 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
                 onClick={handleMessage}
                 className="flex flex-col items-center gap-1 text-white/70 hover:text-white transition-colors duration-300"
               >
-                <MessageSquare className="w-6 h-6" />
+                <span className="relative">
+                  <MessageSquare className="w-6 h-6" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-2 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] leading-4 text-white text-center">
+                      {unreadCount}
+                    </span>
+                  )}
+                </span>
                 <span className="text-xs font-medium">Message</span>
               </button>
               <button
@@ -237,8 +433,8 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
                       <UserIcon className="w-8 h-8" />
                     </div>
                     <div>
-                      <h3 className="font-semibold">Driver Name</h3>
-                      <p className="text-sm text-gray-400">driver@example.com</p>
+                      <h3 className="font-semibold">{driver?.name}</h3>
+                      <p className="text-sm text-gray-400">{driver?.email ?? `@${driver?.username}`}</p>
                     </div>
                   </div>
 
@@ -265,7 +461,7 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
 
                   <button
                     className="w-full p-4 text-left text-red-400 hover:bg-white/10 rounded-lg mt-auto transition-colors"
-                    onClick={() => navigate("/")}
+                    onClick={onLogout}
                   >
                     Sign Out
                   </button>
@@ -275,6 +471,20 @@ const DriverView: React.FC<DriverViewProps> = ({ onLogout }) => {
           )}
         </AnimatePresence>
       </div>
+
+      <AnimatePresence>
+        {showMessages && (
+          <MessagesPanel
+            messages={messages}
+            outbox={outbox}
+            canReply={(fix?.speed ?? 0) < MOVING_SPEED_MPS}
+            onSend={send}
+            onClose={() => setShowMessages(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <SosDialog open={showSosDialog} onOpenChange={setShowSosDialog} onConfirm={handleSendSos} />
     </>
   )
 }
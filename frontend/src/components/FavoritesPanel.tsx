@@ -0,0 +1,122 @@
+import type React from "react"
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { Bookmark, Clock, MapPin, X } from "lucide-react"
+import { formatEta, type StopArrival } from "@/services/eta"
+import { fetchRouteArrivals, fetchStopArrivals, type Favorite } from "@/services/favorites"
+
+interface FavoritesPanelProps {
+  favorites: Favorite[]
+  onSelect: (favorite: Favorite) => void
+  onRemove: (favorite: Favorite) => void
+  onClose: () => void
+}
+
+// Arrivals are polled rather than streamed so saved items don't need their own subscriptions
+const REFRESH_INTERVAL_MS = 30 * 1000
+// Arrivals shown per saved item
+const ARRIVALS_SHOWN = 2
+
+const favoriteKey = (favorite: Pick<Favorite, "type" | "id">) => `${favorite.type}:${favorite.id}`
+
+// Saved stops and routes with their next arrivals at a glance
+const FavoritesPanel: React.FC<FavoritesPanelProps> = ({ favorites, onSelect, onRemove, onClose }) => {
+  const [arrivals, setArrivals] = useState<Record<string, StopArrival[]>>({})
+
+  useEffect(() => {
+    let cancelled = false
+
+    const refresh = () => {
+      for (const favorite of favorites) {
+        const load = favorite.type === "stop" ? fetchStopArrivals : fetchRouteArrivals
+        load(favorite.id)
+          .then((next) => {
+            if (!cancelled) setArrivals((prev) => ({ ...prev, [favoriteKey(favorite)]: next }))
+          })
+          .catch((error) => console.error("Error fetching arrivals:", error))
+      }
+    }
+
+    refresh()
+    const intervalId = setInterval(refresh, REFRESH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+    }
+  }, [favorites])
+
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 20, opacity: 0 }}
+      className="absolute z-50 bottom-24 left-5 w-80 max-h-96 overflow-y-auto p-4 bg-gray-900/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-lg text-white"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Saved stops and routes</h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      {favorites.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Nothing saved yet. Tap the bookmark on a stop's arrivals or next to a route to keep it here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {favorites.map((favorite) => {
+            const next = arrivals[favoriteKey(favorite)]
+            return (
+              <li key={favoriteKey(favorite)} className="bg-white/5 rounded-md">
+                <div className="flex items-center gap-2 px-3 pt-2">
+                  <button
+                    onClick={() => onSelect(favorite)}
+                    className="flex-grow flex items-center gap-2 text-left text-sm font-medium hover:text-blue-300"
+                  >
+                    {favorite.type === "stop" ? (
+                      <MapPin className="w-4 h-4 shrink-0 text-gray-400" />
+                    ) : (
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: favorite.color }} />
+                    )}
+                    {favorite.name}
+                  </button>
+                  <button
+                    onClick={() => onRemove(favorite)}
+                    title="Remove from saved"
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                  >
+                    <Bookmark className="w-4 h-4 fill-current text-blue-400" />
+                  </button>
+                </div>
+                <ul className="px-3 pb-2 pt-1 space-y-1">
+                  {next === undefined ? (
+                    <li className="text-xs text-gray-500">Loading...</li>
+                  ) : next.length === 0 ? (
+                    <li className="text-xs text-gray-500">No buses on the way right now</li>
+                  ) : (
+                    next.slice(0, ARRIVALS_SHOWN).map((arrival) => (
+                      <li key={`${arrival.driverId}-${arrival.stopId}`} className="flex justify-between text-xs">
+                        <span className="text-gray-300 truncate">
+                          {favorite.type === "stop"
+                            ? `${arrival.routeName} towards ${arrival.headsign}`
+                            : `Bus ${arrival.vehicleLabel} at ${arrival.stopName}`}
+                        </span>
+                        <span className="flex items-center gap-1 shrink-0 font-semibold text-green-400">
+                          <Clock className="w-3 h-3" />
+                          {formatEta(arrival.seconds)}
+                        </span>
+                      </li>
+                    ))
+                  )}
+                </ul>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </motion.div>
+  )
+}
+
+export default FavoritesPanel
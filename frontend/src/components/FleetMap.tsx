@@ -0,0 +1,56 @@
+import type React from "react"
+import { CircleMarker, MapContainer, Popup, TileLayer } from "react-leaflet"
+import "leaflet/dist/leaflet.css"
+import RouteLayers from "./RouteLayers"
+import type { BusRoute } from "@/services/routes"
+import { BUS_STATUS_LABELS, type BusStatus, type FleetBus } from "@/services/fleet"
+import { describeTrip } from "@/services/trips"
+
+interface FleetMapProps {
+  routes: BusRoute[]
+  buses: FleetBus[]
+  statuses: Record<string, BusStatus>
+  selectedId: string | null
+  onSelect: (driverId: string) => void
+}
+
+// Every bus in its route's colour; problems are ringed so they stand out at a glance
+const FleetMap: React.FC<FleetMapProps> = ({ routes, buses, statuses, selectedId, onSelect }) => {
+  return (
+    <MapContainer center={[24.8607, 67.0011]} zoom={12} style={{ height: "100%", width: "100%" }}>
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      <RouteLayers routes={routes} showStops={false} />
+      {buses.map((bus) => {
+        const status = statuses[bus.id]
+        const isProblem = status === "sos" || status === "offRoute" || status === "longIdle"
+        return (
+          <CircleMarker
+            key={bus.id}
+            center={[bus.position.latitude, bus.position.longitude]}
+            radius={bus.id === selectedId ? 11 : 8}
+            pathOptions={{
+              color: status === "sos" ? "#dc2626" : isProblem ? "#f97316" : "#ffffff",
+              weight: isProblem ? 4 : 2,
+              fillColor: bus.trip.routeColor,
+              fillOpacity: status === "stale" ? 0.35 : 0.9,
+            }}
+            eventHandlers={{ click: () => onSelect(bus.id) }}
+          >
+            <Popup>
+              <strong>Bus {bus.trip.vehicleLabel}</strong> · {BUS_STATUS_LABELS[status]}
+              <br />
+              {describeTrip(bus.trip)}
+              <br />
+              {bus.driverName ?? "Driver"}
+            </Popup>
+          </CircleMarker>
+        )
+      })}
+    </MapContainer>
+  )
+}
+
+export default FleetMap
@@ -0,0 +1,107 @@
+import type React from "react"
+import { MessageSquare, Square } from "lucide-react"
+import { BUS_STATUS_LABELS, formatPingAge, formatSpeed, type BusStatus, type FleetBus } from "@/services/fleet"
+
+interface FleetTableProps {
+  buses: FleetBus[]
+  statuses: Record<string, BusStatus>
+  now: number
+  selectedId: string | null
+  onSelect: (driverId: string) => void
+  onMessage: (driverId: string) => void
+  onEndTrip: (bus: FleetBus) => void
+}
+
+const STATUS_STYLES: Record<BusStatus, string> = {
+  sos: "bg-red-600 animate-pulse",
+  stale: "bg-gray-600",
+  offRoute: "bg-orange-600",
+  longIdle: "bg-yellow-600",
+  stopped: "bg-slate-600",
+  moving: "bg-green-700",
+}
+
+const STATUS_ORDER = Object.keys(STATUS_STYLES) as BusStatus[]
+
+// One row per bus on the road, problems first
+const FleetTable: React.FC<FleetTableProps> = ({ buses, statuses, now, selectedId, onSelect, onMessage, onEndTrip }) => {
+  const sorted = [...buses].sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(statuses[a.id]) - STATUS_ORDER.indexOf(statuses[b.id]) ||
+      a.trip.vehicleLabel.localeCompare(b.trip.vehicleLabel)
+  )
+
+  if (sorted.length === 0) {
+    return <p className="text-gray-400">No buses on the road.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-white/10">
+      <table className="w-full text-sm">
+        <thead className="bg-white/5 text-left text-gray-400">
+          <tr>
+            <th className="px-3 py-2 font-medium">Vehicle</th>
+            <th className="px-3 py-2 font-medium">Driver</th>
+            <th className="px-3 py-2 font-medium">Route</th>
+            <th className="px-3 py-2 font-medium">Last ping</th>
+            <th className="px-3 py-2 font-medium">Speed</th>
+            <th className="px-3 py-2 font-medium">Status</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((bus) => (
+            <tr
+              key={bus.id}
+              onClick={() => onSelect(bus.id)}
+              className={`border-t border-white/10 cursor-pointer ${bus.id === selectedId ? "bg-white/10" : "hover:bg-white/5"}`}
+            >
+              <td className="px-3 py-2 font-semibold">{bus.trip.vehicleLabel}</td>
+              <td className="px-3 py-2">{bus.driverName ?? "–"}</td>
+              <td className="px-3 py-2">
+                <span className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: bus.trip.routeColor }} />
+                  {bus.trip.routeName}
+                  <span className="text-gray-400 truncate">→ {bus.trip.headsign}</span>
+                </span>
+              </td>
+              <td className="px-3 py-2 tabular-nums">{formatPingAge(bus.lastSeenAt, now)}</td>
+              <td className="px-3 py-2 tabular-nums">{formatSpeed(bus.position.speed)}</td>
+              <td className="px-3 py-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${STATUS_STYLES[statuses[bus.id]]}`}>
+                  {BUS_STATUS_LABELS[statuses[bus.id]]}
+                </span>
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex justify-end gap-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onMessage(bus.id)
+                    }}
+                    title="Message driver"
+                    className="p-1.5 rounded-md hover:bg-white/10"
+                  >
+                    <MessageSquare className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onEndTrip(bus)
+                    }}
+                    title="End trip"
+                    className="p-1.5 rounded-md hover:bg-white/10 text-red-400"
+                  >
+                    <Square className="w-4 h-4" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default FleetTable
@@ -0,0 +1,41 @@
+import type React from "react"
+import { Bus, X } from "lucide-react"
+import type { Journey } from "@/services/journeys"
+
+interface JourneyBannerProps {
+  journey: Journey | null
+  error: string | null
+  onCheckOut: () => void
+  onDismissError: () => void
+}
+
+// Shown under the header while the passenger is checked in on a bus
+const JourneyBanner: React.FC<JourneyBannerProps> = ({ journey, error, onCheckOut, onDismissError }) => {
+  return (
+    <div className="relative z-20 p-2 space-y-2">
+      {journey && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-green-600/90 backdrop-blur-xl border border-white/20 rounded-lg text-white">
+          <Bus className="w-5 h-5 shrink-0" />
+          <p className="flex-grow text-sm">
+            On <span className="font-semibold">{journey.routeName}</span>
+            {journey.headsign && ` towards ${journey.headsign}`}
+            {journey.vehicleLabel && ` · Bus ${journey.vehicleLabel}`}
+          </p>
+          <button onClick={onCheckOut} className="px-3 py-1 text-sm rounded-md bg-white/20 hover:bg-white/30 transition-colors">
+            Check out
+          </button>
+        </div>
+      )}
+      {error && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-red-600/90 border border-white/20 rounded-lg text-sm text-white">
+          <p className="flex-grow">{error}</p>
+          <button onClick={onDismissError} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default JourneyBanner
@@ -10,6 +10,9 @@ import { Navbar } from './Navbar'
 import { MapContainer, TileLayer, useMap } from 'react-leaflet'
 import 'leaflet/dist/leaflet.css'
 import { useNavigate } from 'react-router-dom'
+import socket from '@/services/socket'
+import { useServiceAlerts } from '@/hooks/useServiceAlerts'
+import ServiceAlertBanner from './ServiceAlertBanner'
 
 type LandingPageProps = {
   setRole: (role: 'none' | 'driver' | 'user') => void
@@ -50,6 +53,9 @@ const LandingPage: React.FC<LandingPageProps> = ({ setRole }) => {
   const navigate = useNavigate()
   const [searchQuery, setSearchQuery] = useState('')
   const [mapCenter, setMapCenter] = useState<[number, number]>([24.8607, 67.0011]) // Default coordinates
+  // No route is in view yet, so only network-wide announcements apply here
+  const { alerts, dismiss } = useServiceAlerts(socket)
+  const networkAlerts = alerts.filter((alert) => alert.scope === 'agency')
 
   const handlePassengerClick = () => {
     setRole('user')
@@ -77,6 +83,9 @@ const LandingPage: React.FC<LandingPageProps> = ({ setRole }) => {
       <div className="relative z-10">
         <Navbar />
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          {networkAlerts.length > 0 && (
+            <ServiceAlertBanner alerts={networkAlerts} onDismiss={dismiss} className="pt-4" />
+          )}
           <div className="flex flex-col lg:flex-row items-center justify-between py-12 lg:py-20 space-y-8 lg:space-y-0 lg:space-x-8">
             <div className="lg:w-1/2 text-center lg:text-left w-full">
               <motion.h1
@@ -0,0 +1,128 @@
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { motion } from "framer-motion"
+import { Check, CheckCheck, Clock, Send, X } from "lucide-react"
+import { QUICK_REPLIES, type Message, type OutboxMessage } from "@/services/messages"
+
+interface MessagesPanelProps {
+  messages: Message[]
+  outbox: OutboxMessage[]
+  // False while the bus is moving: replying has to wait until it's stopped
+  canReply: boolean
+  onSend: (body: string) => void
+  onClose: () => void
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+const ReceiptIcon: React.FC<{ message: Message }> = ({ message }) => {
+  if (message.readAt) return <CheckCheck className="w-3 h-3 text-blue-400" />
+  if (message.deliveredAt) return <CheckCheck className="w-3 h-3" />
+  return <Check className="w-3 h-3" />
+}
+
+// Driver's conversation with dispatch
+const MessagesPanel: React.FC<MessagesPanelProps> = ({ messages, outbox, canReply, onSend, onClose }) => {
+  const [draft, setDraft] = useState("")
+  const endRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages.length, outbox.length])
+
+  const pending = outbox.filter((queued) => !messages.some((message) => message.clientId === queued.clientId))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.trim()) return
+    onSend(draft.trim())
+    setDraft("")
+  }
+
+  return (
+    <motion.div
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", damping: 20 }}
+      className="fixed top-0 right-0 h-full w-full sm:w-96 flex flex-col bg-gray-900/95 backdrop-blur-xl border-l border-white/10 shadow-2xl z-50 text-white"
+    >
+      <div className="flex justify-between items-center p-4 border-b border-white/10">
+        <h2 className="text-2xl font-bold">Dispatch</h2>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-2">
+        {messages.length === 0 && pending.length === 0 && (
+          <p className="text-sm text-gray-400 text-center">No messages yet.</p>
+        )}
+        {messages.map((message) => (
+          <div key={message.id} className={`flex ${message.from === "driver" ? "justify-end" : "justify-start"}`}>
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                message.from === "driver" ? "bg-red-700" : "bg-white/10"
+              }`}
+            >
+              {message.from === "dispatch" && message.senderName && (
+                <p className="text-xs text-gray-400 mb-0.5">{message.senderName}</p>
+              )}
+              <p>{message.body}</p>
+              <p className="flex items-center justify-end gap-1 mt-1 text-[10px] text-gray-300">
+                {formatTime(message.sentAt)}
+                {message.from === "driver" && <ReceiptIcon message={message} />}
+              </p>
+            </div>
+          </div>
+        ))}
+        {pending.map((queued) => (
+          <div key={queued.clientId} className="flex justify-end">
+            <div className="max-w-[80%] rounded-lg px-3 py-2 text-sm bg-red-700/50">
+              <p>{queued.body}</p>
+              <p className="flex items-center justify-end gap-1 mt-1 text-[10px] text-gray-300">
+                <Clock className="w-3 h-3" />
+                Waiting for connection
+              </p>
+            </div>
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-4 border-t border-white/10 space-y-3">
+        {canReply ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {QUICK_REPLIES.map((reply) => (
+                <button
+                  key={reply}
+                  onClick={() => onSend(reply)}
+                  className="px-3 py-2 text-sm rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                >
+                  {reply}
+                </button>
+              ))}
+            </div>
+            <form onSubmit={handleSubmit} className="flex gap-2">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={1000}
+                placeholder="Message dispatch"
+                className="flex-grow rounded-md border border-white/10 bg-gray-800 px-3 py-2 text-sm focus:outline-none"
+              />
+              <button type="submit" className="p-2 rounded-md bg-red-600 hover:bg-red-700 transition-colors">
+                <Send className="w-5 h-5" />
+              </button>
+            </form>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400 text-center">Stop the bus to reply.</p>
+        )}
+      </div>
+    </motion.div>
+  )
+}
+
+export default MessagesPanel
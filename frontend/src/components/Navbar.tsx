@@ -1,25 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Menu, X, Search, ChevronDown } from 'lucide-react';
+import { useRoutes } from '@/hooks/useRoutes';
 
 export function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null); // Reference to the dropdown container
 
-  const routes = [
-    { name: 'Route 1', subscript: 'Model Colony to Dockyard' },
-    { name: 'Route 2', subscript: 'North Karachi to Indus Hospital' },
-    { name: 'Route 3', subscript: 'UP Mor to Nasir Jump' },
-    { name: 'Route 4', subscript: 'Power House to Keamari' },
-    { name: 'Route 9', subscript: 'Gulshan e Hadeed to Tower' },
-    { name: 'Route 10', subscript: 'Numaish to Ibrahim Hyderi' },
-    { name: 'Route 11', subscript: 'Shireen Jinnah Colony to Miran Nakka Lyari' },
-    { name: 'Route 12', subscript: 'Nadi Kinara Khokrapar - Lucky Star Saddar' },
-    { name: 'EV-1', subscript: 'CMH Malir to Abdullah Shah Ghazi Shrine' },
-    { name: 'EV-2', subscript: 'Bahria Town to Malir Halt' },
-    { name: 'EV-3', subscript: 'Malir Cantt Check Post 5 to Numaish' },
-  ];
+  const { routes, isLoading: isLoadingRoutes, error: routesError } = useRoutes();
 
   // Handle clicks outside the dropdown
   useEffect(() => {
@@ -76,13 +65,15 @@ export function Navbar() {
                   aria-labelledby="options-menu"
                 >
                   <div className="grid grid-cols-2 gap-4 py-2 px-4">
-                    {routes.map((route, index) => (
+                    {isLoadingRoutes && <p className="text-sm text-gray-500 px-2 py-1">Loading routes...</p>}
+                    {routesError && <p className="text-sm text-red-500 px-2 py-1">{routesError}</p>}
+                    {routes.map((route) => (
                       <a
-                        key={index}
+                        key={route._id}
                         href="#"
                         className="block text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900 rounded-md px-2 py-1"
                       >
-                        {route.name} <sub className="text-xs text-gray-500">{route.subscript}</sub>
+                        {route.name} <sub className="text-xs text-gray-500">{route.description}</sub>
                       </a>
                     ))}
                   </div>
@@ -146,13 +137,15 @@ export function Navbar() {
               </button>
               {isDropdownOpen && (
                 <div className="pl-6 space-y-1">
-                  {routes.map((route, index) => (
+                  {isLoadingRoutes && <p className="px-3 py-2 text-sm text-gray-300">Loading routes...</p>}
+                  {routesError && <p className="px-3 py-2 text-sm text-red-300">{routesError}</p>}
+                  {routes.map((route) => (
                     <a
-                      key={index}
+                      key={route._id}
                       href="#"
                       className="block px-3 py-2 text-sm text-white hover:text-white/80 hover:bg-white/10 rounded-md transition-colors"
                     >
-                      {route.name} <sub className="text-xs text-gray-300">{route.subscript}</sub>
+                      {route.name} <sub className="text-xs text-gray-300">{route.description}</sub>
                     </a>
                   ))}
                 </div>
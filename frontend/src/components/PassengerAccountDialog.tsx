@@ -0,0 +1,182 @@
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { usePassengerAuth } from "./contexts/PassengerAuthContext"
+import { requestPasswordReset } from "@/services/passengerAuth"
+
+type Mode = "login" | "signup" | "forgot"
+
+interface PassengerAccountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const TITLES: Record<Mode | "profile", string> = {
+  login: "Sign in",
+  signup: "Create an account",
+  forgot: "Reset your password",
+  profile: "Your account",
+}
+
+const inputClassName = "bg-gray-800 border-white/10 text-white"
+
+// Signing in is optional: it keeps saved stops, alerts and history on every
+// device. Signed in, the same dialog edits the profile.
+const PassengerAccountDialog: React.FC<PassengerAccountDialogProps> = ({ open, onOpenChange }) => {
+  const { passenger, signUp, login, updateProfile } = usePassengerAuth()
+  const [mode, setMode] = useState<Mode>("login")
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    setName(passenger?.name ?? "")
+    setEmail(passenger?.email ?? "")
+  }, [passenger])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setName(passenger?.name ?? "")
+      setEmail(passenger?.email ?? "")
+      setPassword("")
+      setCurrentPassword("")
+      setError(null)
+      setNotice(null)
+    }
+    onOpenChange(next)
+  }
+
+  const switchMode = (next: Mode) => {
+    setMode(next)
+    setError(null)
+    setNotice(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      if (passenger) {
+        await updateProfile({
+          name: name !== passenger.name ? name : undefined,
+          email: email !== passenger.email ? email : undefined,
+          password: password || undefined,
+          currentPassword: currentPassword || undefined,
+        })
+        setPassword("")
+        setCurrentPassword("")
+        setNotice("Saved")
+      } else if (mode === "forgot") {
+        await requestPasswordReset(email)
+        setNotice("If that email has an account, a reset link is on its way.")
+      } else {
+        if (mode === "signup") {
+          await signUp({ email, name, password })
+        } else {
+          await login(email, password)
+        }
+        handleOpenChange(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const changesLogin = passenger !== null && (email !== passenger.email || password !== "")
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-900 text-white border-white/10">
+        <DialogHeader>
+          <DialogTitle>{TITLES[passenger ? "profile" : mode]}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {passenger
+              ? "Changing your email or password needs your current password."
+              : "Optional. Your saved stops, alerts and trips follow you to any device."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+          {(passenger || mode === "signup") && (
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              autoComplete="name"
+              required
+              className={inputClassName}
+            />
+          )}
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className={inputClassName}
+          />
+          {(passenger || mode !== "forgot") && (
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={passenger ? "New password (optional)" : "Password"}
+              autoComplete={mode === "login" && !passenger ? "current-password" : "new-password"}
+              minLength={mode === "login" && !passenger ? undefined : 8}
+              required={!passenger}
+              className={inputClassName}
+            />
+          )}
+          {changesLogin && (
+            <Input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="Current password"
+              autoComplete="current-password"
+              required
+              className={inputClassName}
+            />
+          )}
+
+          <Button type="submit" disabled={isBusy} className="w-full bg-red-600 hover:bg-red-700 text-white">
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : passenger ? "Save" : TITLES[mode]}
+          </Button>
+        </form>
+
+        {!passenger && (
+          <div className="flex justify-between text-sm">
+            <button
+              onClick={() => switchMode(mode === "login" ? "signup" : "login")}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              {mode === "login" ? "Create an account" : "Back to sign in"}
+            </button>
+            {mode !== "forgot" && (
+              <button onClick={() => switchMode("forgot")} className="text-gray-400 hover:text-white">
+                Forgot password?
+              </button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PassengerAccountDialog
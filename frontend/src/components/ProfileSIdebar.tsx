@@ -1,5 +1,6 @@
 import type React from "react"
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { useDriverAuth } from "./contexts/DriverAuthContext"
 
 interface ProfileSidebarProps {
   isOpen: boolean
@@ -7,6 +8,8 @@ interface ProfileSidebarProps {
 }
 
 const ProfileSidebar: React.FC<ProfileSidebarProps> = ({ isOpen, onClose }) => {
+  const { driver } = useDriverAuth()
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent>
@@ -14,11 +17,16 @@ const ProfileSidebar: React.FC<ProfileSidebarProps> = ({ isOpen, onClose }) => {
           <SheetTitle>Driver Profile</SheetTitle>
         </SheetHeader>
         <div className="mt-4">
-          {/* Placeholder for profile information */}
-          <p>Name: John Doe</p>
-          <p>ID: 12345</p>
-          <p>Vehicle: Toyota Camry</p>
-          {/* Add more profile information as needed */}
+          {driver ? (
+            <>
+              <p>Name: {driver.name}</p>
+              <p>Username: {driver.username}</p>
+              {driver.phone && <p>Phone: {driver.phone}</p>}
+              {driver.email && <p>Email: {driver.email}</p>}
+            </>
+          ) : (
+            <p>Not signed in</p>
+          )}
         </div>
       </SheetContent>
     </Sheet>
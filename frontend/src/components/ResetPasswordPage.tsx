@@ -0,0 +1,84 @@
+import type React from "react"
+import { useState } from "react"
+import { Link, useSearchParams } from "react-router-dom"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { resetPassword } from "@/services/passengerAuth"
+
+// Opened from the link in a password reset email
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get("token") ?? ""
+  const [password, setPassword] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirmation) {
+      setError("The passwords don't match")
+      return
+    }
+    setIsSaving(true)
+    setError(null)
+    try {
+      await resetPassword(token, password)
+      setIsDone(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to reset your password")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 p-4">
+      <div className="w-full max-w-sm space-y-4 p-6 bg-black/30 backdrop-blur-xl border border-white/10 rounded-lg text-white">
+        <h2 className="text-2xl font-semibold text-center">Choose a new password</h2>
+        {isDone ? (
+          <>
+            <p className="text-sm text-gray-300 text-center">
+              Your password has been changed and you've been signed out everywhere. Sign in again from your profile.
+            </p>
+            <Link to="/" className="block text-center text-blue-400 hover:text-blue-300">
+              Open Laal Bus
+            </Link>
+          </>
+        ) : !token ? (
+          <p className="text-sm text-red-400 text-center">This reset link is incomplete. Ask for a new one.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="New password"
+              autoComplete="new-password"
+              minLength={8}
+              required
+              className="bg-gray-800 border-white/10 text-white"
+            />
+            <Input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="New password again"
+              autoComplete="new-password"
+              required
+              className="bg-gray-800 border-white/10 text-white"
+            />
+            <Button type="submit" disabled={isSaving} className="w-full bg-red-600 hover:bg-red-700 text-white">
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save password"}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ResetPasswordPage
@@ -0,0 +1,74 @@
+import type React from "react"
+import { motion } from "framer-motion"
+import { Bookmark, Check, X } from "lucide-react"
+import type { BusRoute } from "@/services/routes"
+
+interface RouteFilterProps {
+  routes: BusRoute[]
+  // null means every route is shown
+  selectedIds: string[] | null
+  onChange: (selectedIds: string[] | null) => void
+  isSaved: (id: string) => boolean
+  onToggleSaved: (route: BusRoute) => void
+  onClose: () => void
+}
+
+// Lets a passenger narrow the map, and the live updates they receive, to a few routes
+const RouteFilter: React.FC<RouteFilterProps> = ({ routes, selectedIds, onChange, isSaved, onToggleSaved, onClose }) => {
+  const isSelected = (id: string) => selectedIds === null || selectedIds.includes(id)
+
+  const toggle = (id: string) => {
+    const current = selectedIds ?? routes.map((route) => route._id)
+    const next = current.includes(id) ? current.filter((other) => other !== id) : [...current, id]
+    onChange(next.length === routes.length ? null : next)
+  }
+
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 20, opacity: 0 }}
+      className="absolute z-50 bottom-24 left-5 w-80 max-h-96 overflow-y-auto p-4 bg-gray-900/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-lg text-white"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Routes on the map</h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      <button
+        onClick={() => onChange(selectedIds === null ? [] : null)}
+        className="w-full mb-2 text-left text-sm text-blue-400 hover:text-blue-300"
+      >
+        {selectedIds === null ? "Hide all routes" : "Show all routes"}
+      </button>
+
+      <ul className="space-y-1">
+        {routes.map((route) => (
+          <li key={route._id} className="flex items-center gap-1">
+            <button
+              onClick={() => toggle(route._id)}
+              className="flex-grow flex items-center gap-3 px-3 py-2 rounded-md hover:bg-white/10 transition-colors"
+            >
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: route.color }} />
+              <span className="flex-grow text-left text-sm">
+                {route.name} <span className="text-gray-400">{route.description}</span>
+              </span>
+              {isSelected(route._id) && <Check className="w-4 h-4 text-green-400" />}
+            </button>
+            <button
+              onClick={() => onToggleSaved(route)}
+              title={isSaved(route._id) ? "Remove from saved" : "Save this route"}
+              className="p-2 rounded-md hover:bg-white/10 transition-colors"
+            >
+              <Bookmark className={`w-4 h-4 ${isSaved(route._id) ? "fill-current text-blue-400" : "text-gray-500"}`} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  )
+}
+
+export default RouteFilter
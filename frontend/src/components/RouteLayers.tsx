@@ -0,0 +1,50 @@
+import React from "react"
+import { CircleMarker, Polyline, Popup } from "react-leaflet"
+import type { LatLngExpression } from "leaflet"
+import type { BusRoute, Stop } from "@/services/routes"
+
+interface RouteLayersProps {
+  routes: BusRoute[]
+  showStops?: boolean
+  onStopSelect?: (stop: Stop) => void
+}
+
+// Draws each route's shape in its own colour, plus its stops
+const RouteLayers: React.FC<RouteLayersProps> = ({ routes, showStops = true, onStopSelect }) => {
+  return (
+    <>
+      {routes.map((route) => (
+        <React.Fragment key={route._id}>
+          {route.shape.length > 1 && (
+            <Polyline
+              positions={route.shape.map((point) => [point.latitude, point.longitude] as LatLngExpression)}
+              pathOptions={{ color: route.color, weight: 4, opacity: 0.6 }}
+            >
+              <Popup>
+                {route.name} <span className="text-gray-500">{route.description}</span>
+              </Popup>
+            </Polyline>
+          )}
+          {showStops &&
+            route.stops.map((stop) => (
+              <CircleMarker
+                key={`${route._id}-${stop._id}`}
+                center={[stop.latitude, stop.longitude]}
+                radius={5}
+                pathOptions={{ color: route.color, fillColor: "#ffffff", fillOpacity: 1, weight: 2 }}
+                eventHandlers={onStopSelect ? { click: () => onStopSelect(stop) } : undefined}
+              >
+                <Popup>
+                  <strong>{stop.name}</strong>
+                  <br />
+                  {route.name}
+                </Popup>
+              </CircleMarker>
+            ))}
+        </React.Fragment>
+      ))}
+    </>
+  )
+}
+
+export default RouteLayers
@@ -0,0 +1,54 @@
+import type React from "react"
+import { AnimatePresence, motion } from "framer-motion"
+import { AlertOctagon, AlertTriangle, Info, X } from "lucide-react"
+import { sortBySeverity, type ServiceAlert, type ServiceAlertSeverity } from "@/services/serviceAlerts"
+
+interface ServiceAlertBannerProps {
+  alerts: ServiceAlert[]
+  onDismiss: (id: string) => void
+  className?: string
+}
+
+const SEVERITY_STYLES: Record<ServiceAlertSeverity, { className: string; Icon: typeof Info }> = {
+  severe: { className: "bg-red-600/90", Icon: AlertOctagon },
+  warning: { className: "bg-amber-500/90", Icon: AlertTriangle },
+  info: { className: "bg-blue-600/90", Icon: Info },
+}
+
+// Disruptions and announcements, most severe first
+const ServiceAlertBanner: React.FC<ServiceAlertBannerProps> = ({ alerts, onDismiss, className = "" }) => {
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <AnimatePresence initial={false}>
+        {sortBySeverity(alerts).map((alert) => {
+          const { className: severityClass, Icon } = SEVERITY_STYLES[alert.severity]
+          return (
+            <motion.div
+              key={alert.id}
+              initial={{ y: -10, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ y: -10, opacity: 0 }}
+              className={`flex items-start gap-3 p-3 rounded-lg backdrop-blur-xl border border-white/20 shadow-lg text-white ${severityClass}`}
+            >
+              <Icon className="w-5 h-5 shrink-0 mt-0.5" />
+              <div className="flex-grow text-sm">
+                <p className="font-semibold">{alert.title}</p>
+                {alert.message && <p className="mt-0.5">{alert.message}</p>}
+                {alert.endsAt && (
+                  <p className="mt-1 text-xs text-white/80">
+                    Until {new Date(alert.endsAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                  </p>
+                )}
+              </div>
+              <button onClick={() => onDismiss(alert.id)} className="p-1 hover:bg-white/10 rounded-full">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          )
+        })}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default ServiceAlertBanner
@@ -1,17 +1,19 @@
-import React from "react";
+import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { X, Bell, MapPin, Bus, Wallet, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import ArrivalAlerts from "./ArrivalAlerts";
 
 interface MenuItemProps {
   icon: React.ReactNode;
   label: string;
   description?: string;
+  onClick?: () => void;
 }
 
-const MenuItem = ({ icon, label, description }: MenuItemProps) => (
-  <Card className="flex items-center justify-between p-4 hover:bg-accent cursor-pointer transition-colors">
+const MenuItem = ({ icon, label, description, onClick }: MenuItemProps) => (
+  <Card onClick={onClick} className="flex items-center justify-between p-4 hover:bg-accent cursor-pointer transition-colors">
     <div className="flex items-center gap-3">
       <div className="p-2 rounded-full bg-red-100">{icon}</div>
       <div>
@@ -25,6 +27,7 @@ const MenuItem = ({ icon, label, description }: MenuItemProps) => (
 
 const SettingsPage: React.FC = () => {
   const navigate = useNavigate();
+  const [showAlerts, setShowAlerts] = useState(false);
 
   return (
     <div className="max-w-md mx-auto h-screen bg-background md:max-w-2xl lg:max-w-3xl">
@@ -34,7 +37,12 @@ const SettingsPage: React.FC = () => {
           <Button variant="ghost" size="icon" className="hover:bg-red-500 text-white" onClick={() => navigate("/")}>
             <X className="w-6 h-6" />
           </Button>
-          <Button variant="ghost" size="icon" className="hover:bg-red-500 text-white">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`hover:bg-red-500 text-white ${showAlerts ? "bg-red-500" : ""}`}
+            onClick={() => setShowAlerts(!showAlerts)}
+          >
             <Bell className="w-6 h-6" />
           </Button>
         </div>
@@ -53,8 +61,16 @@ const SettingsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Arrival alerts, behind the Bell */}
+      {showAlerts && (
+        <div className="px-4 mt-16 space-y-3">
+          <h2 className="text-lg font-semibold">Arrival Alerts</h2>
+          <ArrivalAlerts />
+        </div>
+      )}
+
       {/* Menu Items */}
-      <div className="px-4 mt-16 space-y-3">
+      <div className={`px-4 space-y-3 ${showAlerts ? "mt-6" : "mt-16"}`}>
         <MenuItem
           icon={<MapPin className="w-5 h-5 text-red-600" />}
           label="Live Tracking"
@@ -64,16 +80,19 @@ const SettingsPage: React.FC = () => {
           icon={<History className="w-5 h-5 text-red-600" />}
           label="Travel History"
           description="View your past journeys"
+          onClick={() => navigate("/history")}
         />
         <MenuItem
           icon={<Wallet className="w-5 h-5 text-red-600" />}
           label="Payment Methods"
           description="Manage your payment options"
+          onClick={() => navigate("/wallet")}
         />
         <MenuItem
           icon={<Bus className="w-5 h-5 text-red-600" />}
           label="My Routes"
           description="View your favorite routes"
+          onClick={() => navigate("/userview", { state: { showFavorites: true } })}
         />
       </div>
     </div>
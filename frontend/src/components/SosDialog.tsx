@@ -0,0 +1,55 @@
+import type React from "react"
+import { useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+interface SosDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (message?: string) => void
+}
+
+// Second step before paging dispatch, so a stray tap doesn't raise an emergency
+const SosDialog: React.FC<SosDialogProps> = ({ open, onOpenChange, onConfirm }) => {
+  const [message, setMessage] = useState("")
+
+  const handleConfirm = () => {
+    onConfirm(message.trim() || undefined)
+    setMessage("")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 text-white border-red-500/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-500">
+            <AlertTriangle className="w-5 h-5" />
+            Send SOS to dispatch?
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Dispatch will be alerted straight away with your location and trip.
+          </DialogDescription>
+        </DialogHeader>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          maxLength={500}
+          rows={3}
+          placeholder="What's happening? (optional)"
+          className="w-full rounded-md border border-white/10 bg-gray-800 p-2 text-sm text-white focus:outline-none"
+        />
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="bg-transparent text-white" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-red-600 hover:bg-red-700 text-white" onClick={handleConfirm}>
+            Send SOS
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SosDialog
@@ -0,0 +1,142 @@
+import type React from "react"
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { Bus, Loader2 } from "lucide-react"
+import type { BusRoute } from "@/services/routes"
+import { fetchVehicles, type Direction, type Vehicle } from "@/services/trips"
+
+interface StartTripPanelProps {
+  routes: BusRoute[]
+  onStart: (trip: { routeId: string; direction: Direction; vehicleId: string }) => Promise<void>
+}
+
+// Terminus names for each direction, mirroring the backend headsign logic
+const getTermini = (route: BusRoute): [string, string] => {
+  if (route.stops.length >= 2) {
+    return [route.stops[0].name, route.stops[route.stops.length - 1].name]
+  }
+  const ends = route.description.split(/\s+(?:to|-)\s+/i).filter(Boolean)
+  return ends.length >= 2 ? [ends[0], ends[ends.length - 1]] : [route.name, route.name]
+}
+
+const StartTripPanel: React.FC<StartTripPanelProps> = ({ routes, onStart }) => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([])
+  const [routeId, setRouteId] = useState("")
+  const [direction, setDirection] = useState<Direction>(0)
+  const [vehicleId, setVehicleId] = useState("")
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    fetchVehicles()
+      .then(setVehicles)
+      .catch((err) => {
+        console.error("Error fetching vehicles:", err)
+        setError("Unable to load vehicles")
+      })
+  }, [])
+
+  const selectedRoute = routes.find((route) => route._id === routeId)
+  const [origin, destination] = selectedRoute ? getTermini(selectedRoute) : ["", ""]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsStarting(true)
+    setError("")
+    try {
+      await onStart({ routeId, direction, vehicleId })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to start trip")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const selectClassName =
+    "w-full bg-gray-900/50 border-2 border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-pink-500/50"
+
+  return (
+    <motion.form
+      initial={{ scale: 0.95, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      onSubmit={handleSubmit}
+      className="w-full max-w-sm bg-black/60 border border-white/20 rounded-2xl shadow-2xl p-6 space-y-4 backdrop-blur-xl text-white"
+    >
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <Bus className="w-5 h-5" /> Start a trip
+      </h3>
+
+      <div>
+        <label htmlFor="trip-route" className="block text-sm text-gray-400 mb-1">Route</label>
+        <select
+          id="trip-route"
+          value={routeId}
+          onChange={(e) => setRouteId(e.target.value)}
+          className={selectClassName}
+          required
+        >
+          <option value="" disabled>Choose a route</option>
+          {routes.map((route) => (
+            <option key={route._id} value={route._id}>
+              {route.name} - {route.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selectedRoute && (
+        <div>
+          <span className="block text-sm text-gray-400 mb-1">Direction</span>
+          <div className="grid grid-cols-2 gap-2">
+            {([0, 1] as Direction[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setDirection(value)}
+                className={`rounded-lg px-3 py-2 text-sm border transition-colors ${
+                  direction === value ? "bg-red-600 border-red-500" : "bg-gray-900/50 border-white/10 hover:bg-white/10"
+                }`}
+              >
+                towards {value === 0 ? destination : origin}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="trip-vehicle" className="block text-sm text-gray-400 mb-1">Vehicle</label>
+        <select
+          id="trip-vehicle"
+          value={vehicleId}
+          onChange={(e) => setVehicleId(e.target.value)}
+          className={selectClassName}
+          required
+        >
+          <option value="" disabled>Choose a vehicle</option>
+          {vehicles.map((vehicle) => (
+            <option key={vehicle._id} value={vehicle._id}>
+              {vehicle.fleetNumber}
+              {vehicle.registration ? ` (${vehicle.registration})` : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isStarting || !routeId || !vehicleId}
+        className="w-full bg-gradient-to-r from-red-500 to-red-600 rounded-lg py-2 font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isStarting && <Loader2 className="w-4 h-4 animate-spin" />}
+        Start trip
+      </button>
+    </motion.form>
+  )
+}
+
+export default StartTripPanel
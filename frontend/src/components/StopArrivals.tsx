@@ -0,0 +1,71 @@
+import type React from "react"
+import { motion } from "framer-motion"
+import { Bookmark, Clock, X } from "lucide-react"
+import type { Stop } from "@/services/routes"
+import { formatEta, type StopArrival } from "@/services/eta"
+
+interface StopArrivalsProps {
+  stop: Stop
+  arrivals: StopArrival[]
+  isSaved: boolean
+  onToggleSaved: () => void
+  onClose: () => void
+}
+
+const StopArrivals: React.FC<StopArrivalsProps> = ({ stop, arrivals, isSaved, onToggleSaved, onClose }) => {
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 20, opacity: 0 }}
+      className="absolute z-50 bottom-24 left-5 w-80 max-h-80 overflow-y-auto p-4 bg-gray-900/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-lg text-white"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-xs text-gray-400">Arrivals at</p>
+          <h3 className="font-semibold">{stop.name}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleSaved}
+            title={isSaved ? "Remove from saved" : "Save this stop"}
+            className="p-1 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <Bookmark className={`w-5 h-5 ${isSaved ? "fill-current text-blue-400" : "text-gray-400"}`} />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      {arrivals.length === 0 ? (
+        <p className="text-sm text-gray-400">No buses are heading here right now.</p>
+      ) : (
+        <ul className="space-y-2">
+          {arrivals.map((arrival) => (
+            <li
+              key={`${arrival.driverId}-${arrival.stopId}`}
+              className="flex items-center justify-between bg-white/5 rounded-md px-3 py-2"
+            >
+              <div>
+                <p className="text-sm font-medium">
+                  {arrival.routeName} towards {arrival.headsign}
+                </p>
+                <p className="text-xs text-gray-400">
+                  Bus {arrival.vehicleLabel} · {(arrival.distanceMeters / 1000).toFixed(1)} km away
+                </p>
+              </div>
+              <span className="flex items-center gap-1 text-sm font-semibold text-green-400">
+                <Clock className="w-4 h-4" />
+                {formatEta(arrival.seconds)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  )
+}
+
+export default StopArrivals
@@ -0,0 +1,90 @@
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { useLocation } from "react-router-dom"
+import { CheckCircle2, Loader2, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { formatAmount, getTicketKey, verifyTicketCode, type TicketCheck } from "@/services/wallet"
+
+// Opened by scanning a ticket's QR code with any camera app. Checks the
+// signature and expiry on the device; the key is saved on first use so
+// later checks work with no signal.
+const TicketVerifier: React.FC = () => {
+  const location = useLocation()
+  const [code, setCode] = useState(location.hash.slice(1))
+  const [check, setCheck] = useState<TicketCheck | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  const verify = useCallback(async (value: string) => {
+    if (!value) return
+    setIsChecking(true)
+    try {
+      setCheck(await verifyTicketCode(value))
+    } catch {
+      setCheck({ status: "invalid", reason: "Unable to check this ticket" })
+    } finally {
+      setIsChecking(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const scanned = location.hash.slice(1)
+    setCode(scanned)
+    if (scanned) verify(scanned)
+    // Save the key now so the next scan works offline
+    else getTicketKey()
+  }, [location.hash, verify])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    verify(code)
+  }
+
+  const isValid = check?.status === "valid"
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 p-4">
+      <div className="w-full max-w-sm space-y-4 p-6 bg-black/30 backdrop-blur-xl border border-white/10 rounded-lg text-white">
+        <h2 className="text-2xl font-semibold text-center">Check a ticket</h2>
+
+        {isChecking && <Loader2 className="w-8 h-8 mx-auto animate-spin" />}
+
+        {check && !isChecking && (
+          <div className={`p-4 rounded-lg text-center ${isValid ? "bg-green-600" : "bg-red-600"}`}>
+            {isValid ? <CheckCircle2 className="w-12 h-12 mx-auto" /> : <XCircle className="w-12 h-12 mx-auto" />}
+            <p className="text-xl font-bold mt-2">
+              {check.status === "valid" ? "Valid" : check.status === "expired" ? "Expired" : "Not valid"}
+            </p>
+            {check.status === "invalid" ? (
+              <p className="text-sm">{check.reason}</p>
+            ) : (
+              <>
+                <p className="text-sm">
+                  {check.claims.rn} · {formatAmount(check.claims.amt, check.claims.cur)}
+                </p>
+                <p className="text-sm">
+                  {check.status === "valid" ? "Valid until" : "Expired at"}{" "}
+                  {new Date(check.claims.exp * 1000).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Or paste a ticket code"
+            className="bg-gray-800 border-white/10 text-white"
+          />
+          <Button type="submit" disabled={!code || isChecking} className="w-full bg-red-600 hover:bg-red-700 text-white">
+            Check
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default TicketVerifier
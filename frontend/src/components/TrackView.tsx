@@ -0,0 +1,190 @@
+import type React from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Link, useParams } from "react-router-dom"
+import { MapContainer, Marker, Popup, TileLayer, useMap } from "react-leaflet"
+import { Clock, Loader2 } from "lucide-react"
+import type { LatLngTuple } from "leaflet"
+import "leaflet/dist/leaflet.css"
+import "../assets/leafletIcons"
+import RouteLayers from "./RouteLayers"
+import socket from "@/services/socket"
+import { useLiveSubscriptions } from "@/hooks/useLiveSubscriptions"
+import { formatEta, type EtaUpdate } from "@/services/eta"
+import { formatLastSeen, toLatLng, type DriverPosition, type DriverPresence } from "@/services/tracking"
+import { describeTrip, fetchSharedTrip, type SharedTrip, type TripContext } from "@/services/trips"
+
+// Upcoming stops listed under the map
+const NEXT_STOPS_SHOWN = 5
+// Drives the "last seen" label while the bus is quiet
+const CLOCK_TICK_MS = 1000
+
+// Keeps the shared bus in view as it moves
+const FollowBus: React.FC<{ position: DriverPosition | null }> = ({ position }) => {
+  const map = useMap()
+  useEffect(() => {
+    if (position) map.panTo(toLatLng(position))
+  }, [map, position])
+  return null
+}
+
+// Read-only live view of one trip, opened from a shared /track/:tripId link.
+// Needs no role or sign-in, and stops updating once the trip ends.
+const TrackView: React.FC = () => {
+  const { tripId = "" } = useParams()
+  const [shared, setShared] = useState<SharedTrip | null>(null)
+  const [hasEnded, setHasEnded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+
+  const load = useCallback(() => {
+    fetchSharedTrip(tripId)
+      .then((next) => {
+        setShared(next)
+        setHasEnded(next === null)
+        setError(null)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load this trip"))
+  }, [tripId])
+
+  useEffect(load, [load])
+
+  const routeIds = useMemo(() => (shared && !hasEnded ? [shared.trip.routeId] : []), [shared, hasEnded])
+  useLiveSubscriptions(socket, routeIds, [])
+
+  const driverId = shared?.driverId
+  useEffect(() => {
+    if (!driverId) return
+
+    const onLocation = (update: { id: string; position: DriverPosition; trip: TripContext }) => {
+      if (update.trip.id !== tripId) return
+      setShared((prev) =>
+        prev && { ...prev, position: update.position, lastSeenAt: new Date().toISOString(), stale: false }
+      )
+    }
+    const onEta = (update: EtaUpdate) => {
+      if (update.tripId === tripId) setShared((prev) => prev && { ...prev, etas: update.etas })
+    }
+    const onPresence = (presence: DriverPresence) => {
+      if (presence.id !== driverId) return
+      setShared((prev) => prev && { ...prev, stale: presence.stale, lastSeenAt: presence.lastSeenAt })
+    }
+    // Sent when the bus leaves the map, which can mean the trip is over or
+    // only that the driver dropped off; the server's 410 tells them apart
+    const onDriverCheck = (id: string) => {
+      if (id === driverId) load()
+    }
+
+    // Events missed while offline aren't replayed
+    socket.on("connect", load)
+    socket.on("driverLocationUpdate", onLocation)
+    socket.on("etaUpdate", onEta)
+    socket.on("driverPresence", onPresence)
+    socket.on("driverCheck", onDriverCheck)
+    return () => {
+      socket.off("connect", load)
+      socket.off("driverLocationUpdate", onLocation)
+      socket.off("etaUpdate", onEta)
+      socket.off("driverPresence", onPresence)
+      socket.off("driverCheck", onDriverCheck)
+    }
+  }, [driverId, tripId, load])
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  if (hasEnded || error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gray-900 p-4 text-center text-white">
+        <h2 className="text-2xl font-semibold">{hasEnded ? "This trip has ended" : "Unable to show this bus"}</h2>
+        <p className="text-sm text-gray-400">
+          {hasEnded ? "The link stopped working when the bus finished its run." : error}
+        </p>
+        <Link to="/" className="text-blue-400 hover:text-blue-300">
+          Open Laal Bus
+        </Link>
+      </div>
+    )
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center gap-3 bg-gray-900 text-white">
+        <Loader2 className="w-6 h-6 animate-spin" />
+        <p>Finding the bus...</p>
+      </div>
+    )
+  }
+
+  const { trip, route, position, etas } = shared
+  const firstStop = route.stops[0]
+  const center: LatLngTuple = position
+    ? toLatLng(position)
+    : firstStop
+      ? [firstStop.latitude, firstStop.longitude]
+      : [24.8607, 67.0011]
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-white">
+      <div className="flex items-center gap-3 p-4 bg-black/30 backdrop-blur-xl border-b border-white/10">
+        <span className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: trip.routeColor }} />
+        <div>
+          <h2 className="font-semibold">{describeTrip(trip)}</h2>
+          <p className="text-sm text-gray-400">
+            Bus {trip.vehicleLabel}
+            {shared.stale && shared.lastSeenAt && ` · ${formatLastSeen(shared.lastSeenAt, now)}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-grow">
+        <MapContainer
+          center={center}
+          zoom={15}
+          style={{ height: "100%", width: "100%" }}
+          zoomControl={false}
+        >
+          <TileLayer
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          />
+          <RouteLayers routes={[route]} />
+          {position && (
+            <Marker position={toLatLng(position)} opacity={shared.stale ? 0.45 : 1}>
+              <Popup>
+                <strong>{describeTrip(trip)}</strong>
+                <br />
+                Bus {trip.vehicleLabel}
+              </Popup>
+            </Marker>
+          )}
+          <FollowBus position={position} />
+        </MapContainer>
+      </div>
+
+      <div className="p-4 bg-black/30 backdrop-blur-xl border-t border-white/10">
+        <h3 className="text-sm text-gray-400 mb-2">Next stops</h3>
+        {etas.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {position ? "Working out arrival times..." : "Waiting for the bus to share its location."}
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {etas.slice(0, NEXT_STOPS_SHOWN).map((eta) => (
+              <li key={eta.stopId} className="flex items-center justify-between text-sm">
+                <span>{eta.stopName}</span>
+                <span className="flex items-center gap-1 font-semibold text-green-400">
+                  <Clock className="w-4 h-4" />
+                  {formatEta(eta.seconds)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TrackView
@@ -0,0 +1,240 @@
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { MapContainer, Polyline, TileLayer } from "react-leaflet"
+import { latLngBounds, type LatLngTuple } from "leaflet"
+import { ArrowLeft, Download, Loader2, Trash2 } from "lucide-react"
+import "leaflet/dist/leaflet.css"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import PassengerAccountDialog from "./PassengerAccountDialog"
+import { usePassengerAuth } from "./contexts/PassengerAuthContext"
+import { useJourney } from "@/hooks/useJourney"
+import {
+  deleteJourney,
+  downloadJourneysCsv,
+  fetchJourneys,
+  formatDistance,
+  formatDuration,
+  type Journey,
+} from "@/services/journeys"
+
+// Journeys per page; matches the server's default
+const PAGE_SIZE = 20
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { weekday: "short", day: "numeric", month: "short", year: "numeric" })
+
+// The bus's path over the ride, fitted to a small static map
+const JourneyMap: React.FC<{ journey: Journey }> = ({ journey }) => {
+  const positions = journey.path.map((point) => [point.latitude, point.longitude] as LatLngTuple)
+  if (positions.length < 2) {
+    return (
+      <div className="h-32 flex items-center justify-center rounded-md bg-muted text-sm text-muted-foreground">
+        No track recorded
+      </div>
+    )
+  }
+
+  return (
+    <MapContainer
+      bounds={latLngBounds(positions)}
+      boundsOptions={{ padding: [12, 12] }}
+      className="h-32 rounded-md"
+      zoomControl={false}
+      dragging={false}
+      scrollWheelZoom={false}
+      doubleClickZoom={false}
+      touchZoom={false}
+      keyboard={false}
+    >
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      <Polyline positions={positions} pathOptions={{ color: journey.routeColor ?? "#dc2626", weight: 4 }} />
+    </MapContainer>
+  )
+}
+
+// Past rides of the signed-in passenger, built up by checking in and out of
+// buses, with a CSV download of the lot
+const TravelHistory: React.FC = () => {
+  const navigate = useNavigate()
+  const { passenger, authFetch } = usePassengerAuth()
+  const { journey: current, checkOut, autoCheckIn, setAutoCheckIn, error: journeyError } = useJourney()
+  const [journeys, setJourneys] = useState<Journey[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [showAccount, setShowAccount] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(
+    async (before?: string) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const page = await fetchJourneys(authFetch, before)
+        setJourneys((prev) => (before ? [...prev, ...page] : page))
+        setHasMore(page.length === PAGE_SIZE)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to load your journeys")
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [authFetch]
+  )
+
+  // Reloads after checking out, so the finished ride shows with its path
+  const passengerId = passenger?.id
+  const currentId = current?.id
+  useEffect(() => {
+    if (passengerId) load()
+    else setJourneys([])
+  }, [passengerId, currentId, load])
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      await downloadJourneysCsv(authFetch)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export your journeys")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleDelete = async (journey: Journey) => {
+    try {
+      await deleteJourney(authFetch, journey.id)
+      setJourneys((prev) => prev.filter((other) => other.id !== journey.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete the journey")
+    }
+  }
+
+  const completed = journeys.filter((journey) => journey.status === "completed")
+
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-background md:max-w-2xl lg:max-w-3xl">
+      <div className="bg-red-600 text-white p-6 pt-12 rounded-b-[2rem]">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="icon" className="hover:bg-red-500 text-white" onClick={() => navigate("/settings")}>
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <h1 className="text-xl font-bold md:text-2xl">Travel History</h1>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Download as CSV"
+            className="hover:bg-red-500 text-white"
+            disabled={!passenger || isExporting || completed.length === 0}
+            onClick={handleExport}
+          >
+            {isExporting ? <Loader2 className="w-6 h-6 animate-spin" /> : <Download className="w-6 h-6" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="px-4 mt-6 space-y-3 pb-6">
+        {!passenger ? (
+          <Card className="p-4 space-y-3 text-center">
+            <p className="text-sm text-muted-foreground">
+              Sign in to keep a history of the buses you ride, on every device.
+            </p>
+            <Button className="bg-red-600 hover:bg-red-700 text-white" onClick={() => setShowAccount(true)}>
+              Sign in
+            </Button>
+          </Card>
+        ) : (
+          <>
+            {(error || journeyError) && <p className="text-sm text-red-600">{error ?? journeyError}</p>}
+
+            {current && (
+              <Card className="flex items-center justify-between gap-3 p-4 border-green-600">
+                <div>
+                  <h3 className="font-medium">
+                    On {current.routeName}
+                    {current.headsign && ` towards ${current.headsign}`}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Since {formatTime(current.boardedAt)}
+                    {current.fromStopName && ` at ${current.fromStopName}`}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={() => checkOut()}>
+                  Check out
+                </Button>
+              </Card>
+            )}
+
+            <Card className="p-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={autoCheckIn} onChange={(e) => setAutoCheckIn(e.target.checked)} />
+                Check me in and out automatically from this phone's location while Laal Bus is open
+              </label>
+            </Card>
+
+            {completed.length === 0 && !isLoading && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No journeys yet. Tap a bus on the map and choose "I'm on this bus" to start one.
+              </p>
+            )}
+
+            {completed.map((journey) => (
+              <Card key={journey.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="flex items-center gap-2 font-medium">
+                      <span
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: journey.routeColor ?? "#dc2626" }}
+                      />
+                      {journey.routeName}
+                      {journey.headsign && <span className="text-muted-foreground">towards {journey.headsign}</span>}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(journey.boardedAt)} · {formatTime(journey.boardedAt)}
+                      {journey.alightedAt && ` – ${formatTime(journey.alightedAt)}`}
+                      {journey.alightedAt && ` · ${formatDuration(journey.boardedAt, journey.alightedAt)}`}
+                      {journey.distanceMeters !== undefined && ` · ${formatDistance(journey.distanceMeters)}`}
+                    </p>
+                    {(journey.fromStopName || journey.toStopName) && (
+                      <p className="text-sm">
+                        {journey.fromStopName ?? "?"} → {journey.toStopName ?? "?"}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {journey.vehicleLabel && `Bus ${journey.vehicleLabel} · `}
+                      {journey.checkInMethod === "auto" ? "Checked in automatically" : "Checked in by you"}
+                      {journey.checkOutMethod === "tripEnded" && " · bus finished its run"}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(journey)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <JourneyMap journey={journey} />
+              </Card>
+            ))}
+
+            {isLoading && <Loader2 className="w-6 h-6 mx-auto animate-spin text-muted-foreground" />}
+            {hasMore && !isLoading && (
+              <Button variant="outline" className="w-full" onClick={() => load(journeys[journeys.length - 1]?.boardedAt)}>
+                Show older journeys
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      <PassengerAccountDialog open={showAccount} onOpenChange={setShowAccount} />
+    </div>
+  )
+}
+
+export default TravelHistory
@@ -1,9 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet-routing-machine';
-import { LatLngExpression } from 'leaflet';
+import { LatLngExpression, LatLngTuple } from 'leaflet';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   AlertCircle, MessageSquare, User, Settings, Loader2, 
@@ -14,6 +14,27 @@ import 'leaflet/dist/leaflet.css';
 import 'leaflet-routing-machine/dist/leaflet-routing-machine.css';
 import io from "socket.io-client";
 import '../assets/leafletIcons';
+import RouteLayers from './RouteLayers';
+import { useRoutes } from '@/hooks/useRoutes';
+import { formatLastSeen, toLatLng, type DriverPosition, type DriverPresence } from '@/services/tracking';
+import { describeTrip, getTrackingLink, type TripContext } from '@/services/trips';
+import { getArrivalsForStop, type EtaUpdate } from '@/services/eta';
+import type { Stop } from '@/services/routes';
+import StopArrivals from './StopArrivals';
+import RouteFilter from './RouteFilter';
+import BusAtStopBanner from './BusAtStopBanner';
+import type { BusArrival, BusDeparture } from '@/services/stopEvents';
+import { useLiveSubscriptions } from '@/hooks/useLiveSubscriptions';
+import { useServiceAlerts } from '@/hooks/useServiceAlerts';
+import { isAlertRelevant } from '@/services/serviceAlerts';
+import ServiceAlertBanner from './ServiceAlertBanner';
+import FavoritesPanel from './FavoritesPanel';
+import PassengerAccountDialog from './PassengerAccountDialog';
+import { usePassengerAuth } from './contexts/PassengerAuthContext';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useJourney } from '@/hooks/useJourney';
+import JourneyBanner from './JourneyBanner';
+import type { Favorite } from '@/services/favorites';
 
 // Custom Routing Control Component
 const RoutingControl = ({ start, end }: { start: LatLngExpression, end: LatLngExpression }) => {
@@ -50,8 +71,21 @@ const RoutingControl = ({ start, end }: { start: LatLngExpression, end: LatLngEx
 // Interfaces
 interface DriverLocation {
   id: string;
-  position: LatLngExpression;
-  path?: LatLngExpression[];
+  position: LatLngTuple;
+  trip?: TripContext;
+  path?: LatLngTuple[];
+  stale?: boolean;
+  lastSeenAt?: string;
+  emergency?: boolean;
+}
+
+interface DriverLocationUpdate {
+  id: string;
+  position: DriverPosition;
+  trip: TripContext;
+  stale?: boolean;
+  lastSeenAt?: string;
+  emergency?: boolean;
 }
 
 interface SearchResult {
@@ -68,9 +102,28 @@ const UserView: React.FC = () => {
   const [followingDriverId, setFollowingDriverId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeDriversCount, setActiveDriversCount] = useState(0);
+  const { routes } = useRoutes();
+  const [etas, setEtas] = useState<Record<string, EtaUpdate>>({});
+  const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
+  // Buses currently standing at a stop, by driver id
+  const [busesAtStops, setBusesAtStops] = useState<Record<string, BusArrival>>({});
+  // null follows every route; otherwise only these routes are drawn and streamed
+  const [watchedRouteIds, setWatchedRouteIds] = useState<string[] | null>(null);
+  const [showRouteFilter, setShowRouteFilter] = useState(false);
+  // Opened straight away when arriving from "My Routes" in settings
+  const location = useLocation();
+  const [showFavorites, setShowFavorites] = useState<boolean>(location.state?.showFavorites === true);
+  const { favorites, isFavorite, toggle: toggleFavorite, remove: removeFavorite } = useFavorites();
+  // Drives the "last seen" labels of stale buses
+  const [now, setNow] = useState(Date.now());
+  // Short confirmation shown after the Share button
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
   
   // Profile and Search States
   const [showProfile, setShowProfile] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+  const { passenger, logout } = usePassengerAuth();
+  const { journey, checkIn, checkOut, error: journeyError, clearError: clearJourneyError } = useJourney();
   const [showSearchBox, setShowSearchBox] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -93,14 +146,31 @@ const UserView: React.FC = () => {
   );
   const mapRef = useRef<any>(null);
 
+  const watchedRoutes = useMemo(
+    () => (watchedRouteIds === null ? routes : routes.filter(route => watchedRouteIds.includes(route._id))),
+    [routes, watchedRouteIds]
+  );
+  const subscribedRouteIds = useMemo(() => watchedRoutes.map(route => route._id), [watchedRoutes]);
+  const subscribedStopIds = useMemo(() => (selectedStop ? [selectedStop._id] : []), [selectedStop]);
+  useLiveSubscriptions(socketRef.current, subscribedRouteIds, subscribedStopIds);
+
+  // Alerts for the routes on the map, the selected stop and the routes serving it
+  const { alerts: serviceAlerts, dismiss: dismissServiceAlert } = useServiceAlerts(socketRef.current);
+  const selectedStopRouteIds = selectedStop
+    ? routes.filter(route => route.stops.some(stop => stop._id === selectedStop._id)).map(route => route._id)
+    : [];
+  const visibleServiceAlerts = serviceAlerts.filter(alert =>
+    isAlertRelevant(alert, { routeIds: [...subscribedRouteIds, ...selectedStopRouteIds], stopIds: subscribedStopIds })
+  );
+
   // Existing useEffect for socket connection and driver locations
   useEffect(() => {
     const socket = socketRef.current;
     socket.connect();
-    socket.emit("user-connected");
 
     // Existing socket event handlers for driver locations
-    socket.on("driverLocationUpdate", (data: DriverLocation) => {
+    socket.on("driverLocationUpdate", (update: DriverLocationUpdate) => {
+      const data = { id: update.id, position: toLatLng(update.position), trip: update.trip };
       setDriverLocations((prevLocations) => {
         const existingDriverIndex = prevLocations.findIndex(
           (driver) => driver.id === data.id
@@ -113,6 +183,8 @@ const UserView: React.FC = () => {
           updatedLocations[existingDriverIndex] = {
             ...existingDriver,
             position: data.position,
+            trip: data.trip,
+            stale: false,
             path: [
               ...(existingDriver.path || []),
               data.position
@@ -127,22 +199,77 @@ const UserView: React.FC = () => {
       setIsLoading(false);
     });
 
-    // Existing socket event handlers
-    socket.on("driverLocations", (drivers) => {
-      const updatedLocations = Object.entries(drivers).map(([id, position]) => ({
+    // Snapshot of the buses on the subscribed routes and stops, sent after every (un)subscribe
+    socket.on("driverLocations", (drivers: Record<string, Omit<DriverLocationUpdate, "id">>) => {
+      const updatedLocations = Object.entries(drivers).map(([id, { position, trip, stale, lastSeenAt, emergency }]) => ({
         id,
-        position: position as LatLngExpression,
-        path: [position as LatLngExpression]
+        position: toLatLng(position),
+        trip,
+        stale,
+        lastSeenAt,
+        emergency,
+        path: [toLatLng(position)]
       }));
 
       setDriverLocations(updatedLocations);
+      setEtas((prevEtas) =>
+        Object.fromEntries(Object.entries(prevEtas).filter(([driverId]) => driverId in drivers))
+      );
+      setBusesAtStops((prevBuses) =>
+        Object.fromEntries(Object.entries(prevBuses).filter(([driverId]) => driverId in drivers))
+      );
       setIsLoading(false);
     });
 
+    // The bus keeps its place on the map while the driver app is briefly unreachable
+    socket.on("driverPresence", (presence: DriverPresence) => {
+      setDriverLocations((prevDrivers) =>
+        prevDrivers.map((driverObj) =>
+          driverObj.id === presence.id
+            ? { ...driverObj, stale: presence.stale, lastSeenAt: presence.lastSeenAt }
+            : driverObj
+        )
+      );
+    });
+
+    // Flagged while the driver has an unresolved SOS
+    socket.on("driverEmergency", ({ id, active }: { id: string; active: boolean }) => {
+      setDriverLocations((prevDrivers) =>
+        prevDrivers.map((driverObj) => (driverObj.id === id ? { ...driverObj, emergency: active } : driverObj))
+      );
+    });
+
     socket.on("driverCheck", (socketId) => {
       setDriverLocations((prevDrivers) =>
         prevDrivers.filter((driverObj) => driverObj.id !== socketId)
       );
+      setEtas((prevEtas) => {
+        const rest = { ...prevEtas };
+        delete rest[socketId];
+        return rest;
+      });
+      setBusesAtStops((prevBuses) => {
+        const rest = { ...prevBuses };
+        delete rest[socketId];
+        return rest;
+      });
+    });
+
+    socket.on("busArrived", (arrival: BusArrival) => {
+      setBusesAtStops((prevBuses) => ({ ...prevBuses, [arrival.driverId]: arrival }));
+    });
+
+    socket.on("busDeparted", (departure: BusDeparture) => {
+      setBusesAtStops((prevBuses) => {
+        if (prevBuses[departure.driverId]?.stopId !== departure.stopId) return prevBuses;
+        const rest = { ...prevBuses };
+        delete rest[departure.driverId];
+        return rest;
+      });
+    });
+
+    socket.on("etaUpdate", (update: EtaUpdate) => {
+      setEtas((prevEtas) => ({ ...prevEtas, [update.driverId]: update }));
     });
 
     // Fetch active drivers count
@@ -160,11 +287,13 @@ const UserView: React.FC = () => {
     socket.on("active-drivers-updated", fetchActiveDriversCount);
 
     const intervalId = setInterval(fetchActiveDriversCount, 30000);
+    const clockId = setInterval(() => setNow(Date.now()), 5000);
 
     return () => {
       socket.offAny();
       socket.disconnect();
       clearInterval(intervalId);
+      clearInterval(clockId);
     };
   }, []);
 
@@ -220,6 +349,47 @@ const UserView: React.FC = () => {
     setRoutePoints({ start: null, end: null });
   };
 
+  // A saved stop opens its arrivals; a saved route is added to the routes on the map
+  const handleFavoriteSelect = (favorite: Favorite) => {
+    if (favorite.type === 'stop') {
+      const stop = routes.flatMap(route => route.stops).find(stop => stop._id === favorite.id);
+      if (!stop) return;
+      setSelectedStop(stop);
+      mapRef.current?.setView([stop.latitude, stop.longitude], 16);
+    } else if (watchedRouteIds !== null && !watchedRouteIds.includes(favorite.id)) {
+      setWatchedRouteIds([...watchedRouteIds, favorite.id]);
+    }
+    setShowFavorites(false);
+  };
+
+  // Shares a live link to the bus last tapped on the map
+  const handleShare = async () => {
+    const trip = driverLocations.find(driver => driver.id === followingDriverId)?.trip;
+    if (!trip) {
+      setShareMessage('Tap a bus on the map, then share it');
+      return;
+    }
+
+    const url = getTrackingLink(trip.id);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: describeTrip(trip), text: `Bus ${trip.vehicleLabel}, live`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setShareMessage('Link copied, it works until the trip ends');
+      }
+    } catch (error) {
+      // Closing the share sheet rejects too
+      if ((error as Error).name !== 'AbortError') setShareMessage('Unable to share this bus');
+    }
+  };
+
+  useEffect(() => {
+    if (!shareMessage) return;
+    const timeoutId = setTimeout(() => setShareMessage(null), 3000);
+    return () => clearTimeout(timeoutId);
+  }, [shareMessage]);
+
   // Existing methods
   const handleProfile = () => {
     setShowProfile(!showProfile);
@@ -248,6 +418,25 @@ const UserView: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* Disruptions on what the passenger is looking at */}
+      {visibleServiceAlerts.length > 0 && (
+        <ServiceAlertBanner
+          alerts={visibleServiceAlerts}
+          onDismiss={dismissServiceAlert}
+          className="relative z-20 p-2"
+        />
+      )}
+
+      {/* The bus the passenger is checked in on */}
+      {(journey || journeyError) && (
+        <JourneyBanner
+          journey={journey}
+          error={journeyError}
+          onCheckOut={() => checkOut()}
+          onDismissError={clearJourneyError}
+        />
+      )}
+
       {/* Map Container */}
       <motion.div 
         initial={{ opacity: 0 }}
@@ -276,19 +465,67 @@ const UserView: React.FC = () => {
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
               />
 
+              {/* Route shapes and stops */}
+              <RouteLayers routes={watchedRoutes} onStopSelect={setSelectedStop} />
+
               {/* Existing driver location markers */}
               {driverLocations.map((driver) => (
                 <React.Fragment key={driver.id}>
-                  <Marker position={driver.position}>
-                    <Popup>Driver ID: {driver.id}</Popup>
+                  {driver.emergency && (
+                    <CircleMarker
+                      center={driver.position}
+                      radius={22}
+                      pathOptions={{ color: '#dc2626', fillColor: '#dc2626', fillOpacity: 0.25, weight: 3 }}
+                    />
+                  )}
+                  <Marker
+                    position={driver.position}
+                    opacity={driver.stale ? 0.45 : 1}
+                    eventHandlers={{ click: () => setFollowingDriverId(driver.id) }}
+                  >
+                    <Popup>
+                      {driver.trip ? (
+                        <>
+                          <strong>{describeTrip(driver.trip)}</strong>
+                          <br />
+                          Bus {driver.trip.vehicleLabel}
+                        </>
+                      ) : (
+                        <>Driver ID: {driver.id}</>
+                      )}
+                      {driver.emergency && (
+                        <>
+                          <br />
+                          <span className="text-red-600 font-semibold">Emergency reported</span>
+                        </>
+                      )}
+                      {driver.stale && driver.lastSeenAt && (
+                        <>
+                          <br />
+                          <span className="text-gray-500">{formatLastSeen(driver.lastSeenAt, now)}</span>
+                        </>
+                      )}
+                      {driver.trip && journey?.tripId !== driver.trip.id && (
+                        <>
+                          <br />
+                          <button
+                            onClick={() => (passenger ? checkIn(driver.trip!.id) : setShowAccount(true))}
+                            className="mt-1 text-blue-600 hover:underline"
+                          >
+                            {passenger ? "I'm on this bus" : 'Sign in to log this trip'}
+                          </button>
+                        </>
+                      )}
+                    </Popup>
                   </Marker>
 
                   {driver.path && driver.path.length > 1 && (
                     <Polyline
                       positions={driver.path}
-                      color="blue"
+                      color={driver.trip?.routeColor ?? "blue"}
                       weight={3}
-                      opacity={0.7}
+                      opacity={driver.stale ? 0.3 : 0.7}
+                      dashArray={driver.stale ? "4 6" : undefined}
                     />
                   )}
                 </React.Fragment>
@@ -327,6 +564,68 @@ const UserView: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* Route filter */}
+      <AnimatePresence>
+        {showRouteFilter && (
+          <RouteFilter
+            routes={routes}
+            selectedIds={watchedRouteIds}
+            onChange={setWatchedRouteIds}
+            isSaved={id => isFavorite('route', id)}
+            onToggleSaved={route => toggleFavorite({ type: 'route', id: route._id, name: route.name, color: route.color })}
+            onClose={() => setShowRouteFilter(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Saved stops and routes */}
+      <AnimatePresence>
+        {showFavorites && (
+          <FavoritesPanel
+            favorites={favorites}
+            onSelect={handleFavoriteSelect}
+            onRemove={removeFavorite}
+            onClose={() => setShowFavorites(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Bus standing at the selected stop */}
+      <AnimatePresence>
+        {selectedStop && Object.values(busesAtStops).some(bus => bus.stopId === selectedStop._id) && (
+          <BusAtStopBanner
+            arrivals={Object.values(busesAtStops).filter(bus => bus.stopId === selectedStop._id)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Stop arrivals */}
+      <AnimatePresence>
+        {selectedStop && (
+          <StopArrivals
+            stop={selectedStop}
+            arrivals={getArrivalsForStop(Object.values(etas), selectedStop._id)}
+            isSaved={isFavorite('stop', selectedStop._id)}
+            onToggleSaved={() => toggleFavorite({ type: 'stop', id: selectedStop._id, name: selectedStop.name })}
+            onClose={() => setSelectedStop(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Share confirmation */}
+      <AnimatePresence>
+        {shareMessage && (
+          <motion.div
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: 10, opacity: 0 }}
+            className="absolute z-50 bottom-24 left-1/2 -translate-x-1/2 px-4 py-2 bg-gray-900/95 border border-white/20 rounded-lg text-sm text-white shadow-2xl"
+          >
+            {shareMessage}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Routing Buttons */}
       <div className="absolute bottom-24 right-5 z-50 flex flex-col space-y-2">
         <button 
@@ -403,19 +702,25 @@ const UserView: React.FC = () => {
         <nav className="bg-black/30 backdrop-blur-xl border-t border-white/10 p-4">
           <div className="flex justify-between items-center max-w-screen-xl mx-auto">
             <button 
-              onClick={() => console.log("Map button clicked")}
+              onClick={() => {
+                setShowRouteFilter(!showRouteFilter);
+                setShowFavorites(false);
+              }}
               className="p-3 hover:bg-blue-700/50 rounded-full transition-all duration-300 ease-in-out transform hover:scale-110"
             >
               <MapIcon className="w-6 h-6 text-white" />
             </button>
             <button 
-              onClick={() => console.log("Share button clicked")}
+              onClick={handleShare}
               className="p-3 hover:bg-blue-700/50 rounded-full transition-all duration-300 ease-in-out transform hover:scale-110"
             >
               <Share2Icon className="w-6 h-6 text-white" />
             </button>
             <button 
-              onClick={() => console.log("Bookmark button clicked")}
+              onClick={() => {
+                setShowFavorites(!showFavorites);
+                setShowRouteFilter(false);
+              }}
               className="p-3 hover:bg-blue-700/50 rounded-full transition-all duration-300 ease-in-out transform hover:scale-110"
             >
               <BookmarkIcon className="w-6 h-6 text-white" />
@@ -461,14 +766,28 @@ const UserView: React.FC = () => {
                   <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center">
                     <UserIcon className="w-8 h-8" />
                   </div>
-                  <div>
-                    <h3 className="font-semibold">User Name</h3>
-                    <p className="text-sm text-gray-400">user@example.com</p>
-                  </div>
+                  {passenger ? (
+                    <button onClick={() => setShowAccount(true)} className="text-left">
+                      <h3 className="font-semibold">{passenger.name}</h3>
+                      <p className="text-sm text-gray-400">{passenger.email}</p>
+                    </button>
+                  ) : (
+                    <div>
+                      <h3 className="font-semibold">Guest</h3>
+                      <button onClick={() => setShowAccount(true)} className="text-sm text-blue-400 hover:text-blue-300">
+                        Sign in to keep your stops on every device
+                      </button>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="space-y-2">
-                  <button className="w-full p-4 text-left hover:bg-white/10 rounded-lg transition-colors flex items-center space-x-3">
+                  <button 
+                  onClick={() => {
+                    setShowFavorites(true);
+                    setShowProfile(false);
+                  }}
+                  className="w-full p-4 text-left hover:bg-white/10 rounded-lg transition-colors flex items-center space-x-3">
                     <MapIcon className="w-5 h-5" />
                     <span>My Routes</span>
                   </button>
@@ -488,15 +807,29 @@ const UserView: React.FC = () => {
                   </button>
                 </div>
 
-                <button className="w-full p-4 text-left text-red-400 hover:bg-white/10 rounded-lg mt-auto transition-colors">
-                  Sign Out
-                </button>
+                {passenger ? (
+                  <button
+                    onClick={logout}
+                    className="w-full p-4 text-left text-red-400 hover:bg-white/10 rounded-lg mt-auto transition-colors"
+                  >
+                    Sign Out
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setShowAccount(true)}
+                    className="w-full p-4 text-left text-blue-400 hover:bg-white/10 rounded-lg mt-auto transition-colors"
+                  >
+                    Sign In
+                  </button>
+                )}
               </div>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      <PassengerAccountDialog open={showAccount} onOpenChange={setShowAccount} />
+
       {showSearchBox && (
         <div className="absolute z-50 top-24 left-5 p-4 bg-gray-900/95 backdrop-blur-xl border-l border-white/20 shadow-2xl border rounded-lg w-80">
         <div className="flex items-center justify-between mb-2">
@@ -0,0 +1,264 @@
+import type React from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { QRCodeSVG } from "qrcode.react"
+import { ArrowLeft, Loader2, Ticket as TicketIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import PassengerAccountDialog from "./PassengerAccountDialog"
+import { usePassengerAuth } from "./contexts/PassengerAuthContext"
+import { useRoutes } from "@/hooks/useRoutes"
+import {
+  buyTicket,
+  fetchFares,
+  fetchPaymentMethods,
+  fetchTickets,
+  fetchWallet,
+  formatAmount,
+  getFareForRoute,
+  getTicketLink,
+  topUpWallet,
+  type FareRule,
+  type PaymentMethod,
+  type Ticket,
+  type Wallet,
+} from "@/services/wallet"
+
+const TOP_UP_AMOUNTS = [100, 250, 500, 1000]
+// Drives the countdown on live tickets
+const CLOCK_TICK_MS = 1000
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+const formatRemaining = (expiresAt: string, now: number) => {
+  const seconds = Math.max(0, Math.round((new Date(expiresAt).getTime() - now) / 1000))
+  const minutes = Math.floor(seconds / 60)
+  if (minutes >= 60) return `${Math.floor(minutes / 60)} h ${minutes % 60} min left`
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")} left`
+}
+
+// Fare wallet: top up the balance, buy a ticket for a route and show it as
+// a signed QR code inspectors can check offline
+const WalletPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { passenger, authFetch } = usePassengerAuth()
+  const { routes } = useRoutes()
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [tickets, setTickets] = useState<Ticket[]>([])
+  const [fares, setFares] = useState<FareRule[]>([])
+  const [methods, setMethods] = useState<PaymentMethod[]>([])
+  const [paymentMethod, setPaymentMethod] = useState("")
+  const [routeId, setRouteId] = useState("")
+  const [busy, setBusy] = useState<"topUp" | "ticket" | null>(null)
+  const [showAccount, setShowAccount] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  // The top-up being attempted; retrying it reuses its key so the card
+  // isn't charged twice when only the response was lost
+  const pendingTopUpRef = useRef<{ amount: number; paymentMethod: string; idempotencyKey: string } | null>(null)
+
+  const passengerId = passenger?.id
+  const load = useCallback(async () => {
+    if (!passengerId) return
+    try {
+      const [nextWallet, nextTickets] = await Promise.all([fetchWallet(authFetch), fetchTickets(authFetch)])
+      setWallet(nextWallet)
+      setTickets(nextTickets)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load your wallet")
+    }
+  }, [passengerId, authFetch])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    Promise.all([fetchFares(), fetchPaymentMethods()])
+      .then(([nextFares, nextMethods]) => {
+        setFares(nextFares)
+        setMethods(nextMethods)
+        setPaymentMethod((current) => current || nextMethods[0]?.id || "")
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unable to load fares"))
+  }, [])
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  const handleTopUp = async (amount: number) => {
+    setBusy("topUp")
+    setError(null)
+    const pending = pendingTopUpRef.current
+    const topUp =
+      pending?.amount === amount && pending.paymentMethod === paymentMethod
+        ? pending
+        : { amount, paymentMethod, idempotencyKey: crypto.randomUUID() }
+    pendingTopUpRef.current = topUp
+    try {
+      await topUpWallet(authFetch, topUp)
+      pendingTopUpRef.current = null
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to top up")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleBuy = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy("ticket")
+    setError(null)
+    try {
+      await buyTicket(authFetch, routeId)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to buy the ticket")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const currency = wallet?.currency ?? "PKR"
+  const fare = routeId ? getFareForRoute(fares, routeId) : undefined
+  const liveTickets = tickets.filter((ticket) => new Date(ticket.expiresAt).getTime() > now)
+
+  return (
+    <div className="max-w-md mx-auto min-h-screen bg-background md:max-w-2xl lg:max-w-3xl">
+      <div className="bg-red-600 text-white p-6 pt-12 rounded-b-[2rem]">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="icon" className="hover:bg-red-500 text-white" onClick={() => navigate("/settings")}>
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+          <h1 className="text-xl font-bold md:text-2xl">Wallet</h1>
+          <span className="w-10" />
+        </div>
+        {wallet && (
+          <div className="text-center mt-6">
+            <p className="text-sm opacity-80">Balance</p>
+            <p className="text-4xl font-bold">{formatAmount(wallet.balance, currency)}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 mt-6 space-y-3 pb-6">
+        {!passenger ? (
+          <Card className="p-4 space-y-3 text-center">
+            <p className="text-sm text-muted-foreground">Sign in to top up a wallet and buy tickets on your phone.</p>
+            <Button className="bg-red-600 hover:bg-red-700 text-white" onClick={() => setShowAccount(true)}>
+              Sign in
+            </Button>
+          </Card>
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {liveTickets.map((ticket) => (
+              <Card key={ticket.id} className="p-4 flex flex-col items-center gap-3 border-green-600">
+                <QRCodeSVG value={getTicketLink(ticket.code)} size={208} level="M" />
+                <div className="text-center">
+                  <h3 className="font-semibold">
+                    {ticket.fareName ?? "Ticket"} · {ticket.routeName}
+                  </h3>
+                  <p className="text-sm text-green-700 font-medium">{formatRemaining(ticket.expiresAt, now)}</p>
+                </div>
+              </Card>
+            ))}
+
+            <Card className="p-4">
+              <form onSubmit={handleBuy} className="space-y-3">
+                <h3 className="font-medium">Buy a ticket</h3>
+                <select value={routeId} onChange={(e) => setRouteId(e.target.value)} required className={selectClassName}>
+                  <option value="">Choose a route</option>
+                  {routes.map((route) => (
+                    <option key={route._id} value={route._id}>
+                      {route.name} {route.description}
+                    </option>
+                  ))}
+                </select>
+                {routeId && (
+                  <p className="text-sm text-muted-foreground">
+                    {fare
+                      ? `${fare.name}: ${formatAmount(fare.amount, currency)}, valid for ${fare.validityMinutes} min`
+                      : "No fare is set for this route yet"}
+                  </p>
+                )}
+                <Button
+                  type="submit"
+                  disabled={busy !== null || !fare}
+                  className="w-full bg-red-600 hover:bg-red-700 text-white"
+                >
+                  {busy === "ticket" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Buy ticket"}
+                </Button>
+              </form>
+            </Card>
+
+            <Card className="p-4 space-y-3">
+              <h3 className="font-medium">Top up</h3>
+              {methods.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Top-ups aren't available right now.</p>
+              ) : (
+                <>
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {methods.map((method) => (
+                      <option key={method.id} value={method.id}>
+                        {method.label}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-4 gap-2">
+                    {TOP_UP_AMOUNTS.map((amount) => (
+                      <Button
+                        key={amount}
+                        variant="outline"
+                        disabled={busy !== null || !paymentMethod}
+                        onClick={() => handleTopUp(amount)}
+                      >
+                        {formatAmount(amount, currency)}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </Card>
+
+            {wallet && wallet.entries.length > 0 && (
+              <Card className="p-4">
+                <h3 className="font-medium mb-2">Activity</h3>
+                <ul className="divide-y">
+                  {wallet.entries.map((entry) => (
+                    <li key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        {entry.type === "ticket" && <TicketIcon className="w-4 h-4 text-muted-foreground" />}
+                        <div>
+                          <p>{entry.description ?? (entry.type === "topUp" ? "Top-up" : "Ticket")}</p>
+                          <p className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                      <span className={entry.amount > 0 ? "text-green-700 font-medium" : "font-medium"}>
+                        {entry.amount > 0 ? "+" : ""}
+                        {formatAmount(entry.amount, entry.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      <PassengerAccountDialog open={showAccount} onOpenChange={setShowAccount} />
+    </div>
+  )
+}
+
+export default WalletPage
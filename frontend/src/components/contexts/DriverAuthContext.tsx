@@ -0,0 +1,146 @@
+import type React from "react"
+import { createContext, useCallback, useContext, useRef, useState } from "react"
+import {
+  clearSession,
+  DRIVER_SESSION_KEY,
+  loadSession,
+  loginDriver,
+  logoutDriver,
+  refreshDriverSession,
+  saveSession,
+  type AccountRole,
+  type DriverProfile,
+  type DriverSession,
+} from "@/services/auth"
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 30 * 1000
+
+interface DriverAuthContextType {
+  driver: DriverProfile | null
+  login: (username: string, password: string) => Promise<void>
+  logout: () => Promise<void>
+  getAccessToken: () => Promise<string | null>
+  // Exchanges the refresh token even if the access token looks unexpired,
+  // e.g. after the server said the session has ended. Null once signed out.
+  refreshAccessToken: () => Promise<string | null>
+  authFetch: (path: string, init?: RequestInit) => Promise<Response>
+}
+
+const DriverAuthContext = createContext<DriverAuthContextType | undefined>(undefined)
+
+interface DriverAuthProviderProps {
+  children: React.ReactNode
+  // Where the session is kept, and which kind of account may sign in
+  storageKey?: string
+  role?: AccountRole
+}
+
+export const DriverAuthProvider: React.FC<DriverAuthProviderProps> = ({
+  children,
+  storageKey = DRIVER_SESSION_KEY,
+  role = "driver",
+}) => {
+  const [session, setSession] = useState<DriverSession | null>(() => loadSession(storageKey))
+  const sessionRef = useRef(session)
+  const refreshingRef = useRef<Promise<DriverSession | null> | null>(null)
+
+  const updateSession = useCallback((next: DriverSession | null) => {
+    sessionRef.current = next
+    setSession(next)
+    if (next) {
+      saveSession(next, storageKey)
+    } else {
+      clearSession(storageKey)
+    }
+  }, [storageKey])
+
+  // Concurrent callers share one refresh request so the rotated token isn't used twice
+  const refresh = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current) return null
+    if (!refreshingRef.current) {
+      refreshingRef.current = refreshDriverSession(current.refreshToken)
+        .then((next) => {
+          updateSession(next)
+          return next
+        })
+        .finally(() => {
+          refreshingRef.current = null
+        })
+    }
+    return refreshingRef.current
+  }, [updateSession])
+
+  const getAccessToken = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current) return null
+    if (current.accessTokenExpiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return current.accessToken
+    }
+    const next = await refresh()
+    return next?.accessToken ?? null
+  }, [refresh])
+
+  const refreshAccessToken = useCallback(async () => {
+    const next = await refresh()
+    return next?.accessToken ?? null
+  }, [refresh])
+
+  const authFetch = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const send = (token: string | null) =>
+        fetch(`${import.meta.env.VITE_BACKEND_URL}${path}`, {
+          ...init,
+          headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        })
+
+      const response = await send(await getAccessToken())
+      if (response.status !== 401 || !sessionRef.current) return response
+
+      // The token may have been rejected early (e.g. clock skew), try once more
+      const next = await refresh()
+      return next ? send(next.accessToken) : response
+    },
+    [getAccessToken, refresh]
+  )
+
+  const login = useCallback(
+    async (username: string, password: string) => {
+      const next = await loginDriver(username, password)
+      if ((next.driver.role ?? "driver") !== role) {
+        await logoutDriver(next.accessToken).catch(() => undefined)
+        throw new Error(role === "dispatcher" ? "This account is not a dispatcher" : "Dispatchers sign in at /dispatch")
+      }
+      updateSession(next)
+    },
+    [role, updateSession]
+  )
+
+  const logout = useCallback(async () => {
+    try {
+      const token = await getAccessToken()
+      if (token) await logoutDriver(token)
+    } catch (error) {
+      console.error("Error logging out:", error)
+    } finally {
+      updateSession(null)
+    }
+  }, [getAccessToken, updateSession])
+
+  return (
+    <DriverAuthContext.Provider
+      value={{ driver: session?.driver ?? null, login, logout, getAccessToken, refreshAccessToken, authFetch }}
+    >
+      {children}
+    </DriverAuthContext.Provider>
+  )
+}
+
+export const useDriverAuth = () => {
+  const context = useContext(DriverAuthContext)
+  if (context === undefined) {
+    throw new Error("useDriverAuth must be used within a DriverAuthProvider")
+  }
+  return context
+}
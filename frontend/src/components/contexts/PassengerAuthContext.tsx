@@ -0,0 +1,136 @@
+import type React from "react"
+import { createContext, useCallback, useContext, useRef, useState } from "react"
+import {
+  loadPassengerSession,
+  loginPassenger,
+  logoutPassenger,
+  refreshPassengerSession,
+  savePassengerSession,
+  signUpPassenger,
+  updatePassengerProfile,
+  type PassengerProfile,
+  type PassengerProfileUpdate,
+  type PassengerSession,
+} from "@/services/passengerAuth"
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 30 * 1000
+
+interface PassengerAuthContextType {
+  // Null while using the map anonymously
+  passenger: PassengerProfile | null
+  signUp: (account: { email: string; name: string; password: string }) => Promise<void>
+  login: (email: string, password: string) => Promise<void>
+  logout: () => Promise<void>
+  updateProfile: (update: PassengerProfileUpdate) => Promise<void>
+  // Sends the access token when signed in, and nothing otherwise
+  authFetch: (path: string, init?: RequestInit) => Promise<Response>
+}
+
+const PassengerAuthContext = createContext<PassengerAuthContextType | undefined>(undefined)
+
+export const PassengerAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<PassengerSession | null>(() => loadPassengerSession())
+  const sessionRef = useRef(session)
+  const refreshingRef = useRef<Promise<PassengerSession | null> | null>(null)
+
+  const updateSession = useCallback((next: PassengerSession | null) => {
+    sessionRef.current = next
+    setSession(next)
+    savePassengerSession(next)
+  }, [])
+
+  // Concurrent callers share one refresh request so the rotated token isn't used twice
+  const refresh = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current) return null
+    if (!refreshingRef.current) {
+      refreshingRef.current = refreshPassengerSession(current.refreshToken)
+        .then((next) => {
+          updateSession(next)
+          return next
+        })
+        .finally(() => {
+          refreshingRef.current = null
+        })
+    }
+    return refreshingRef.current
+  }, [updateSession])
+
+  const getAccessToken = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current) return null
+    if (current.accessTokenExpiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return current.accessToken
+    }
+    const next = await refresh()
+    return next?.accessToken ?? null
+  }, [refresh])
+
+  const authFetch = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const send = (token: string | null) =>
+        fetch(`${import.meta.env.VITE_BACKEND_URL}${path}`, {
+          ...init,
+          headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        })
+
+      const response = await send(await getAccessToken())
+      if (response.status !== 401 || !sessionRef.current) return response
+
+      // The token may have been rejected early (e.g. clock skew), try once more
+      const next = await refresh()
+      return send(next?.accessToken ?? null)
+    },
+    [getAccessToken, refresh]
+  )
+
+  const signUp = useCallback(
+    async (account: { email: string; name: string; password: string }) => {
+      updateSession(await signUpPassenger(account))
+    },
+    [updateSession]
+  )
+
+  const login = useCallback(
+    async (email: string, password: string) => {
+      updateSession(await loginPassenger(email, password))
+    },
+    [updateSession]
+  )
+
+  const logout = useCallback(async () => {
+    try {
+      const token = await getAccessToken()
+      if (token) await logoutPassenger(token)
+    } catch (error) {
+      console.error("Error signing out:", error)
+    } finally {
+      updateSession(null)
+    }
+  }, [getAccessToken, updateSession])
+
+  const updateProfile = useCallback(
+    async (update: PassengerProfileUpdate) => {
+      const passenger = await updatePassengerProfile(authFetch, update)
+      if (sessionRef.current) updateSession({ ...sessionRef.current, passenger })
+    },
+    [authFetch, updateSession]
+  )
+
+  return (
+    <PassengerAuthContext.Provider
+      value={{ passenger: session?.passenger ?? null, signUp, login, logout, updateProfile, authFetch }}
+    >
+      {children}
+    </PassengerAuthContext.Provider>
+  )
+}
+
+export const usePassengerAuth = () => {
+  const context = useContext(PassengerAuthContext)
+  if (context === undefined) {
+    throw new Error("usePassengerAuth must be used within a PassengerAuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+
+const BEEP_INTERVAL_MS = 1200;
+
+// Repeating two-tone beep while `active`. Browsers only allow audio after the
+// user has interacted with the page, which a dispatcher signing in has done.
+export const useAlarm = (active: boolean) => {
+  useEffect(() => {
+    if (!active) return;
+
+    const context = new AudioContext();
+    const beep = () => {
+      [880, 660].forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = frequency;
+        gain.gain.value = 0.2;
+        oscillator.connect(gain).connect(context.destination);
+        const start = context.currentTime + index * 0.25;
+        oscillator.start(start);
+        oscillator.stop(start + 0.2);
+      });
+    };
+
+    beep();
+    const intervalId = setInterval(beep, BEEP_INTERVAL_MS);
+    return () => {
+      clearInterval(intervalId);
+      context.close();
+    };
+  }, [active]);
+};
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useState, type MutableRefObject } from "react";
+import type { Socket } from "socket.io-client";
+import {
+  applyReceipt,
+  fetchMyMessages,
+  loadOutbox,
+  mergeMessages,
+  saveOutbox,
+  type Message,
+  type MessageReceipt,
+  type OutboxMessage,
+} from "@/services/messages";
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+// The driver's thread with dispatch. Messages typed while offline wait in a
+// persistent outbox and are sent on every (re)connect until the server
+// echoes them back; incoming ones are acknowledged as delivered on arrival
+// and as read while `isOpen`.
+export const useDriverMessages = (
+  socketRef: MutableRefObject<Socket | null>,
+  authFetch: AuthFetch,
+  isOpen: boolean
+) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>(() => loadOutbox());
+
+  useEffect(() => {
+    fetchMyMessages(authFetch)
+      .then((history) => setMessages((current) => mergeMessages(current, history)))
+      .catch((error) => console.error("Error fetching messages:", error));
+  }, [authFetch]);
+
+  useEffect(() => {
+    saveOutbox(outbox);
+  }, [outbox]);
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    const receive = (incoming: Message[]) => {
+      setMessages((current) => mergeMessages(current, incoming));
+      const echoed = incoming.map((message) => message.clientId).filter(Boolean);
+      if (echoed.length > 0) {
+        setOutbox((current) => current.filter((queued) => !echoed.includes(queued.clientId)));
+      }
+      const fromDispatch = incoming.filter((message) => message.from === "dispatch" && !message.deliveredAt);
+      if (fromDispatch.length > 0) {
+        socket.emit("messagesDelivered", { ids: fromDispatch.map((message) => message.id) });
+      }
+    };
+    const onMessage = (message: Message) => receive([message]);
+    const onReceipt = (receipt: MessageReceipt) => setMessages((current) => applyReceipt(current, receipt));
+    const flushOutbox = () => {
+      for (const queued of loadOutbox()) {
+        socket.emit("sendMessage", { clientId: queued.clientId, body: queued.body });
+      }
+    };
+
+    socket.on("message", onMessage);
+    socket.on("messages", receive);
+    socket.on("messageReceipt", onReceipt);
+    socket.on("connect", flushOutbox);
+    if (socket.connected) flushOutbox();
+    return () => {
+      socket.off("message", onMessage);
+      socket.off("messages", receive);
+      socket.off("messageReceipt", onReceipt);
+      socket.off("connect", flushOutbox);
+    };
+  }, [socketRef]);
+
+  const unreadIds = useMemo(
+    () => messages.filter((message) => message.from === "dispatch" && !message.readAt).map((m) => m.id),
+    [messages]
+  );
+  // A stable value to depend on: the list is rebuilt on every message change
+  const unreadKey = unreadIds.join(",");
+
+  // Marks the unread messages read now and again after a reconnect, in case
+  // the receipt was lost with the connection
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !isOpen || !unreadKey) return;
+
+    const markRead = () => socket.emit("messagesRead", { ids: unreadKey.split(",") });
+    socket.on("connect", markRead);
+    if (socket.connected) markRead();
+    return () => {
+      socket.off("connect", markRead);
+    };
+  }, [socketRef, isOpen, unreadKey]);
+
+  const send = useCallback(
+    (body: string) => {
+      const queued = { clientId: crypto.randomUUID(), body, queuedAt: new Date().toISOString() };
+      setOutbox((current) => [...current, queued]);
+      if (socketRef.current?.connected) {
+        socketRef.current.emit("sendMessage", { clientId: queued.clientId, body });
+      }
+    },
+    [socketRef]
+  );
+
+  return { messages, outbox, unreadCount: unreadIds.length, send };
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { usePassengerAuth } from "@/components/contexts/PassengerAuthContext";
+import {
+  FAVORITES_STORAGE_KEY,
+  hasMergedFavoritesInto,
+  isSameFavorite,
+  loadLocalFavorites,
+  saveLocalFavorites,
+  setMergedFavoritesInto,
+  type Favorite,
+} from "@/services/favorites";
+import { fetchSavedFavorites, saveFavorites } from "@/services/passengerAuth";
+
+// The passenger's saved stops and routes, kept in this browser and in step
+// with other open tabs. Signed in, the account's list is the one that counts:
+// what was saved here before the first sign-in is merged into it once, and
+// after that the browser just follows the account, so something removed on
+// another device doesn't come back from this one.
+export const useFavorites = () => {
+  const { passenger, authFetch } = usePassengerAuth();
+  const [favorites, setFavorites] = useState<Favorite[]>(() => loadLocalFavorites());
+  // The list as the server last confirmed it, so only real changes are sent
+  const syncedRef = useRef<string | null>(null);
+  const passengerId = passenger?.id;
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === FAVORITES_STORAGE_KEY) setFavorites(loadLocalFavorites());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const update = useCallback((change: (current: Favorite[]) => Favorite[]) => {
+    setFavorites((current) => {
+      const next = change(current);
+      saveLocalFavorites(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    syncedRef.current = null;
+    if (!passengerId) return;
+
+    let cancelled = false;
+    fetchSavedFavorites(authFetch)
+      .then((saved) => {
+        if (cancelled) return;
+        syncedRef.current = JSON.stringify(saved);
+        if (hasMergedFavoritesInto(passengerId)) {
+          update(() => saved);
+          return;
+        }
+        update((local) => [...saved, ...local.filter((favorite) => !saved.some((other) => isSameFavorite(other, favorite)))]);
+        setMergedFavoritesInto(passengerId);
+      })
+      .catch((error) => console.error("Error loading saved favourites:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [passengerId, authFetch, update]);
+
+  useEffect(() => {
+    const serialized = JSON.stringify(favorites);
+    if (!passengerId || syncedRef.current === null || syncedRef.current === serialized) return;
+    syncedRef.current = serialized;
+    saveFavorites(authFetch, favorites).catch((error) => console.error("Error saving favourites:", error));
+  }, [favorites, passengerId, authFetch]);
+
+  const isFavorite = (type: Favorite["type"], id: string) =>
+    favorites.some((favorite) => isSameFavorite(favorite, { type, id }));
+
+  const toggle = useCallback(
+    (favorite: Omit<Favorite, "savedAt">) => {
+      update((current) =>
+        current.some((other) => isSameFavorite(other, favorite))
+          ? current.filter((other) => !isSameFavorite(other, favorite))
+          : [...current, { ...favorite, savedAt: new Date().toISOString() }]
+      );
+    },
+    [update]
+  );
+
+  const remove = useCallback(
+    (favorite: Pick<Favorite, "type" | "id">) => {
+      update((current) => current.filter((other) => !isSameFavorite(other, favorite)));
+    },
+    [update]
+  );
+
+  return { favorites, isFavorite, toggle, remove };
+};
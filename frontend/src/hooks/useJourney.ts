@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { latLng, type LatLng } from "leaflet";
+import { usePassengerAuth } from "@/components/contexts/PassengerAuthContext";
+import {
+  AUTO_CHECK_IN_KEY,
+  checkIn as checkInJourney,
+  checkOut as checkOutJourney,
+  fetchCurrentJourney,
+  matchBus,
+  type Journey,
+  type JourneyMethod,
+} from "@/services/journeys";
+
+// How often the phone's position is compared against the buses
+const MATCH_INTERVAL_MS = 15 * 1000;
+// Matches in a row, and distance travelled with the bus, before checking in
+// by itself; standing at a stop next to a waiting bus shouldn't count
+const AUTO_CHECK_IN_SAMPLES = 3;
+const AUTO_CHECK_IN_MIN_METERS = 150;
+// Misses in a row before checking out by itself
+const AUTO_CHECK_OUT_SAMPLES = 3;
+// Picks up check-outs made elsewhere, e.g. when the bus finished its run
+const JOURNEY_REFRESH_MS = 60 * 1000;
+
+const toMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+// The bus the signed-in passenger is checked in on, if any. With automatic
+// check-in turned on, the phone's location checks them in once it has
+// moved along with a bus for a while, and out once it no longer does.
+export const useJourney = () => {
+  const { passenger, authFetch } = usePassengerAuth();
+  const [journey, setJourney] = useState<Journey | null>(null);
+  const [autoCheckIn, setAutoCheckInState] = useState(() => localStorage.getItem(AUTO_CHECK_IN_KEY) === "true");
+  const [error, setError] = useState<string | null>(null);
+  const journeyRef = useRef(journey);
+  const passengerId = passenger?.id;
+
+  const updateJourney = useCallback((next: Journey | null) => {
+    journeyRef.current = next;
+    setJourney(next);
+  }, []);
+
+  const refresh = useCallback(() => {
+    if (!passengerId) {
+      updateJourney(null);
+      return;
+    }
+    fetchCurrentJourney(authFetch)
+      .then(updateJourney)
+      .catch((err) => console.error("Error fetching current journey:", err));
+  }, [passengerId, authFetch, updateJourney]);
+
+  useEffect(refresh, [refresh]);
+
+  const isCheckedIn = journey !== null;
+  useEffect(() => {
+    if (!isCheckedIn) return;
+    const intervalId = setInterval(refresh, JOURNEY_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [isCheckedIn, refresh]);
+
+  const checkIn = useCallback(
+    async (tripId: string, method: JourneyMethod = "manual") => {
+      setError(null);
+      try {
+        updateJourney(await checkInJourney(authFetch, tripId, method));
+      } catch (err) {
+        setError(toMessage(err, "Unable to check in"));
+      }
+    },
+    [authFetch, updateJourney]
+  );
+
+  const checkOut = useCallback(
+    async (method: JourneyMethod = "manual") => {
+      const current = journeyRef.current;
+      if (!current) return;
+      setError(null);
+      try {
+        await checkOutJourney(authFetch, current.id, method);
+        updateJourney(null);
+      } catch (err) {
+        setError(toMessage(err, "Unable to check out"));
+        refresh();
+      }
+    },
+    [authFetch, updateJourney, refresh]
+  );
+
+  const setAutoCheckIn = useCallback((enabled: boolean) => {
+    localStorage.setItem(AUTO_CHECK_IN_KEY, String(enabled));
+    setAutoCheckInState(enabled);
+  }, []);
+
+  useEffect(() => {
+    if (!autoCheckIn || !passengerId || !("geolocation" in navigator)) return;
+
+    let lastMatchAt = 0;
+    let isMatching = false;
+    let candidate: { tripId: string; count: number; first: LatLng } | null = null;
+    let misses = 0;
+
+    const onPosition = async (location: GeolocationPosition) => {
+      if (isMatching || Date.now() - lastMatchAt < MATCH_INTERVAL_MS) return;
+      isMatching = true;
+      lastMatchAt = Date.now();
+      const here = latLng(location.coords.latitude, location.coords.longitude);
+
+      try {
+        const match = await matchBus(authFetch, {
+          latitude: here.lat,
+          longitude: here.lng,
+          accuracy: location.coords.accuracy,
+        });
+        const current = journeyRef.current;
+
+        if (current) {
+          candidate = null;
+          misses = match?.trip.id === current.tripId ? 0 : misses + 1;
+          if (misses >= AUTO_CHECK_OUT_SAMPLES) {
+            misses = 0;
+            await checkOut("auto");
+          }
+        } else if (match) {
+          candidate =
+            candidate?.tripId === match.trip.id
+              ? { ...candidate, count: candidate.count + 1 }
+              : { tripId: match.trip.id, count: 1, first: here };
+          if (candidate.count >= AUTO_CHECK_IN_SAMPLES && candidate.first.distanceTo(here) >= AUTO_CHECK_IN_MIN_METERS) {
+            candidate = null;
+            await checkIn(match.trip.id, "auto");
+          }
+        } else {
+          candidate = null;
+        }
+      } catch (err) {
+        console.error("Error matching location to a bus:", err);
+      } finally {
+        isMatching = false;
+      }
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+      onPosition,
+      (err) => console.error("Error getting location:", err),
+      { enableHighAccuracy: true }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [autoCheckIn, passengerId, authFetch, checkIn, checkOut]);
+
+  return { journey, checkIn, checkOut, autoCheckIn, setAutoCheckIn, error, clearError: () => setError(null) };
+};
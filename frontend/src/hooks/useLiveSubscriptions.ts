@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import type { Socket } from "socket.io-client";
+
+interface Subscriptions {
+  routes: string[];
+  stops: string[];
+}
+
+const without = (ids: string[], other: string[]) => ids.filter((id) => !other.includes(id));
+
+// Keeps the socket joined to exactly the given route and stop rooms. Rooms
+// don't survive a reconnect, so the full set is sent again on every connect.
+// Callers should memoise `routes` and `stops` to avoid needless round trips.
+export const useLiveSubscriptions = (socket: Socket, routes: string[], stops: string[]) => {
+  const current = useRef<Subscriptions>({ routes: [], stops: [] });
+
+  useEffect(() => {
+    const resubscribe = () => {
+      socket.emit("subscribe", current.current);
+    };
+    socket.on("connect", resubscribe);
+    return () => {
+      socket.off("connect", resubscribe);
+    };
+  }, [socket]);
+
+  useEffect(() => {
+    const previous = current.current;
+    current.current = { routes, stops };
+    if (!socket.connected) return;
+
+    const removed = { routes: without(previous.routes, routes), stops: without(previous.stops, stops) };
+    const added = { routes: without(routes, previous.routes), stops: without(stops, previous.stops) };
+    if (removed.routes.length > 0 || removed.stops.length > 0) {
+      socket.emit("unsubscribe", removed);
+    }
+    if (added.routes.length > 0 || added.stops.length > 0) {
+      socket.emit("subscribe", added);
+    }
+  }, [socket, routes, stops]);
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { fetchRoutes, type BusRoute } from "@/services/routes";
+
+// Loads the route list from the backend once per mounted component
+export const useRoutes = () => {
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchRoutes()
+      .then((data) => {
+        if (!cancelled) setRoutes(data);
+      })
+      .catch((err) => {
+        console.error("Error fetching routes:", err);
+        if (!cancelled) setError("Unable to load routes");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { routes, isLoading, error };
+};
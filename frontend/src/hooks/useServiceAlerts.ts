@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Socket } from "socket.io-client";
+import {
+  fetchServiceAlerts,
+  isAlertActive,
+  loadDismissedAlerts,
+  saveDismissedAlerts,
+  type ServiceAlert,
+} from "@/services/serviceAlerts";
+
+// Alerts can start or end between pushes, so the active set is re-checked on a timer
+const ACTIVE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Service alerts that are in effect right now and not dismissed, kept live
+// over the given socket. Loaded again on every reconnect since changes made
+// while offline aren't replayed.
+export const useServiceAlerts = (socket: Socket) => {
+  const [alerts, setAlerts] = useState<Record<string, ServiceAlert>>({});
+  const [dismissed, setDismissed] = useState<string[]>(() => loadDismissedAlerts());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const load = () => {
+      fetchServiceAlerts()
+        .then((data) => setAlerts(Object.fromEntries(data.map((alert) => [alert.id, alert]))))
+        .catch((error) => console.error("Error fetching service alerts:", error));
+    };
+    const onAlert = (alert: ServiceAlert) => {
+      setAlerts((prev) => ({ ...prev, [alert.id]: alert }));
+    };
+    const onRemoved = ({ id }: { id: string }) => {
+      setAlerts((prev) => Object.fromEntries(Object.entries(prev).filter(([alertId]) => alertId !== id)));
+    };
+
+    load();
+    socket.on("connect", load);
+    socket.on("serviceAlert", onAlert);
+    socket.on("serviceAlertRemoved", onRemoved);
+    return () => {
+      socket.off("connect", load);
+      socket.off("serviceAlert", onAlert);
+      socket.off("serviceAlertRemoved", onRemoved);
+    };
+  }, [socket]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), ACTIVE_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setDismissed((prev) => {
+      const next = [...prev, id];
+      saveDismissedAlerts(next);
+      return next;
+    });
+  }, []);
+
+  const active = Object.values(alerts).filter((alert) => isAlertActive(alert, now) && !dismissed.includes(alert.id));
+  return { alerts: active, dismiss };
+};
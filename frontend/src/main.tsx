@@ -4,6 +4,8 @@ import { BrowserRouter as Router } from "react-router-dom"
 import "./index.css"
 import App from "./App"
 import { SettingsProvider } from "./components/contexts/SettingsContext"
+import { DriverAuthProvider } from "./components/contexts/DriverAuthContext"
+import { PassengerAuthProvider } from "./components/contexts/PassengerAuthContext"
 
 const rootElement = document.getElementById("root")
 if (rootElement) {
@@ -11,7 +13,11 @@ if (rootElement) {
     <StrictMode>
       {/* <Router> */}
         <SettingsProvider>
-          <App />
+          <DriverAuthProvider>
+            <PassengerAuthProvider>
+              <App />
+            </PassengerAuthProvider>
+          </DriverAuthProvider>
         </SettingsProvider>
       {/* </Router> */}
     </StrictMode>,
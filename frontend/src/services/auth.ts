@@ -0,0 +1,92 @@
+export type AccountRole = "driver" | "dispatcher";
+
+export interface DriverProfile {
+  id: string;
+  username: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  // Missing on sessions saved before roles existed, which were all drivers'
+  role?: AccountRole;
+}
+
+export interface DriverSession {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch millis after which the access token is no longer accepted
+  accessTokenExpiresAt: number;
+  driver: DriverProfile;
+}
+
+interface TokenResponse {
+  success: boolean;
+  message?: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  driver: DriverProfile;
+}
+
+// Drivers and dispatchers keep separate sessions, a dispatch desk may also be
+// used to test the driver app
+export const DRIVER_SESSION_KEY = "laalbus.driverSession";
+export const DISPATCH_SESSION_KEY = "laalbus.dispatchSession";
+
+const toSession = (data: TokenResponse): DriverSession => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  accessTokenExpiresAt: Date.now() + data.expiresIn * 1000,
+  driver: data.driver,
+});
+
+export const loadSession = (storageKey = DRIVER_SESSION_KEY): DriverSession | null => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? (JSON.parse(raw) as DriverSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: DriverSession, storageKey = DRIVER_SESSION_KEY) => {
+  localStorage.setItem(storageKey, JSON.stringify(session));
+};
+
+export const clearSession = (storageKey = DRIVER_SESSION_KEY) => {
+  localStorage.removeItem(storageKey);
+};
+
+export const loginDriver = async (username: string, password: string): Promise<DriverSession> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/driver/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || "Login failed");
+  }
+  return toSession(data);
+};
+
+// Returns null when the refresh token was rejected and the driver has to log in again
+export const refreshDriverSession = async (refreshToken: string): Promise<DriverSession | null> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/driver/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (response.status === 401) return null;
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || "Unable to refresh session");
+  }
+  return toSession(data);
+};
+
+export const logoutDriver = async (accessToken: string) => {
+  await fetch(`${import.meta.env.VITE_BACKEND_URL}/driver/logout`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+};
@@ -0,0 +1,53 @@
+export interface StopEta {
+  stopId: string;
+  stopName: string;
+  distanceMeters: number;
+  seconds: number;
+  arrivalAt: string;
+}
+
+// Payload of the `etaUpdate` socket event, one per bus
+export interface EtaUpdate {
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  vehicleLabel: string;
+  etas: StopEta[];
+  updatedAt: string;
+}
+
+export interface StopArrival extends StopEta {
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  vehicleLabel: string;
+}
+
+// Flattens the per-bus updates into arrivals at one stop, soonest first
+export const getArrivalsForStop = (updates: EtaUpdate[], stopId: string): StopArrival[] =>
+  updates
+    .flatMap((update) =>
+      update.etas
+        .filter((eta) => eta.stopId === stopId)
+        .map((eta) => ({
+          driverId: update.driverId,
+          tripId: update.tripId,
+          routeId: update.routeId,
+          routeName: update.routeName,
+          headsign: update.headsign,
+          vehicleLabel: update.vehicleLabel,
+          ...eta,
+        }))
+    )
+    .sort((a, b) => a.arrivalAt.localeCompare(b.arrivalAt));
+
+export const formatEta = (seconds: number) => {
+  if (seconds < 60) return "Due";
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
@@ -0,0 +1,56 @@
+import type { StopArrival } from "./eta";
+
+export type FavoriteType = "stop" | "route";
+
+// A stop or route the passenger saved. Names are kept so the list reads
+// correctly before the route list has loaded.
+export interface Favorite {
+  type: FavoriteType;
+  id: string;
+  name: string;
+  // Route colour, for the swatch next to saved routes
+  color?: string;
+  savedAt: string;
+}
+
+export const FAVORITES_STORAGE_KEY = "laalbus.favorites";
+// The account this browser's favourites were last merged into
+const FAVORITES_MERGED_STORAGE_KEY = "laalbus.favoritesMergedInto";
+
+export const isSameFavorite = (a: Pick<Favorite, "type" | "id">, b: Pick<Favorite, "type" | "id">) =>
+  a.type === b.type && a.id === b.id;
+
+export const loadLocalFavorites = (): Favorite[] => {
+  try {
+    const raw = localStorage.getItem(FAVORITES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Favorite[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLocalFavorites = (favorites: Favorite[]) => {
+  localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
+};
+
+export const hasMergedFavoritesInto = (passengerId: string) =>
+  localStorage.getItem(FAVORITES_MERGED_STORAGE_KEY) === passengerId;
+
+export const setMergedFavoritesInto = (passengerId: string) => {
+  localStorage.setItem(FAVORITES_MERGED_STORAGE_KEY, passengerId);
+};
+
+const fetchArrivals = async (path: string): Promise<StopArrival[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load arrivals (${response.status})`);
+  }
+  const data = await response.json();
+  return data.arrivals;
+};
+
+// Buses heading to the stop, soonest first
+export const fetchStopArrivals = (stopId: string) => fetchArrivals(`/stops/${stopId}/arrivals`);
+
+// Each bus on the route with its next stop, soonest first
+export const fetchRouteArrivals = (routeId: string) => fetchArrivals(`/routes/${routeId}/arrivals`);
@@ -0,0 +1,87 @@
+import type { DriverPosition } from "./tracking";
+import type { TripContext } from "./trips";
+
+// A bus on the road as listed in the dispatch console
+export interface FleetBus {
+  // Driver account id
+  id: string;
+  driverName?: string;
+  position: DriverPosition;
+  trip: TripContext;
+  lastSeenAt: string;
+  stale: boolean;
+  emergency?: boolean;
+}
+
+export type TripAlertType = "offRoute" | "longIdle";
+
+// Sent to dispatch in `tripAlerts`, `tripAlert` and `tripAlertResolved`
+export interface TripAlert {
+  id: string;
+  type: TripAlertType;
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  vehicleLabel: string;
+  raisedAt: string;
+  resolvedAt?: string;
+  latitude: number;
+  longitude: number;
+  distanceMeters?: number;
+  idleSeconds?: number;
+}
+
+// Ordered from most to least urgent
+export type BusStatus = "sos" | "stale" | "offRoute" | "longIdle" | "stopped" | "moving";
+
+export const BUS_STATUS_LABELS: Record<BusStatus, string> = {
+  sos: "SOS",
+  stale: "No signal",
+  offRoute: "Off route",
+  longIdle: "Idle",
+  stopped: "Stopped",
+  moving: "Moving",
+};
+
+// Below walking pace (m/s) a bus counts as stopped
+const STOPPED_SPEED_MPS = 1;
+
+export const getBusStatus = (bus: FleetBus, alerts: TripAlert[]): BusStatus => {
+  if (bus.emergency) return "sos";
+  if (bus.stale) return "stale";
+  const open = alerts.filter((alert) => alert.driverId === bus.id && !alert.resolvedAt);
+  if (open.some((alert) => alert.type === "offRoute")) return "offRoute";
+  if (open.some((alert) => alert.type === "longIdle")) return "longIdle";
+  return (bus.position.speed ?? 0) < STOPPED_SPEED_MPS ? "stopped" : "moving";
+};
+
+export const describeTripAlert = (alert: TripAlert) =>
+  alert.type === "offRoute"
+    ? `Off route${alert.distanceMeters !== undefined ? `, ${Math.round(alert.distanceMeters)} m from the route` : ""}`
+    : `Idle${alert.idleSeconds !== undefined ? ` for ${Math.round(alert.idleSeconds / 60)} min` : ""} away from any stop`;
+
+export const formatSpeed = (speed?: number | null) => (speed == null ? "–" : `${Math.round(speed * 3.6)} km/h`);
+
+export const formatPingAge = (lastSeenAt: string, now = Date.now()) => {
+  const seconds = Math.max(0, Math.round((now - new Date(lastSeenAt).getTime()) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+export const fetchFleet = async (authFetch: AuthFetch): Promise<FleetBus[]> =>
+  (await readJson(await authFetch("/fleet"))).buses;
+
+// Ends the driver's running trip on their behalf; their app is told through `tripEnded`
+export const endDriverTrip = async (authFetch: AuthFetch, driverId: string) => {
+  await readJson(await authFetch(`/fleet/${driverId}/end-trip`, { method: "POST" }));
+};
@@ -0,0 +1,57 @@
+export type IncidentStatus = "open" | "acknowledged" | "resolved";
+
+// An SOS raised by a driver, as sent in `sosStatus` / `sosUpdate`
+export interface Incident {
+  id: string;
+  driverId: string;
+  driverName?: string;
+  tripId?: string;
+  routeId?: string;
+  routeName?: string;
+  vehicleLabel?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  message?: string;
+  status: IncidentStatus;
+  raisedAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+// Payload of the driver's `sos` event
+export interface SosRequest {
+  position: { latitude: number; longitude: number; accuracy?: number | null } | null;
+  message?: string;
+}
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+// The server records the signed-in dispatcher's name on the incident
+const updateIncident = async (authFetch: AuthFetch, incidentId: string, action: "acknowledge" | "resolve") => {
+  const response = await authFetch(`/incidents/${incidentId}/${action}`, { method: "POST" });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data.incident as Incident;
+};
+
+export const acknowledgeIncident = (authFetch: AuthFetch, incidentId: string) =>
+  updateIncident(authFetch, incidentId, "acknowledge");
+
+export const resolveIncident = (authFetch: AuthFetch, incidentId: string) =>
+  updateIncident(authFetch, incidentId, "resolve");
+
+export const describeIncidentStatus = (incident: Incident) => {
+  switch (incident.status) {
+    case "open":
+      return "SOS sent, waiting for dispatch to respond";
+    case "acknowledged":
+      return `Dispatch has seen your SOS${incident.acknowledgedBy ? ` (${incident.acknowledgedBy})` : ""}, help is on the way`;
+    case "resolved":
+      return "Emergency resolved";
+  }
+};
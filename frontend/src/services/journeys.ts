@@ -0,0 +1,104 @@
+import type { TripContext } from "./trips";
+
+export type JourneyMethod = "manual" | "auto";
+
+// One ride on one bus, as the server returns it. The path is filled in at
+// check-out from the bus's recorded track.
+export interface Journey {
+  id: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  routeColor?: string;
+  headsign?: string;
+  vehicleLabel?: string;
+  status: "active" | "completed";
+  boardedAt: string;
+  alightedAt?: string;
+  fromStopName?: string;
+  toStopName?: string;
+  distanceMeters?: number;
+  path: { latitude: number; longitude: number }[];
+  checkInMethod: JourneyMethod;
+  checkOutMethod?: JourneyMethod | "tripEnded";
+}
+
+// The running bus the phone's position puts the passenger on
+export interface BusMatch {
+  trip: TripContext;
+  distanceMeters: number;
+}
+
+// Whether this browser checks the passenger in and out by itself
+export const AUTO_CHECK_IN_KEY = "laalbus.autoCheckIn";
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+const postJson = (authFetch: AuthFetch, path: string, body: unknown) =>
+  authFetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+export const fetchJourneys = async (authFetch: AuthFetch, before?: string): Promise<Journey[]> => {
+  const query = before ? `?before=${encodeURIComponent(before)}` : "";
+  return (await readJson(await authFetch(`/journeys${query}`))).journeys;
+};
+
+export const fetchCurrentJourney = async (authFetch: AuthFetch): Promise<Journey | null> => {
+  return (await readJson(await authFetch("/journeys/current"))).journey;
+};
+
+export const checkIn = async (authFetch: AuthFetch, tripId: string, method: JourneyMethod = "manual"): Promise<Journey> => {
+  return (await readJson(await postJson(authFetch, "/journeys", { tripId, method }))).journey;
+};
+
+export const checkOut = async (
+  authFetch: AuthFetch,
+  journeyId: string,
+  method: JourneyMethod = "manual"
+): Promise<Journey> => {
+  return (await readJson(await postJson(authFetch, `/journeys/${journeyId}/check-out`, { method }))).journey;
+};
+
+export const matchBus = async (
+  authFetch: AuthFetch,
+  position: { latitude: number; longitude: number; accuracy?: number | null }
+): Promise<BusMatch | null> => {
+  return (await readJson(await postJson(authFetch, "/journeys/match", position))).match;
+};
+
+export const deleteJourney = async (authFetch: AuthFetch, journeyId: string) => {
+  await readJson(await authFetch(`/journeys/${journeyId}`, { method: "DELETE" }));
+};
+
+// Saves the whole history as a CSV file through a temporary download link
+export const downloadJourneysCsv = async (authFetch: AuthFetch) => {
+  const response = await authFetch("/journeys/export");
+  if (!response.ok) await readJson(response);
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "laal-bus-journeys.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export const formatDuration = (from: string, to: string) => {
+  const minutes = Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
@@ -0,0 +1,116 @@
+export type MessageSender = "driver" | "dispatch";
+
+// One message in a driver's thread with dispatch
+export interface Message {
+  id: string;
+  driverId: string;
+  from: MessageSender;
+  senderName?: string;
+  body: string;
+  clientId?: string;
+  sentAt: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+// Payload of `messageReceipt`
+export interface MessageReceipt {
+  driverId: string;
+  ids: string[];
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+// Row of the dispatch inbox
+export interface MessageThread {
+  driverId: string;
+  driverName?: string;
+  lastMessage: string;
+  lastFrom: MessageSender;
+  lastAt: string;
+  unread: number;
+}
+
+// A driver message that hasn't reached the server yet
+export interface OutboxMessage {
+  clientId: string;
+  body: string;
+  queuedAt: string;
+}
+
+// One tap answers for a driver who has pulled over
+export const QUICK_REPLIES = [
+  "OK, understood",
+  "On my way",
+  "Running late",
+  "Heavy traffic",
+  "Bus is full",
+  "Vehicle problem, please call",
+];
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const OUTBOX_STORAGE_KEY = "laalbus.messageOutbox";
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+export const loadOutbox = (): OutboxMessage[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveOutbox = (outbox: OutboxMessage[]) => {
+  localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+};
+
+// Applies a receipt to a list of messages
+export const applyReceipt = (messages: Message[], receipt: MessageReceipt) =>
+  messages.map((message) =>
+    receipt.ids.includes(message.id)
+      ? {
+          ...message,
+          deliveredAt: message.deliveredAt ?? receipt.deliveredAt ?? receipt.readAt,
+          readAt: message.readAt ?? receipt.readAt,
+        }
+      : message
+  );
+
+// Adds or replaces messages by id, keeping the thread in time order
+export const mergeMessages = (messages: Message[], incoming: Message[]) => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  for (const message of incoming) byId.set(message.id, message);
+  return [...byId.values()].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+};
+
+export const fetchMyMessages = async (authFetch: AuthFetch): Promise<Message[]> =>
+  (await readJson(await authFetch("/messages/me"))).messages;
+
+export const fetchThreads = async (authFetch: AuthFetch): Promise<MessageThread[]> =>
+  (await readJson(await authFetch("/messages"))).threads;
+
+export const fetchThread = async (authFetch: AuthFetch, driverId: string): Promise<Message[]> =>
+  (await readJson(await authFetch(`/messages/${driverId}`))).messages;
+
+export const sendDispatchMessage = async (authFetch: AuthFetch, driverId: string, body: string) =>
+  (
+    await readJson(
+      await authFetch(`/messages/${driverId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body }),
+      })
+    )
+  ).message as Message;
+
+export const markThreadRead = async (authFetch: AuthFetch, driverId: string) => {
+  await readJson(await authFetch(`/messages/${driverId}/read`, { method: "POST" }));
+};
@@ -0,0 +1,127 @@
+import type { Favorite } from "./favorites";
+
+export interface PassengerProfile {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface PassengerSession {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch millis after which the access token is no longer accepted
+  accessTokenExpiresAt: number;
+  passenger: PassengerProfile;
+}
+
+export interface PassengerProfileUpdate {
+  name?: string;
+  email?: string;
+  password?: string;
+  // Needed to change the email or password
+  currentPassword?: string;
+}
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  passenger: PassengerProfile;
+}
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+export const PASSENGER_SESSION_KEY = "laalbus.passengerSession";
+
+const toSession = (data: TokenResponse): PassengerSession => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  accessTokenExpiresAt: Date.now() + data.expiresIn * 1000,
+  passenger: data.passenger,
+});
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+const post = (path: string, body: unknown) =>
+  fetch(`${import.meta.env.VITE_BACKEND_URL}/passenger${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+export const loadPassengerSession = (): PassengerSession | null => {
+  try {
+    const raw = localStorage.getItem(PASSENGER_SESSION_KEY);
+    return raw ? (JSON.parse(raw) as PassengerSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePassengerSession = (session: PassengerSession | null) => {
+  if (session) {
+    localStorage.setItem(PASSENGER_SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(PASSENGER_SESSION_KEY);
+  }
+};
+
+export const signUpPassenger = async (account: { email: string; name: string; password: string }) =>
+  toSession(await readJson(await post("/signup", account)));
+
+export const loginPassenger = async (email: string, password: string) =>
+  toSession(await readJson(await post("/login", { email, password })));
+
+// Returns null when the refresh token was rejected and the passenger has to sign in again
+export const refreshPassengerSession = async (refreshToken: string): Promise<PassengerSession | null> => {
+  const response = await post("/refresh", { refreshToken });
+  if (response.status === 401) return null;
+  return toSession(await readJson(response));
+};
+
+export const logoutPassenger = async (accessToken: string) => {
+  await fetch(`${import.meta.env.VITE_BACKEND_URL}/passenger/logout`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+};
+
+// Always succeeds, whether or not the email has an account
+export const requestPasswordReset = async (email: string) => {
+  await readJson(await post("/password-reset", { email }));
+};
+
+export const resetPassword = async (token: string, password: string) => {
+  await readJson(await post("/password-reset/confirm", { token, password }));
+};
+
+export const updatePassengerProfile = async (
+  authFetch: AuthFetch,
+  update: PassengerProfileUpdate
+): Promise<PassengerProfile> => {
+  const response = await authFetch("/passenger/me", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  return (await readJson(response)).passenger;
+};
+
+export const fetchSavedFavorites = async (authFetch: AuthFetch): Promise<Favorite[]> => {
+  return (await readJson(await authFetch("/passenger/favorites"))).favorites;
+};
+
+export const saveFavorites = async (authFetch: AuthFetch, favorites: Favorite[]): Promise<Favorite[]> => {
+  const response = await authFetch("/passenger/favorites", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ favorites }),
+  });
+  return (await readJson(response)).favorites;
+};
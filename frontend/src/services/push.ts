@@ -0,0 +1,124 @@
+const SERVICE_WORKER_URL = "/sw.js";
+
+// An armed "bus is near my stop" notification, as the server returns it
+export interface ArrivalAlert {
+  id: string;
+  stopId: string;
+  stopName?: string;
+  // Any route serving the stop when unset
+  routeId?: string;
+  routeName?: string;
+  minutes?: number;
+  meters?: number;
+  repeat: boolean;
+  isActive: boolean;
+  lastNotifiedAt?: string;
+}
+
+export interface NewArrivalAlert {
+  stopId: string;
+  routeId?: string;
+  minutes?: number;
+  meters?: number;
+  repeat?: boolean;
+}
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// VAPID keys come base64url encoded; the Push API wants raw bytes
+const toApplicationServerKey = (base64: string) => {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+// This browser's push subscription. With `create`, asks for notification
+// permission and subscribes if it hasn't yet; otherwise resolves to null.
+export const getPushSubscription = async (create = false): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const existing = await registration.pushManager.getSubscription();
+  if (existing || !create) return existing;
+
+  if ((await Notification.requestPermission()) !== "granted") {
+    throw new Error("Allow notifications for Laal Bus to get arrival alerts");
+  }
+  const { publicKey } = await readJson(await fetch(`${import.meta.env.VITE_BACKEND_URL}/arrival-alerts/vapid-public-key`));
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: toApplicationServerKey(publicKey),
+  });
+};
+
+// Alerts belong to this browser's push endpoint and, when signed in, to the
+// passenger too
+const alertFetch = (
+  authFetch: AuthFetch,
+  subscription: PushSubscription | null,
+  path: string,
+  init: RequestInit = {}
+) =>
+  authFetch(`/arrival-alerts${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      "Content-Type": "application/json",
+      ...(subscription ? { "X-Push-Endpoint": subscription.endpoint } : {}),
+    },
+  });
+
+export const fetchArrivalAlerts = async (
+  authFetch: AuthFetch,
+  subscription: PushSubscription | null
+): Promise<ArrivalAlert[]> => {
+  return (await readJson(await alertFetch(authFetch, subscription, ""))).alerts;
+};
+
+export const createArrivalAlert = async (
+  authFetch: AuthFetch,
+  subscription: PushSubscription,
+  alert: NewArrivalAlert
+): Promise<ArrivalAlert> => {
+  const response = await alertFetch(authFetch, subscription, "", {
+    method: "POST",
+    body: JSON.stringify({ subscription: subscription.toJSON(), ...alert }),
+  });
+  return (await readJson(response)).alert;
+};
+
+export const updateArrivalAlert = async (
+  authFetch: AuthFetch,
+  subscription: PushSubscription | null,
+  id: string,
+  update: Partial<Pick<ArrivalAlert, "minutes" | "meters" | "repeat" | "isActive">>
+): Promise<ArrivalAlert> => {
+  const response = await alertFetch(authFetch, subscription, `/${id}`, { method: "PUT", body: JSON.stringify(update) });
+  return (await readJson(response)).alert;
+};
+
+export const deleteArrivalAlert = async (
+  authFetch: AuthFetch,
+  subscription: PushSubscription | null,
+  id: string
+) => {
+  await readJson(await alertFetch(authFetch, subscription, `/${id}`, { method: "DELETE" }));
+};
+
+// e.g. "5 min or 1 km away"
+export const describeAlertThreshold = (alert: Pick<ArrivalAlert, "minutes" | "meters">) => {
+  const parts = [
+    alert.minutes !== undefined && `${alert.minutes} min`,
+    alert.meters !== undefined && (alert.meters >= 1000 ? `${alert.meters / 1000} km` : `${alert.meters} m`),
+  ].filter(Boolean);
+  return `${parts.join(" or ")} away`;
+};
@@ -0,0 +1,32 @@
+export interface Stop {
+  _id: string;
+  name: string;
+  code?: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface ShapePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BusRoute {
+  _id: string;
+  name: string;
+  description: string;
+  mode: "bus" | "ev";
+  color: string;
+  stops: Stop[];
+  shape: ShapePoint[];
+  isActive: boolean;
+}
+
+export const fetchRoutes = async (): Promise<BusRoute[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/routes`);
+  if (!response.ok) {
+    throw new Error(`Failed to load routes (${response.status})`);
+  }
+  const data = await response.json();
+  return data.routes;
+};
@@ -0,0 +1,62 @@
+export type ServiceAlertScope = "agency" | "route" | "stop";
+export type ServiceAlertSeverity = "info" | "warning" | "severe";
+
+// A disruption or announcement, as served by /service-alerts and pushed in `serviceAlert`
+export interface ServiceAlert {
+  id: string;
+  scope: ServiceAlertScope;
+  routeIds: string[];
+  stopIds: string[];
+  severity: ServiceAlertSeverity;
+  title: string;
+  message?: string;
+  startsAt: string;
+  endsAt?: string;
+}
+
+const DISMISSED_STORAGE_KEY = "laalbus.dismissedAlerts";
+
+// Current and upcoming alerts; upcoming ones are shown once they start
+export const fetchServiceAlerts = async (): Promise<ServiceAlert[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/service-alerts`);
+  if (!response.ok) {
+    throw new Error(`Failed to load service alerts (${response.status})`);
+  }
+  const data = await response.json();
+  return data.alerts;
+};
+
+export const isAlertActive = (alert: ServiceAlert, now = Date.now()) =>
+  new Date(alert.startsAt).getTime() <= now && (!alert.endsAt || new Date(alert.endsAt).getTime() > now);
+
+// Network-wide alerts always apply; the rest only when one of their routes or stops is in view
+export const isAlertRelevant = (alert: ServiceAlert, view: { routeIds?: string[]; stopIds?: string[] }) => {
+  switch (alert.scope) {
+    case "agency":
+      return true;
+    case "route":
+      return alert.routeIds.some((id) => view.routeIds?.includes(id));
+    case "stop":
+      return alert.stopIds.some((id) => view.stopIds?.includes(id));
+  }
+};
+
+const SEVERITY_ORDER: ServiceAlertSeverity[] = ["severe", "warning", "info"];
+
+export const sortBySeverity = (alerts: ServiceAlert[]) =>
+  [...alerts].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.startsAt.localeCompare(a.startsAt)
+  );
+
+// Dismissed alerts stay hidden for the rest of the browser session
+export const loadDismissedAlerts = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(DISMISSED_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveDismissedAlerts = (ids: string[]) => {
+  sessionStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(ids));
+};
@@ -0,0 +1,18 @@
+// Payload of `busArrived`: a bus entered a stop's geofence
+export interface BusArrival {
+  driverId: string;
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign: string;
+  vehicleLabel: string;
+  stopId: string;
+  stopName: string;
+  arrivedAt: string;
+}
+
+// Payload of `busDeparted`, sent when the bus leaves the stop again
+export interface BusDeparture extends BusArrival {
+  departedAt: string;
+  dwellSeconds: number;
+}
@@ -0,0 +1,45 @@
+import type { LatLngTuple } from "leaflet";
+
+// Position payload shared by `updateLocation` and `driverLocationUpdate`
+export interface DriverPosition {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  accuracy?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+}
+
+// Error the server sends back when it rejects one of our socket events
+export interface SocketEventError {
+  event: string;
+  code: string;
+  message: string;
+  errors?: { path: string; message: string }[];
+}
+
+export const toDriverPosition = (location: GeolocationPosition): DriverPosition => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  timestamp: Math.round(location.timestamp),
+  accuracy: location.coords.accuracy,
+  speed: location.coords.speed,
+  // Browsers report NaN while the device is stationary
+  heading: Number.isNaN(location.coords.heading) ? null : location.coords.heading,
+});
+
+export const toLatLng = (position: DriverPosition): LatLngTuple => [position.latitude, position.longitude];
+
+// Sent when a driver app goes quiet (stale) or is heard from again
+export interface DriverPresence {
+  id: string;
+  stale: boolean;
+  lastSeenAt: string;
+}
+
+export const formatLastSeen = (lastSeenAt: string, now = Date.now()) => {
+  const seconds = Math.max(0, Math.round((now - new Date(lastSeenAt).getTime()) / 1000));
+  if (seconds < 60) return `Last seen ${seconds} seconds ago`;
+  const minutes = Math.round(seconds / 60);
+  return `Last seen ${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+};
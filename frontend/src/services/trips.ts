@@ -0,0 +1,84 @@
+import type { StopEta } from "./eta";
+import type { BusRoute } from "./routes";
+import type { DriverPosition } from "./tracking";
+
+export type Direction = 0 | 1;
+
+// Trip details the backend attaches to every live bus
+export interface TripContext {
+  id: string;
+  routeId: string;
+  routeName: string;
+  routeColor: string;
+  direction: Direction;
+  headsign: string;
+  vehicleId: string;
+  vehicleLabel: string;
+  startedAt: string;
+}
+
+export interface Vehicle {
+  _id: string;
+  fleetNumber: string;
+  registration?: string;
+  mode: "bus" | "ev";
+}
+
+// What a shared tracking link opens: one running trip and where its bus is
+export interface SharedTrip {
+  driverId: string;
+  trip: TripContext;
+  route: BusRoute;
+  // Null until the driver's first ping of the trip
+  position: DriverPosition | null;
+  lastSeenAt: string | null;
+  stale: boolean;
+  etas: StopEta[];
+}
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+export const describeTrip = (trip: Pick<TripContext, "routeName" | "headsign">) =>
+  `${trip.routeName} towards ${trip.headsign}`;
+
+export const fetchVehicles = async (): Promise<Vehicle[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/vehicles`);
+  return (await readJson(response)).vehicles;
+};
+
+export const fetchCurrentTrip = async (authFetch: AuthFetch): Promise<TripContext | null> => {
+  return (await readJson(await authFetch("/trips/current"))).trip;
+};
+
+export const startTrip = async (
+  authFetch: AuthFetch,
+  trip: { routeId: string; direction: Direction; vehicleId: string }
+): Promise<TripContext> => {
+  const response = await authFetch("/trips", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(trip),
+  });
+  return (await readJson(response)).trip;
+};
+
+export const endTrip = async (authFetch: AuthFetch, tripId: string) => {
+  await readJson(await authFetch(`/trips/${tripId}/end`, { method: "POST" }));
+};
+
+// Resolves to null once the trip has ended, which is when its links expire
+export const fetchSharedTrip = async (tripId: string): Promise<SharedTrip | null> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/trips/${tripId}/live`);
+  if (response.status === 410) return null;
+  return readJson(response);
+};
+
+export const getTrackingLink = (tripId: string) => `${window.location.origin}/track/${tripId}`;
@@ -0,0 +1,189 @@
+// Amounts are whole rupees throughout
+export interface WalletEntry {
+  id: string;
+  type: "topUp" | "ticket";
+  amount: number;
+  balanceAfter?: number;
+  currency: string;
+  description?: string;
+  createdAt: string;
+}
+
+export interface Wallet {
+  balance: number;
+  currency: string;
+  entries: WalletEntry[];
+}
+
+export interface PaymentMethod {
+  id: string;
+  label: string;
+}
+
+// A ticket price; without a route it's the default for every other route
+export interface FareRule {
+  _id: string;
+  route?: string;
+  name: string;
+  amount: number;
+  validityMinutes: number;
+}
+
+export interface Ticket {
+  id: string;
+  routeId: string;
+  routeName: string;
+  fareName?: string;
+  amount: number;
+  currency: string;
+  validFrom: string;
+  expiresAt: string;
+  // Signed claims shown as the QR code
+  code: string;
+}
+
+// What a ticket's code carries, as signed by the server
+export interface TicketClaims {
+  tid: string;
+  rid: string;
+  rn: string;
+  amt: number;
+  cur: string;
+  iat: number;
+  exp: number;
+  kid: string;
+}
+
+export type TicketCheck =
+  | { status: "valid" | "expired"; claims: TicketClaims }
+  | { status: "invalid"; reason: string };
+
+// The public key tickets are checked against, kept for offline use
+const TICKET_KEY_STORAGE_KEY = "laalbus.ticketKey";
+
+type AuthFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+export const fetchWallet = async (authFetch: AuthFetch): Promise<Wallet> => {
+  return readJson(await authFetch("/wallet"));
+};
+
+export const fetchPaymentMethods = async (): Promise<PaymentMethod[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/wallet/payment-methods`);
+  return (await readJson(response)).methods;
+};
+
+// Send the same idempotency key when retrying a top-up whose response was
+// lost; the server then charges the card at most once
+export const topUpWallet = async (
+  authFetch: AuthFetch,
+  topUp: { amount: number; paymentMethod: string; idempotencyKey: string }
+): Promise<{ balance: number; entry: WalletEntry }> => {
+  const response = await authFetch("/wallet/top-up", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(topUp),
+  });
+  return readJson(response);
+};
+
+export const fetchFares = async (): Promise<FareRule[]> => {
+  const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/fares`);
+  return (await readJson(response)).fares;
+};
+
+// The route's own fare, or the network-wide default
+export const getFareForRoute = (fares: FareRule[], routeId: string) =>
+  fares.find((fare) => fare.route === routeId) ?? fares.find((fare) => !fare.route);
+
+export const fetchTickets = async (authFetch: AuthFetch): Promise<Ticket[]> => {
+  return (await readJson(await authFetch("/wallet/tickets"))).tickets;
+};
+
+export const buyTicket = async (
+  authFetch: AuthFetch,
+  routeId: string
+): Promise<{ balance: number; ticket: Ticket }> => {
+  const response = await authFetch("/wallet/tickets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ routeId }),
+  });
+  return readJson(response);
+};
+
+// Camera apps open this straight into the verifier. The code rides in the
+// fragment, so it never reaches a server.
+export const getTicketLink = (code: string) => `${window.location.origin}/verify-ticket#${code}`;
+
+export const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+
+const fromBase64Url = (value: string) => {
+  const padded = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+type TicketKey = { keyId: string; jwk: JsonWebKey };
+
+const loadTicketKey = (): TicketKey | null => {
+  try {
+    return JSON.parse(localStorage.getItem(TICKET_KEY_STORAGE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+// The saved key, refreshed from the server when online or when a ticket
+// names a key we don't have yet (the server's key was rotated)
+export const getTicketKey = async (keyId?: string): Promise<TicketKey | null> => {
+  const saved = loadTicketKey();
+  if (saved && (!keyId || saved.keyId === keyId) && !navigator.onLine) return saved;
+
+  try {
+    const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/wallet/ticket-key`);
+    const key: TicketKey = await readJson(response);
+    localStorage.setItem(TICKET_KEY_STORAGE_KEY, JSON.stringify(key));
+    return key;
+  } catch {
+    return saved;
+  }
+};
+
+// Checks a ticket code's signature and expiry on this device alone, once
+// the public key has been saved
+export const verifyTicketCode = async (code: string, now = Date.now()): Promise<TicketCheck> => {
+  const [encoded, signature] = code.trim().split(".");
+  if (!encoded || !signature) return { status: "invalid", reason: "This is not a Laal Bus ticket" };
+
+  let claims: TicketClaims;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+  } catch {
+    return { status: "invalid", reason: "This is not a Laal Bus ticket" };
+  }
+
+  const key = await getTicketKey(claims.kid);
+  if (!key) return { status: "invalid", reason: "Connect to the internet once to download the ticket key" };
+  if (key.keyId !== claims.kid) return { status: "invalid", reason: "Signed with a key this device doesn't know" };
+
+  const publicKey = await crypto.subtle.importKey("jwk", key.jwk, { name: "ECDSA", namedCurve: "P-256" }, false, [
+    "verify",
+  ]);
+  const isSigned = await crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    publicKey,
+    fromBase64Url(signature),
+    new TextEncoder().encode(encoded)
+  );
+  if (!isSigned) return { status: "invalid", reason: "The signature doesn't match; this ticket was altered" };
+
+  return { status: claims.exp * 1000 > now ? "valid" : "expired", claims };
+};